@@ -9,23 +9,27 @@ import Dashboard from "@/pages/Dashboard";
 import Home from "@/pages/Home";
 import Settings from "@/pages/Settings";
 import Shared from "@/pages/Shared";
+import SharedFile from "@/pages/SharedFile";
 import { useAuth, AuthProvider } from "./contexts/AuthContext";
 import { useEffect } from "react";
 
 function Router() {
   const { user, loading } = useAuth();
   const [location, setLocation] = useLocation();
+  // Share links are opened by people who may not have an account
+  const isPublicRoute = location.startsWith("/s/");
 
   useEffect(() => {
+    if (isPublicRoute) return;
     if (!loading && !user && location !== "/login") {
       setLocation("/login");
     }
     if (!loading && user && location === "/login") {
       setLocation("/");
     }
-  }, [user, loading, location, setLocation]);
+  }, [user, loading, location, setLocation, isPublicRoute]);
 
-  if (loading) {
+  if (loading && !isPublicRoute) {
     return (
       <div className="min-h-screen w-full flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
@@ -40,6 +44,7 @@ function Router() {
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/settings" component={Settings} />
       <Route path="/shared" component={Shared} />
+      <Route path="/s/:shareLink" component={SharedFile} />
       <Route component={NotFound} />
     </Switch>
   );
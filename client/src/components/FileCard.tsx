@@ -4,16 +4,17 @@ import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Share2, Download, MoreVertical, Star, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { downloadFile, starFile, deleteFile } from "@/lib/api";
+import { downloadFile, starFile, deleteFile, restoreFile, permanentlyDeleteFile } from "@/lib/api";
 import { useQueryClient } from "@tanstack/react-query";
 
 interface FileCardProps {
   file: FileWithShareInfo;
   onPreview: () => void;
   onShare: () => void;
+  inTrash?: boolean;
 }
 
-export default function FileCard({ file, onPreview, onShare }: FileCardProps) {
+export default function FileCard({ file, onPreview, onShare, inTrash = false }: FileCardProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isStarring, setIsStarring] = useState(false);
@@ -163,6 +164,12 @@ export default function FileCard({ file, onPreview, onShare }: FileCardProps) {
 
   // Handle download
   const handleDownload = async () => {
+    // Encrypted files are decrypted in the preview, which asks for the passphrase
+    if (file.isEncrypted) {
+      onPreview();
+      return;
+    }
+
     try {
       setIsDownloading(true);
       const blob = await downloadFile(file.id);
@@ -202,7 +209,8 @@ export default function FileCard({ file, onPreview, onShare }: FileCardProps) {
       // Update queries
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
       queryClient.invalidateQueries({ queryKey: ['/api/files/recent'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/files/type/starred'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/starred'] });
       
       toast({
         title: file.isStarred ? "File Unstarred" : "File Starred",
@@ -229,6 +237,8 @@ export default function FileCard({ file, onPreview, onShare }: FileCardProps) {
       // Update queries
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
       queryClient.invalidateQueries({ queryKey: ['/api/files/recent'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/trash'] });
       
       toast({
         title: "File Deleted",
@@ -246,6 +256,59 @@ export default function FileCard({ file, onPreview, onShare }: FileCardProps) {
     }
   };
 
+  // Handle restoring file from trash
+  const handleRestore = async () => {
+    try {
+      setIsDeleting(true);
+      await restoreFile(file.id);
+      
+      // Update queries
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/recent'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/trash'] });
+      
+      toast({
+        title: "File Restored",
+        description: `${file.fileName} has been restored.`,
+      });
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast({
+        title: "Restore Failed",
+        description: "Failed to restore the file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Handle deleting file forever
+  const handlePermanentDelete = async () => {
+    try {
+      setIsDeleting(true);
+      await permanentlyDeleteFile(file.id);
+      
+      // Update queries
+      queryClient.invalidateQueries({ queryKey: ['/api/files/trash'] });
+      
+      toast({
+        title: "File Deleted Forever",
+        description: `${file.fileName} has been permanently deleted.`,
+      });
+    } catch (error) {
+      console.error('Permanent delete error:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to permanently delete the file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   return (
     <div className="rounded-lg shadow bg-white overflow-hidden transition-shadow hover:shadow-md file-card">
       {/* File Preview/Icon */}
@@ -263,6 +326,14 @@ export default function FileCard({ file, onPreview, onShare }: FileCardProps) {
                   <MoreVertical className="h-5 w-5 text-gray-400 hover:text-gray-600" />
                 </Button>
               </DropdownMenuTrigger>
+              {inTrash ? (
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={handleRestore}>Restore</DropdownMenuItem>
+                <DropdownMenuItem onClick={handlePermanentDelete} className="text-red-600">
+                  Delete Forever
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+              ) : (
               <DropdownMenuContent align="end">
                 <DropdownMenuItem onClick={onPreview}>Preview</DropdownMenuItem>
                 <DropdownMenuItem onClick={handleDownload}>Download</DropdownMenuItem>
@@ -274,6 +345,7 @@ export default function FileCard({ file, onPreview, onShare }: FileCardProps) {
                   Delete
                 </DropdownMenuItem>
               </DropdownMenuContent>
+              )}
             </DropdownMenu>
           </div>
         </div>
@@ -288,6 +360,16 @@ export default function FileCard({ file, onPreview, onShare }: FileCardProps) {
           <p className="text-xs text-gray-500">{formatFileSize(file.fileSize)}</p>
           <p className="text-xs text-gray-500">{formatDate(file.uploadTimestamp)}</p>
         </div>
+        {inTrash ? (
+        <div className="mt-4 flex justify-between">
+          <Button variant="link" size="sm" onClick={handleRestore} disabled={isDeleting} className="text-xs text-primary hover:text-blue-700 font-medium p-0">
+            Restore
+          </Button>
+          <Button variant="link" size="sm" onClick={handlePermanentDelete} disabled={isDeleting} className="text-xs text-red-600 hover:text-red-700 font-medium p-0">
+            Delete Forever
+          </Button>
+        </div>
+        ) : (
         <div className="mt-4 flex justify-between">
           <Button variant="link" size="sm" onClick={handleDownload} disabled={isDownloading} className="text-xs text-primary hover:text-blue-700 font-medium p-0">
             Download
@@ -296,6 +378,7 @@ export default function FileCard({ file, onPreview, onShare }: FileCardProps) {
             Share
           </Button>
         </div>
+        )}
       </div>
     </div>
   );
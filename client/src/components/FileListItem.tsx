@@ -2,17 +2,18 @@ import { useState } from "react";
 import { FileWithShareInfo } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { downloadFile, starFile, deleteFile } from "@/lib/api";
+import { downloadFile, starFile, deleteFile, restoreFile, permanentlyDeleteFile } from "@/lib/api";
 import { useQueryClient } from "@tanstack/react-query";
-import { Download, Share2, MoreVertical, Star, Trash2 } from "lucide-react";
+import { Download, Share2, MoreVertical, Star, Trash2, RotateCcw } from "lucide-react";
 
 interface FileListItemProps {
   file: FileWithShareInfo;
   onPreview: () => void;
   onShare: () => void;
+  inTrash?: boolean;
 }
 
-export default function FileListItem({ file, onPreview, onShare }: FileListItemProps) {
+export default function FileListItem({ file, onPreview, onShare, inTrash = false }: FileListItemProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isStarring, setIsStarring] = useState(false);
@@ -107,6 +108,12 @@ export default function FileListItem({ file, onPreview, onShare }: FileListItemP
 
   // Handle download
   const handleDownload = async () => {
+    // Encrypted files are decrypted in the preview, which asks for the passphrase
+    if (file.isEncrypted) {
+      onPreview();
+      return;
+    }
+
     try {
       setIsDownloading(true);
       const blob = await downloadFile(file.id);
@@ -146,7 +153,8 @@ export default function FileListItem({ file, onPreview, onShare }: FileListItemP
       // Update queries
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
       queryClient.invalidateQueries({ queryKey: ['/api/files/recent'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/files/type/starred'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/starred'] });
       
       toast({
         title: file.isStarred ? "File Unstarred" : "File Starred",
@@ -173,6 +181,8 @@ export default function FileListItem({ file, onPreview, onShare }: FileListItemP
       // Update queries
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
       queryClient.invalidateQueries({ queryKey: ['/api/files/recent'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/trash'] });
       
       toast({
         title: "File Deleted",
@@ -190,6 +200,59 @@ export default function FileListItem({ file, onPreview, onShare }: FileListItemP
     }
   };
 
+  // Handle restoring file from trash
+  const handleRestore = async () => {
+    try {
+      setIsDeleting(true);
+      await restoreFile(file.id);
+      
+      // Update queries
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/recent'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/trash'] });
+      
+      toast({
+        title: "File Restored",
+        description: `${file.fileName} has been restored.`,
+      });
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast({
+        title: "Restore Failed",
+        description: "Failed to restore the file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Handle deleting file forever
+  const handlePermanentDelete = async () => {
+    try {
+      setIsDeleting(true);
+      await permanentlyDeleteFile(file.id);
+      
+      // Update queries
+      queryClient.invalidateQueries({ queryKey: ['/api/files/trash'] });
+      
+      toast({
+        title: "File Deleted Forever",
+        description: `${file.fileName} has been permanently deleted.`,
+      });
+    } catch (error) {
+      console.error('Permanent delete error:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to permanently delete the file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   return (
     <li className="px-4 py-4 sm:px-6 hover:bg-gray-50 transition-colors duration-150">
       <div className="flex items-center justify-between">
@@ -211,6 +274,30 @@ export default function FileListItem({ file, onPreview, onShare }: FileListItemP
             </div>
           </div>
         </div>
+        {inTrash ? (
+        <div className="flex items-center space-x-4">
+          <Button 
+            variant="ghost" 
+            size="icon"
+            onClick={handleRestore}
+            disabled={isDeleting}
+            title="Restore"
+            className="text-gray-400 hover:text-primary"
+          >
+            <RotateCcw className="h-5 w-5" />
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="icon"
+            onClick={handlePermanentDelete}
+            disabled={isDeleting}
+            title="Delete forever"
+            className="text-gray-400 hover:text-red-500"
+          >
+            <Trash2 className="h-5 w-5" />
+          </Button>
+        </div>
+        ) : (
         <div className="flex items-center space-x-4">
           <Button 
             variant="ghost" 
@@ -248,6 +335,7 @@ export default function FileListItem({ file, onPreview, onShare }: FileListItemP
             <Trash2 className="h-5 w-5" />
           </Button>
         </div>
+        )}
       </div>
     </li>
   );
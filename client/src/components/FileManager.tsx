@@ -7,18 +7,33 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { FileWithShareInfo } from "@shared/schema";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { FileWithShareInfo, Folder } from "@shared/schema";
 import FileCard from "./FileCard";
 import FileListItem from "./FileListItem";
+import FolderCard from "./FolderCard";
+import FolderNameModal from "./modals/FolderNameModal";
+import ShareFolderModal from "./modals/ShareFolderModal";
 import {
   ChevronDown,
   FolderPlus,
   Grid,
   List,
   Search,
+  StarOff,
   Upload,
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { starFiles } from "@/lib/api";
+import { useQueryClient } from "@tanstack/react-query";
 
 interface FileManagerProps {
   files: FileWithShareInfo[];
@@ -31,6 +46,10 @@ interface FileManagerProps {
   onPreviewFile: (file: FileWithShareInfo) => void;
   onShareFile: (file: FileWithShareInfo) => void;
   filter: string;
+  folders?: Folder[];
+  folderPath?: Folder[];
+  currentFolderId: number | null;
+  onOpenFolder: (folderId: number | null) => void;
 }
 
 export default function FileManager({
@@ -44,11 +63,27 @@ export default function FileManager({
   onPreviewFile,
   onShareFile,
   filter,
+  folders = [],
+  folderPath = [],
+  currentFolderId,
+  onOpenFolder,
 }: FileManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [sortOrder, setSortOrder] = useState<"name" | "date" | "size">("date");
+  const [isUnstarring, setIsUnstarring] = useState(false);
+  const [folderModalOpen, setFolderModalOpen] = useState(false);
+  const [renamingFolder, setRenamingFolder] = useState<Folder | undefined>(undefined);
+  const [sharingFolder, setSharingFolder] = useState<Folder | null>(null);
+
+  // Folders are only browsable from the "all" view
+  const showFolders = filter === "all" && !searchQuery;
 
-  // Sort files based on the selected sort order
+  // Sort files based on the selected sort order, keeping starred files pinned to the top
   const sortedFiles = [...files].sort((a, b) => {
+    if (!!a.isStarred !== !!b.isStarred) {
+      return a.isStarred ? -1 : 1;
+    }
     switch (sortOrder) {
       case "name":
         return a.fileName.localeCompare(b.fileName);
@@ -60,6 +95,33 @@ export default function FileManager({
     }
   });
 
+  // Unstar every file in the starred view at once
+  const handleUnstarAll = async () => {
+    try {
+      setIsUnstarring(true);
+      await starFiles(files.map((file) => file.id), false);
+
+      // Update queries
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/starred'] });
+
+      toast({
+        title: "Files Unstarred",
+        description: `${files.length} ${files.length === 1 ? 'file has' : 'files have'} been removed from starred files.`,
+      });
+    } catch (error) {
+      console.error('Bulk unstar error:', error);
+      toast({
+        title: "Action Failed",
+        description: "Failed to update star status.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUnstarring(false);
+    }
+  };
+
   // Get the recent files (first 4 files)
   const recentFiles = sortedFiles.slice(0, 4);
   
@@ -125,6 +187,17 @@ export default function FileManager({
         </div>
 
         <div className="w-full sm:w-auto flex justify-between sm:justify-start space-x-3">
+          {filter === "starred" && files.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={handleUnstarAll}
+              disabled={isUnstarring}
+              className="flex items-center"
+            >
+              <StarOff className="mr-2 h-5 w-5" />
+              Unstar All
+            </Button>
+          )}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" className="flex items-center">
@@ -146,7 +219,10 @@ export default function FileManager({
           </DropdownMenu>
           <Button 
             variant="secondary"
-            onClick={() => {}}
+            onClick={() => {
+              setRenamingFolder(undefined);
+              setFolderModalOpen(true);
+            }}
             className="flex items-center"
           >
             <FolderPlus className="mr-2 h-5 w-5" />
@@ -161,10 +237,55 @@ export default function FileManager({
 
       {/* File List */}
       <div className="flex-1 overflow-auto p-4 sm:p-6 lg:p-8 bg-gray-50">
-        <h2 className="text-xl font-semibold text-gray-900 mb-6">{getTitle()}</h2>
+        {filter === "all" && folderPath.length > 0 ? (
+          <Breadcrumb className="mb-6">
+            <BreadcrumbList className="text-xl font-semibold">
+              <BreadcrumbItem>
+                <BreadcrumbLink className="cursor-pointer" onClick={() => onOpenFolder(null)}>
+                  {getTitle()}
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              {folderPath.map((folder, index) => (
+                <BreadcrumbItem key={folder.id}>
+                  <BreadcrumbSeparator />
+                  {index === folderPath.length - 1 ? (
+                    <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+                  ) : (
+                    <BreadcrumbLink className="cursor-pointer" onClick={() => onOpenFolder(folder.id)}>
+                      {folder.name}
+                    </BreadcrumbLink>
+                  )}
+                </BreadcrumbItem>
+              ))}
+            </BreadcrumbList>
+          </Breadcrumb>
+        ) : (
+          <h2 className="text-xl font-semibold text-gray-900 mb-6">{getTitle()}</h2>
+        )}
+
+        {/* Folders Section */}
+        {showFolders && folders.length > 0 && (
+          <div className="mb-8">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Folders</h3>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {folders.map((folder) => (
+                <FolderCard
+                  key={folder.id}
+                  folder={folder}
+                  onOpen={() => onOpenFolder(folder.id)}
+                  onRename={() => {
+                    setRenamingFolder(folder);
+                    setFolderModalOpen(true);
+                  }}
+                  onShare={() => setSharingFolder(folder)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
 
-        {/* Recent Files Section - Only show if we're in the "all" filter */}
-        {filter === "all" && !searchQuery && recentFiles.length > 0 && (
+        {/* Recent Files Section - Only show at the root of the "all" filter */}
+        {showFolders && currentFolderId === null && recentFiles.length > 0 && (
           <div className="mb-8">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Files</h3>
             {isLoading ? (
@@ -199,7 +320,7 @@ export default function FileManager({
         {/* All Files Section */}
         <div>
           <h3 className="text-lg font-medium text-gray-900 mb-4">
-            {filter === "all" && !searchQuery ? "All Files" : "Files"}
+            {showFolders && currentFolderId === null ? "All Files" : "Files"}
           </h3>
           {isLoading ? (
             viewMode === "grid" ? (
@@ -249,6 +370,7 @@ export default function FileManager({
                     file={file}
                     onPreview={() => onPreviewFile(file)}
                     onShare={() => onShareFile(file)}
+                    inTrash={filter === "trash"}
                   />
                 ))}
               </div>
@@ -261,6 +383,7 @@ export default function FileManager({
                       file={file}
                       onPreview={() => onPreviewFile(file)}
                       onShare={() => onShareFile(file)}
+                      inTrash={filter === "trash"}
                     />
                   ))}
                 </ul>
@@ -295,6 +418,21 @@ export default function FileManager({
           )}
         </div>
       </div>
+
+      <FolderNameModal
+        isOpen={folderModalOpen}
+        onClose={() => setFolderModalOpen(false)}
+        parentId={currentFolderId}
+        folder={renamingFolder}
+      />
+
+      {sharingFolder && (
+        <ShareFolderModal
+          isOpen={!!sharingFolder}
+          onClose={() => setSharingFolder(null)}
+          folder={sharingFolder}
+        />
+      )}
     </div>
   );
 }
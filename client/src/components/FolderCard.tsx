@@ -0,0 +1,41 @@
+import { Folder } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Folder as FolderIcon, MoreVertical } from "lucide-react";
+
+interface FolderCardProps {
+  folder: Folder;
+  onOpen: () => void;
+  onRename: () => void;
+  onShare: () => void;
+}
+
+export default function FolderCard({ folder, onOpen, onRename, onShare }: FolderCardProps) {
+  return (
+    <div
+      className="rounded-lg shadow bg-white overflow-hidden transition-shadow hover:shadow-md cursor-pointer"
+      onDoubleClick={onOpen}
+    >
+      <div className="px-4 py-3 flex items-center justify-between">
+        <div className="flex items-center min-w-0" onClick={onOpen}>
+          <FolderIcon className="h-6 w-6 text-yellow-500 mr-3 flex-shrink-0" />
+          <h3 className="text-sm font-medium text-gray-900 truncate" title={folder.name}>
+            {folder.name}
+          </h3>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="flex-shrink-0">
+              <MoreVertical className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={onOpen}>Open</DropdownMenuItem>
+            <DropdownMenuItem onClick={onRename}>Rename</DropdownMenuItem>
+            <DropdownMenuItem onClick={onShare}>Share</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+}
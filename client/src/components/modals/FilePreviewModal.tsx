@@ -1,10 +1,11 @@
-import { useState } from "react";
+import { useState, useEffect, FormEvent } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { FileWithShareInfo } from "@shared/schema";
-import { downloadFile } from "@/lib/api";
+import { downloadFile, downloadDecryptedFile, getFileStreamUrl } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-import { Download, X } from "lucide-react";
+import { Download, Lock, X } from "lucide-react";
 import { formatBytes } from "@/lib/utils";
 
 interface FilePreviewModalProps {
@@ -16,6 +17,78 @@ interface FilePreviewModalProps {
 export default function FilePreviewModal({ isOpen, onClose, file }: FilePreviewModalProps) {
   const { toast } = useToast();
   const [isDownloading, setIsDownloading] = useState(false);
+  const [streamUrl, setStreamUrl] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [decrypted, setDecrypted] = useState<{ blob: Blob; url: string } | null>(null);
+  
+  const ext = file.fileName.toLowerCase().split('.').pop() || '';
+  const isMedia = ['mp4', 'webm', 'mp3', 'wav', 'ogg'].includes(ext);
+  const isEncrypted = !!file.isEncrypted;
+  
+  // Encrypted files are decrypted into a local object URL instead of being streamed
+  const mediaUrl = isEncrypted ? decrypted?.url ?? null : streamUrl;
+  const imageUrl = isEncrypted ? decrypted?.url ?? null : file.fileLink;
+  
+  // Forget the decrypted copy when the modal closes or shows another file
+  useEffect(() => {
+    setPassphrase("");
+    setDecrypted(null);
+  }, [isOpen, file.id]);
+  
+  useEffect(() => {
+    return () => {
+      if (decrypted) window.URL.revokeObjectURL(decrypted.url);
+    };
+  }, [decrypted]);
+  
+  // Resolve an authenticated stream URL so the players can seek with Range requests
+  useEffect(() => {
+    if (!isOpen || !isMedia || isEncrypted) return;
+    
+    let cancelled = false;
+    getFileStreamUrl(file.id)
+      .then((url) => {
+        if (!cancelled) setStreamUrl(url);
+      })
+      .catch((error) => console.error('Stream URL error:', error));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, isMedia, isEncrypted, file.id]);
+  
+  // Decrypt an encrypted file with the passphrase it was uploaded with
+  const handleUnlock = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    
+    try {
+      setIsDecrypting(true);
+      const blob = await downloadDecryptedFile(file, passphrase, getMimeType());
+      setDecrypted({ blob, url: window.URL.createObjectURL(blob) });
+    } catch (error) {
+      console.error('Decrypt error:', error);
+      toast({
+        title: "Unlock Failed",
+        description: error instanceof Error ? error.message : "The file could not be decrypted.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+  
+  // MIME type for the decrypted preview
+  const getMimeType = (): string => {
+    if (['jpg', 'jpeg'].includes(ext)) return 'image/jpeg';
+    if (['png', 'gif', 'webp'].includes(ext)) return `image/${ext}`;
+    if (['mp4', 'webm'].includes(ext)) return `video/${ext}`;
+    if (ext === 'mp3') return 'audio/mpeg';
+    if (['wav', 'ogg'].includes(ext)) return `audio/${ext}`;
+    if (ext === 'pdf') return 'application/pdf';
+    return 'application/octet-stream';
+  };
   
   // Using the shared formatBytes utility function
   
@@ -30,8 +103,29 @@ export default function FilePreviewModal({ isOpen, onClose, file }: FilePreviewM
   
   // Determine file type and preview
   const getFilePreview = () => {
-    const fileName = file.fileName.toLowerCase();
-    const ext = fileName.split('.').pop() || '';
+    // Encrypted files stay locked until the passphrase is entered
+    if (isEncrypted && !decrypted) {
+      return (
+        <div className="bg-gray-100 rounded-lg h-64 flex items-center justify-center">
+          <form onSubmit={handleUnlock} className="text-center w-full max-w-xs px-4">
+            <Lock className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">This file is encrypted</h3>
+            <p className="mt-1 text-sm text-gray-500">Enter the passphrase it was uploaded with</p>
+            <Input
+              type="password"
+              className="mt-3"
+              placeholder="Passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+            <Button type="submit" className="mt-3 w-full" disabled={isDecrypting || !passphrase}>
+              {isDecrypting ? "Decrypting..." : "Unlock"}
+            </Button>
+          </form>
+        </div>
+      );
+    }
     
     // Default preview - file icon
     let icon = (
@@ -52,11 +146,11 @@ export default function FilePreviewModal({ isOpen, onClose, file }: FilePreviewM
     // Image preview
     else if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext)) {
       // If we have a file link, render the image
-      if (file.fileLink) {
+      if (imageUrl) {
         return (
           <div className="bg-gray-50 rounded-lg h-64 flex items-center justify-center overflow-hidden">
             <img 
-              src={file.fileLink} 
+              src={imageUrl} 
               alt={file.fileName} 
               className="max-h-full max-w-full object-contain"
             />
@@ -66,14 +160,14 @@ export default function FilePreviewModal({ isOpen, onClose, file }: FilePreviewM
     }
     // Video preview
     else if (['mp4', 'webm'].includes(ext)) {
-      if (file.fileLink) {
+      if (mediaUrl) {
         return (
           <div className="bg-gray-50 rounded-lg h-64 flex items-center justify-center overflow-hidden">
             <video 
               controls 
               className="max-h-full max-w-full"
             >
-              <source src={file.fileLink} type={`video/${ext}`} />
+              <source src={mediaUrl} type={`video/${ext}`} />
               Your browser does not support the video tag.
             </video>
           </div>
@@ -82,14 +176,14 @@ export default function FilePreviewModal({ isOpen, onClose, file }: FilePreviewM
     }
     // Audio preview
     else if (['mp3', 'wav', 'ogg'].includes(ext)) {
-      if (file.fileLink) {
+      if (mediaUrl) {
         return (
           <div className="bg-gray-50 rounded-lg h-64 flex flex-col items-center justify-center p-4">
             <svg className="h-16 w-16 text-purple-500 mb-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
             </svg>
             <audio controls className="w-full mt-2">
-              <source src={file.fileLink} type={`audio/${ext}`} />
+              <source src={mediaUrl} type={ext === 'mp3' ? 'audio/mpeg' : `audio/${ext}`} />
               Your browser does not support the audio element.
             </audio>
           </div>
@@ -113,7 +207,11 @@ export default function FilePreviewModal({ isOpen, onClose, file }: FilePreviewM
   const handleDownload = async () => {
     try {
       setIsDownloading(true);
-      const blob = await downloadFile(file.id);
+      // Encrypted files can only be saved once they have been unlocked
+      const blob = isEncrypted ? decrypted?.blob : await downloadFile(file.id);
+      if (!blob) {
+        throw new Error("Enter the passphrase to unlock this file first");
+      }
       
       // Create download link
       const url = window.URL.createObjectURL(blob);
@@ -168,7 +266,7 @@ export default function FilePreviewModal({ isOpen, onClose, file }: FilePreviewM
             </Button>
             <Button
               onClick={handleDownload}
-              disabled={isDownloading}
+              disabled={isDownloading || (isEncrypted && !decrypted)}
             >
               <Download className="mr-2 h-4 w-4" />
               Download
@@ -0,0 +1,100 @@
+import { useState, useEffect, FormEvent } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Folder } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { createFolder, renameFolder } from "@/lib/api";
+import { useQueryClient } from "@tanstack/react-query";
+
+interface FolderNameModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parentId: number | null;
+  folder?: Folder; // When set, the modal renames this folder instead of creating one
+}
+
+export default function FolderNameModal({ isOpen, onClose, parentId, folder }: FolderNameModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState<string>(folder?.name || "");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // Reset the field whenever the modal is reopened
+  useEffect(() => {
+    if (isOpen) {
+      setName(folder?.name || "");
+    }
+  }, [isOpen, folder]);
+
+  // Handle creating or renaming the folder
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      setIsSaving(true);
+
+      if (folder) {
+        await renameFolder(folder.id, name.trim());
+      } else {
+        await createFolder(name.trim(), parentId);
+      }
+
+      // Invalidate folder queries
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+
+      toast({
+        title: folder ? "Folder Renamed" : "Folder Created",
+        description: `"${name.trim()}" has been ${folder ? 'renamed' : 'created'}.`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Folder error:', error);
+      toast({
+        title: folder ? "Rename Failed" : "Create Failed",
+        description: `There was an error ${folder ? 'renaming' : 'creating'} the folder.`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{folder ? `Rename "${folder.name}"` : "New Folder"}</DialogTitle>
+            <DialogDescription>
+              {folder ? "Enter a new name for this folder." : "Create a folder to organize your files."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="mt-4 space-y-2">
+            <Label htmlFor="folder-name">Folder Name</Label>
+            <Input
+              id="folder-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Untitled folder"
+              autoFocus
+            />
+          </div>
+
+          <DialogFooter className="flex sm:justify-between mt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving ? "Saving..." : folder ? "Rename" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
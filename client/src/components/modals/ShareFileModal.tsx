@@ -1,13 +1,13 @@
 import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { FileWithShareInfo } from "@shared/schema";
+import { FileWithShareInfo, FilePermissionRole } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Clipboard } from "lucide-react";
-import { shareFile } from "@/lib/api";
+import { Clipboard, Lock } from "lucide-react";
+import { shareFile, updateSharePassword, getShareUrl, shareFileWithUser } from "@/lib/api";
 import { useQueryClient } from "@tanstack/react-query";
 
 interface ShareFileModalProps {
@@ -20,21 +20,69 @@ export default function ShareFileModal({ isOpen, onClose, file }: ShareFileModal
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
-  const [accessType, setAccessType] = useState<string>("anyone");
+  const [accessType, setAccessType] = useState<string>(file.shareInfo?.hasPassword ? "password" : "anyone");
   const [expiration, setExpiration] = useState<string>("7");
-  const [shareLink, setShareLink] = useState<string>(file.shareInfo?.shareLink || "");
+  const [downloadLimit, setDownloadLimit] = useState<string>(
+    file.shareInfo?.maxDownloads == null ? "unlimited" : file.shareInfo.maxDownloads === 1 ? "once" : String(file.shareInfo.maxDownloads)
+  );
+  const [downloads, setDownloads] = useState<{ count: number; max: number | null }>({
+    count: file.shareInfo?.downloadCount ?? 0,
+    max: file.shareInfo?.maxDownloads ?? null,
+  });
+  const [password, setPassword] = useState<string>("");
+  const [sharedId, setSharedId] = useState<number | null>(file.shareInfo?.id ?? null);
+  const [hasPassword, setHasPassword] = useState<boolean>(!!file.shareInfo?.hasPassword);
+  const [shareLink, setShareLink] = useState<string>(file.shareInfo?.shareLink ? getShareUrl(file.shareInfo.shareLink) : "");
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [isSavingPassword, setIsSavingPassword] = useState<boolean>(false);
   const [isLinkGenerated, setIsLinkGenerated] = useState<boolean>(!!file.shareInfo?.shareLink);
+  const [recipientEmail, setRecipientEmail] = useState<string>("");
+  const [recipientRole, setRecipientRole] = useState<FilePermissionRole>("viewer");
+  const [isSharingWithUser, setIsSharingWithUser] = useState<boolean>(false);
+
+  // Handle sharing with another user by email
+  const handleShareWithUser = async () => {
+    try {
+      setIsSharingWithUser(true);
+
+      const grant = await shareFileWithUser(file.id, recipientEmail.trim(), recipientRole);
+      setRecipientEmail("");
+
+      queryClient.invalidateQueries({ queryKey: ['/api/files/shared/outgoing'] });
+
+      toast({
+        title: "File Shared",
+        description: `${grant.user.displayName || grant.user.email} can now ${grant.role === "editor" ? "open and share" : "open"} this file.`,
+      });
+    } catch (error) {
+      console.error('Share with user error:', error);
+      toast({
+        title: "Failed to Share File",
+        description: error instanceof Error ? error.message : "There was an error sharing the file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSharingWithUser(false);
+    }
+  };
   
   // Handle generating share link
   const handleGenerateLink = async () => {
     try {
       setIsGenerating(true);
       
-      const expiryDays = expiration === "no-expiry" ? undefined : parseInt(expiration);
-      const result = await shareFile(file.id, expiryDays);
+      const result = await shareFile(file.id, {
+        expiryDays: expiration === "no-expiry" ? undefined : parseInt(expiration),
+        password: accessType === "password" ? password : undefined,
+        burnAfterDownload: downloadLimit === "once",
+        maxDownloads: downloadLimit === "unlimited" || downloadLimit === "once" ? undefined : parseInt(downloadLimit),
+      });
       
-      setShareLink(result.shareLink);
+      setShareLink(getShareUrl(result.shareLink));
+      setSharedId(result.id);
+      setHasPassword(result.hasPassword);
+      setDownloads({ count: result.downloadCount, max: result.maxDownloads });
+      setPassword("");
       setIsLinkGenerated(true);
       
       // Invalidate file queries
@@ -57,6 +105,39 @@ export default function ShareFileModal({ isOpen, onClose, file }: ShareFileModal
     }
   };
   
+  // Handle setting or removing the password of the generated link
+  const handleUpdatePassword = async (newPassword: string | null) => {
+    if (sharedId === null) return;
+
+    try {
+      setIsSavingPassword(true);
+
+      const result = await updateSharePassword(sharedId, newPassword);
+
+      setHasPassword(result.hasPassword);
+      setAccessType(result.hasPassword ? "password" : "anyone");
+      setPassword("");
+
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${file.id}`] });
+
+      toast({
+        title: result.hasPassword ? "Password Set" : "Password Removed",
+        description: result.hasPassword
+          ? "The link now asks for the password; anyone who opened it before must enter it again."
+          : "Anyone with the link can open it now.",
+      });
+    } catch (error) {
+      console.error('Share password error:', error);
+      toast({
+        title: "Failed to Update Link",
+        description: "There was an error changing the link's password.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
   // Handle copying link to clipboard
   const handleCopyLink = () => {
     navigator.clipboard.writeText(shareLink);
@@ -72,11 +153,41 @@ export default function ShareFileModal({ isOpen, onClose, file }: ShareFileModal
         <DialogHeader>
           <DialogTitle>Share "{file.fileName}"</DialogTitle>
           <DialogDescription>
-            Create a link to share this file with others.
+            Share this file with people who have an account, or create a link for anyone.
           </DialogDescription>
         </DialogHeader>
         
         <div className="mt-4 space-y-4">
+          <div className="space-y-2 pb-4 border-b border-gray-200">
+            <Label htmlFor="share-email">Share with people</Label>
+            <div className="flex gap-2">
+              <Input
+                id="share-email"
+                type="email"
+                value={recipientEmail}
+                onChange={(e) => setRecipientEmail(e.target.value)}
+                placeholder="Email address"
+                className="flex-1 min-w-0"
+              />
+              <Select value={recipientRole} onValueChange={(value) => setRecipientRole(value as FilePermissionRole)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                  <SelectItem value="editor">Editor</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={handleShareWithUser}
+                disabled={isSharingWithUser || !recipientEmail.includes("@")}
+              >
+                Share
+              </Button>
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="access-type">Access Type</Label>
             <Select 
@@ -89,10 +200,24 @@ export default function ShareFileModal({ isOpen, onClose, file }: ShareFileModal
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="anyone">Anyone with the link</SelectItem>
-                <SelectItem value="specific">Only specific people</SelectItem>
+                <SelectItem value="password">Anyone with the link and password</SelectItem>
               </SelectContent>
             </Select>
           </div>
+
+          {!isLinkGenerated && accessType === "password" && (
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password</Label>
+              <Input
+                id="share-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="At least 4 characters"
+                autoComplete="new-password"
+              />
+            </div>
+          )}
           
           <div className="space-y-2">
             <Label htmlFor="expiration">Link Expiration</Label>
@@ -112,6 +237,26 @@ export default function ShareFileModal({ isOpen, onClose, file }: ShareFileModal
               </SelectContent>
             </Select>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="download-limit">Download Limit</Label>
+            <Select
+              value={downloadLimit}
+              onValueChange={setDownloadLimit}
+              disabled={isLinkGenerated}
+            >
+              <SelectTrigger id="download-limit">
+                <SelectValue placeholder="Select download limit" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unlimited">No limit</SelectItem>
+                <SelectItem value="once">One download, then the link burns</SelectItem>
+                <SelectItem value="5">5 downloads</SelectItem>
+                <SelectItem value="10">10 downloads</SelectItem>
+                <SelectItem value="25">25 downloads</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
           
           {isLinkGenerated && (
             <div className="space-y-2">
@@ -131,6 +276,49 @@ export default function ShareFileModal({ isOpen, onClose, file }: ShareFileModal
                   <Clipboard className="h-4 w-4" />
                 </Button>
               </div>
+              {downloads.max !== null && (
+                <p className="text-xs text-gray-500">
+                  {downloads.max === 1
+                    ? "One-time link: it stops working after the first download."
+                    : `Downloaded ${downloads.count} of ${downloads.max} times.`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {isLinkGenerated && sharedId !== null && (
+            <div className="space-y-2">
+              <Label htmlFor="share-new-password" className="flex items-center gap-1">
+                <Lock className="h-3 w-3" />
+                {hasPassword ? "Password protected" : "Password (optional)"}
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="share-new-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder={hasPassword ? "New password" : "At least 4 characters"}
+                  autoComplete="new-password"
+                  className="flex-1 min-w-0"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => handleUpdatePassword(password)}
+                  disabled={isSavingPassword || password.length < 4}
+                >
+                  {hasPassword ? "Change" : "Set"}
+                </Button>
+                {hasPassword && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleUpdatePassword(null)}
+                    disabled={isSavingPassword}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -146,7 +334,7 @@ export default function ShareFileModal({ isOpen, onClose, file }: ShareFileModal
           {!isLinkGenerated && (
             <Button
               onClick={handleGenerateLink}
-              disabled={isGenerating}
+              disabled={isGenerating || (accessType === "password" && password.length < 4)}
             >
               {isGenerating ? "Generating..." : "Generate Link"}
             </Button>
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Folder } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clipboard, Lock, Trash2 } from "lucide-react";
+import { shareFolder, getFolderShareLinks, deleteSharedLink, getShareUrl } from "@/lib/api";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+interface ShareFolderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  folder: Folder;
+}
+
+// Share links to a folder open a read-only view of everything in it, with a ZIP download of the lot
+export default function ShareFolderModal({ isOpen, onClose, folder }: ShareFolderModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [expiration, setExpiration] = useState<string>("7");
+  const [downloadLimit, setDownloadLimit] = useState<string>("unlimited");
+  const [password, setPassword] = useState<string>("");
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+
+  const linksQueryKey = ['/api/folders', folder.id, 'shared'];
+  const { data: links = [], isLoading } = useQuery({
+    queryKey: linksQueryKey,
+    queryFn: () => getFolderShareLinks(folder.id),
+  });
+
+  // Handle generating share link
+  const handleGenerateLink = async () => {
+    try {
+      setIsGenerating(true);
+
+      await shareFolder(folder.id, {
+        expiryDays: expiration === "no-expiry" ? undefined : parseInt(expiration),
+        password: password || undefined,
+        burnAfterDownload: downloadLimit === "once",
+        maxDownloads: downloadLimit === "unlimited" || downloadLimit === "once" ? undefined : parseInt(downloadLimit),
+      });
+      setPassword("");
+
+      queryClient.invalidateQueries({ queryKey: linksQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/shared/outgoing'] });
+
+      toast({
+        title: "Share Link Generated",
+        description: "Anyone with the link can browse and download the folder.",
+      });
+    } catch (error) {
+      console.error('Share folder error:', error);
+      toast({
+        title: "Failed to Generate Link",
+        description: "There was an error creating the share link.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDeleteLink = async (sharedId: number) => {
+    try {
+      await deleteSharedLink(sharedId);
+      queryClient.invalidateQueries({ queryKey: linksQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/shared/outgoing'] });
+    } catch (error) {
+      console.error('Delete link error:', error);
+      toast({
+        title: "Failed to Delete Link",
+        description: "There was an error deleting the share link.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Handle copying link to clipboard
+  const handleCopyLink = (shareLink: string) => {
+    navigator.clipboard.writeText(getShareUrl(shareLink));
+    toast({
+      title: "Link Copied",
+      description: "The share link has been copied to your clipboard.",
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share "{folder.name}"</DialogTitle>
+          <DialogDescription>
+            Create a link to a read-only view of this folder and everything in it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="mt-4 space-y-4">
+          {!isLoading && links.length > 0 && (
+            <div className="space-y-2 pb-4 border-b border-gray-200">
+              <Label>Active Links</Label>
+              {links.map((link) => (
+                <div key={link.id} className="flex items-center gap-2">
+                  {link.hasPassword && <Lock className="h-3 w-3 text-gray-400 flex-shrink-0" />}
+                  <code className="flex-1 min-w-0 text-xs truncate bg-gray-50 p-2 rounded">{getShareUrl(link.shareLink)}</code>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleCopyLink(link.shareLink)}>
+                    <Clipboard className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDeleteLink(link.id)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="folder-expiration">Link Expiration</Label>
+            <Select value={expiration} onValueChange={setExpiration}>
+              <SelectTrigger id="folder-expiration">
+                <SelectValue placeholder="Select expiration" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 day</SelectItem>
+                <SelectItem value="7">7 days</SelectItem>
+                <SelectItem value="30">30 days</SelectItem>
+                <SelectItem value="no-expiry">No expiration</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="folder-download-limit">Download Limit</Label>
+            <Select value={downloadLimit} onValueChange={setDownloadLimit}>
+              <SelectTrigger id="folder-download-limit">
+                <SelectValue placeholder="Select download limit" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unlimited">No limit</SelectItem>
+                <SelectItem value="once">One download, then the link burns</SelectItem>
+                <SelectItem value="5">5 downloads</SelectItem>
+                <SelectItem value="10">10 downloads</SelectItem>
+                <SelectItem value="25">25 downloads</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">Each file downloaded and each ZIP of the folder counts as one.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="folder-password">Password (optional)</Label>
+            <Input
+              id="folder-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="At least 4 characters"
+              autoComplete="new-password"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex sm:justify-between mt-4">
+          <Button variant="outline" onClick={onClose}>
+            Done
+          </Button>
+          <Button
+            onClick={handleGenerateLink}
+            disabled={isGenerating || (password.length > 0 && password.length < 4)}
+          >
+            {isGenerating ? "Generating..." : "Generate Link"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
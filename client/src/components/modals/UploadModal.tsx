@@ -1,65 +1,78 @@
 import { useState, useRef, ChangeEvent } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { uploadFile, saveTempFile } from "@/lib/api"; // Import saveTempFile
+import { uploadFileResumable, hasResumableUpload, getPendingUploads, discardUpload, type UploadStage } from "@/lib/api";
 import { formatBytes } from "@/lib/utils";
 import UploadProgressModal from "./UploadProgressModal";
-import { File, FileText, X } from "lucide-react";
+import { File, FileText, RotateCcw, X } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 
 interface UploadModalProps {
   isOpen: boolean;
   onClose: () => void;
   onFileUploaded?: () => void;
+  folderId?: number | null; // Folder the files are uploaded into (root when null)
 }
 
 interface SelectedFile {
   file: File;
   id: string;
-  tempPath?: string; // Add tempPath
+  resumable: boolean; // An earlier upload of this file can be picked up
 }
 
 interface UploadingFile {
   file: File;
   id: string;
   progress: number;
-  status: "pending" | "uploading" | "completed" | "error";
+  status: "pending" | "uploading" | "completed" | "error" | "cancelled";
+  stage?: UploadStage; // Sending to the server, then storing
   error?: string;
-  tempPath?: string; // Add tempPath
 }
 
-export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadModalProps) {
+export default function UploadModal({ isOpen, onClose, onFileUploaded, folderId = null }: UploadModalProps) {
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // One per file in the current batch, so each upload can be cancelled on its own
+  const uploadControllersRef = useRef<Map<string, AbortController>>(new Map());
   const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [showProgress, setShowProgress] = useState(false);
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
 
-  // Save file temporarily on the server
-  const saveFileTemporarily = async (file: File): Promise<SelectedFile | null> => {
+  // Unfinished uploads from an earlier visit; selecting the same file again resumes them
+  const { data: pendingUploads = [] } = useQuery({
+    queryKey: ['/api/uploads'],
+    queryFn: getPendingUploads,
+    enabled: isOpen,
+  });
+
+  // Discard an unfinished upload
+  const handleDiscardUpload = async (sessionId: string) => {
     try {
-      const response = await saveTempFile(file); // Call the new API function
-      return {
-        file,
-        id: `${file.name}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        tempPath: response.tempPath, // Store the temporary path
-      };
+      await discardUpload(sessionId);
+      queryClient.invalidateQueries({ queryKey: ['/api/uploads'] });
     } catch (error) {
-      console.error("Error saving file temporarily:", error);
+      console.error("Discard upload error:", error);
       toast({
         title: "Error",
-        description: `Failed to save file ${file.name} temporarily.`,
+        description: "Failed to discard the upload.",
         variant: "destructive",
       });
-      return null;
     }
   };
 
   // Handle file selection
-  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files?.length) return;
     
     const filesToProcess = Array.from(e.target.files);
@@ -78,10 +91,11 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
         continue; // Skip this file
       }
 
-      const tempFile = await saveFileTemporarily(file);
-      if (tempFile) {
-        processedFiles.push(tempFile);
-      }
+      processedFiles.push({
+        file,
+        id: `${file.name}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        resumable: hasResumableUpload(file, folderId),
+      });
     }
     
     setSelectedFiles((prev) => [...prev, ...processedFiles]);
@@ -103,7 +117,7 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
     e.stopPropagation();
   };
 
-  const handleDrop = async (e: React.DragEvent) => {
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     
@@ -125,10 +139,11 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
         continue; // Skip this file
       }
 
-      const tempFile = await saveFileTemporarily(file);
-      if (tempFile) {
-        processedFiles.push(tempFile);
-      }
+      processedFiles.push({
+        file,
+        id: `${file.name}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        resumable: hasResumableUpload(file, folderId),
+      });
     }
     
     setSelectedFiles((prev) => [...prev, ...processedFiles]);
@@ -145,6 +160,17 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
       return;
     }
     
+    // The passphrase can't be recovered later, so make sure it was typed as intended
+    if (encrypt && (!passphrase || passphrase !== confirmPassphrase)) {
+      toast({
+        title: "Check Your Passphrase",
+        description: "Enter the same passphrase twice to encrypt your files.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const uploadPassphrase = encrypt ? passphrase : undefined;
+    
     // Initialize uploading files
     const filesToUpload: UploadingFile[] = selectedFiles.map((sf) => ({
       ...sf,
@@ -152,6 +178,7 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
       status: "pending",
     }));
     
+    uploadControllersRef.current = new Map(filesToUpload.map((f) => [f.id, new AbortController()]));
     setUploadingFiles(filesToUpload);
     setIsUploading(true);
     setShowProgress(true);
@@ -159,6 +186,11 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
     
     // Process uploads sequentially
     for (const file of filesToUpload) {
+      const controller = uploadControllersRef.current.get(file.id)!;
+      
+      // Cancelled while it was waiting its turn
+      if (controller.signal.aborted) continue;
+      
       try {
         // Update file status to uploading
         setUploadingFiles((prev) =>
@@ -167,14 +199,15 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
           )
         );
         
-        // Upload the file using the temporary path
-        await uploadFile(file.file, (progress) => { // Modify uploadFile to accept tempPath
+        // Upload the file in resumable parts, continuing an earlier attempt if there is one,
+        // and follow it until the server has stored it
+        await uploadFileResumable(file.file, (progress, stage) => {
           setUploadingFiles((prev) =>
             prev.map((f) =>
-              f.id === file.id ? { ...f, progress } : f
+              f.id === file.id ? { ...f, progress, stage } : f
             )
           );
-        }, file.tempPath); // Pass tempPath to uploadFile
+        }, folderId, uploadPassphrase, controller.signal);
         
         // Mark as completed
         setUploadingFiles((prev) =>
@@ -188,6 +221,15 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
         }
         
       } catch (error) {
+        if (controller.signal.aborted) {
+          setUploadingFiles((prev) =>
+            prev.map((f) =>
+              f.id === file.id ? { ...f, status: "cancelled" } : f
+            )
+          );
+          continue;
+        }
+        
         console.error("Upload error:", error);
         
         // Mark as error
@@ -207,6 +249,20 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
     
     setIsUploading(false);
     setSelectedFiles([]);
+    setPassphrase("");
+    setConfirmPassphrase("");
+    queryClient.invalidateQueries({ queryKey: ['/api/uploads'] });
+  };
+
+  // Cancel one file's upload; one that hasn't started is marked straight away, a running one
+  // once the server has let go of it
+  const handleCancelUpload = (id: string) => {
+    uploadControllersRef.current.get(id)?.abort();
+    setUploadingFiles((prev) =>
+      prev.map((f) =>
+        f.id === id && f.status === "pending" ? { ...f, status: "cancelled" } : f
+      )
+    );
   };
 
   // Handle upload completion
@@ -259,6 +315,9 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
                       <div className="flex items-center overflow-hidden">
                         <FileText className="h-5 w-5 text-blue-500 mr-2 flex-shrink-0" />
                         <span className="text-sm text-gray-900 truncate">{file.file.name}</span>
+                        {file.resumable && (
+                          <span className="ml-2 text-xs text-blue-600 flex-shrink-0">Resumes</span>
+                        )}
                       </div>
                       <div className="flex items-center">
                         <span className="text-xs text-gray-500 mr-2">{formatBytes(file.file.size)}</span>
@@ -277,6 +336,64 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
               </div>
             )}
 
+            {pendingUploads.length > 0 && (
+              <div className="mt-4">
+                <h4 className="text-sm font-medium text-gray-900">Interrupted Uploads</h4>
+                <p className="text-xs text-gray-500">Select the same file again to continue where it left off.</p>
+                <ul className="mt-2 divide-y divide-gray-200 max-h-40 overflow-y-auto">
+                  {pendingUploads.map((upload) => (
+                    <li key={upload.id} className="py-3 flex items-center justify-between">
+                      <div className="flex items-center overflow-hidden">
+                        <RotateCcw className="h-5 w-5 text-gray-400 mr-2 flex-shrink-0" />
+                        <span className="text-sm text-gray-900 truncate">{upload.fileName}</span>
+                      </div>
+                      <div className="flex items-center">
+                        <span className="text-xs text-gray-500 mr-2">
+                          {formatBytes(upload.uploadOffset)} of {formatBytes(upload.fileSize)}
+                        </span>
+                        <Button 
+                          variant="ghost" 
+                          size="icon" 
+                          className="h-6 w-6 text-gray-400 hover:text-gray-600"
+                          onClick={() => handleDiscardUpload(upload.id)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="mt-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="encrypt-files">Encrypt before uploading</Label>
+                  <p className="text-xs text-gray-500">Files are encrypted in your browser. Without the passphrase they can't be opened.</p>
+                </div>
+                <Switch id="encrypt-files" checked={encrypt} onCheckedChange={setEncrypt} />
+              </div>
+              {encrypt && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="password"
+                    placeholder="Passphrase"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    autoComplete="new-password"
+                  />
+                  <Input
+                    type="password"
+                    placeholder="Confirm passphrase"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    autoComplete="new-password"
+                  />
+                </div>
+              )}
+            </div>
+
             <DialogFooter className="mt-4">
               <Button
                 type="button"
@@ -301,6 +418,7 @@ export default function UploadModal({ isOpen, onClose, onFileUploaded }: UploadM
       <UploadProgressModal
         isOpen={showProgress}
         onClose={handleUploadComplete}
+        onCancel={handleCancelUpload}
         uploads={uploadingFiles}
       />
     </>
@@ -1,27 +1,30 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle, AlertCircle, Cloud } from "lucide-react";
+import { CheckCircle, AlertCircle, Cloud, X, XCircle } from "lucide-react";
 import { formatBytes } from "@/lib/utils";
+import { type UploadStage } from "@/lib/api";
 
 interface UploadingFile {
   file: File;
   id: string;
   progress: number;
-  status: "pending" | "uploading" | "completed" | "error";
+  status: "pending" | "uploading" | "completed" | "error" | "cancelled";
+  stage?: UploadStage; // Sending to the server, then storing
   error?: string;
 }
 
 interface UploadProgressModalProps {
   isOpen: boolean;
   onClose: () => void;
+  onCancel?: (id: string) => void; // Cancel one file's upload
   uploads: UploadingFile[];
 }
 
-export default function UploadProgressModal({ isOpen, onClose, uploads }: UploadProgressModalProps) {
-  // Check if all uploads are completed or errored
+export default function UploadProgressModal({ isOpen, onClose, onCancel, uploads }: UploadProgressModalProps) {
+  // Check if all uploads are completed, errored or cancelled
   const allFinished = uploads.length > 0 && uploads.every(file => 
-    file.status === "completed" || file.status === "error"
+    file.status === "completed" || file.status === "error" || file.status === "cancelled"
   );
 
   // Count successful uploads
@@ -30,6 +33,9 @@ export default function UploadProgressModal({ isOpen, onClose, uploads }: Upload
   // Count failed uploads
   const failedCount = uploads.filter(file => file.status === "error").length;
   
+  // Count cancelled uploads
+  const cancelledCount = uploads.filter(file => file.status === "cancelled").length;
+  
   // Calculate overall progress
   const overallProgress = uploads.length === 0 
     ? 0 
@@ -37,10 +43,12 @@ export default function UploadProgressModal({ isOpen, onClose, uploads }: Upload
   
   // Format the file size using our utility function
   
-  // Calculate the uploaded and total size for a file
+  // Calculate the bytes moved in the current stage and the total size for a file
+  // Sending and storing each make up half of the progress
   const getFileProgress = (file: UploadingFile) => {
     const totalSize = file.file.size;
-    const uploadedSize = (file.progress / 100) * totalSize;
+    const stageProgress = file.stage === "storing" ? file.progress - 50 : file.progress;
+    const uploadedSize = Math.min(Math.max(stageProgress / 50, 0), 1) * totalSize;
     
     return {
       uploaded: formatBytes(uploadedSize),
@@ -84,7 +92,9 @@ export default function UploadProgressModal({ isOpen, onClose, uploads }: Upload
             <p className="text-center text-sm text-gray-500">
               {successCount === uploads.length
                 ? `All ${successCount} ${successCount === 1 ? 'file has' : 'files have'} been uploaded successfully.`
-                : `${successCount} of ${uploads.length} files uploaded successfully. ${failedCount} ${failedCount === 1 ? 'file' : 'files'} failed.`}
+                : `${successCount} of ${uploads.length} files uploaded successfully.` +
+                  (failedCount > 0 ? ` ${failedCount} ${failedCount === 1 ? 'file' : 'files'} failed.` : '') +
+                  (cancelledCount > 0 ? ` ${cancelledCount} cancelled.` : '')}
             </p>
           )}
         </DialogHeader>
@@ -123,26 +133,45 @@ export default function UploadProgressModal({ isOpen, onClose, uploads }: Upload
                       <CheckCircle className="h-5 w-5 text-green-500 mr-2 flex-shrink-0" />
                     ) : file.status === "error" ? (
                       <AlertCircle className="h-5 w-5 text-red-500 mr-2 flex-shrink-0" />
+                    ) : file.status === "cancelled" ? (
+                      <XCircle className="h-5 w-5 text-gray-400 mr-2 flex-shrink-0" />
                     ) : (
                       <div className="h-5 w-5 mr-2 flex-shrink-0" />
                     )}
                     <span className="text-sm text-gray-900 truncate max-w-xs">{file.file.name}</span>
                   </div>
-                  <span 
-                    className={`text-xs font-medium ${
-                      file.status === "completed" 
-                        ? "text-green-600" 
+                  <div className="flex items-center flex-shrink-0">
+                    <span 
+                      className={`text-xs font-medium ${
+                        file.status === "completed" 
+                          ? "text-green-600" 
+                          : file.status === "error" 
+                          ? "text-red-600" 
+                          : file.status === "cancelled" 
+                          ? "text-gray-500" 
+                          : "text-blue-600"
+                      }`}
+                    >
+                      {file.status === "completed" 
+                        ? "Completed" 
                         : file.status === "error" 
-                        ? "text-red-600" 
-                        : "text-blue-600"
-                    }`}
-                  >
-                    {file.status === "completed" 
-                      ? "Completed" 
-                      : file.status === "error" 
-                      ? "Failed" 
-                      : `${Math.round(file.progress)}%`}
-                  </span>
+                        ? "Failed" 
+                        : file.status === "cancelled" 
+                        ? "Cancelled" 
+                        : `${Math.round(file.progress)}%`}
+                    </span>
+                    {onCancel && (file.status === "pending" || file.status === "uploading") && (
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="h-6 w-6 ml-1 text-gray-400 hover:text-gray-600"
+                        onClick={() => onCancel(file.id)}
+                        aria-label={`Cancel upload of ${file.file.name}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2">
                   <div 
@@ -151,6 +180,8 @@ export default function UploadProgressModal({ isOpen, onClose, uploads }: Upload
                         ? "bg-green-500" 
                         : file.status === "error" 
                         ? "bg-red-500" 
+                        : file.status === "cancelled" 
+                        ? "bg-gray-400" 
                         : "bg-primary"
                     }`} 
                     style={{ width: `${file.progress}%` }}
@@ -162,7 +193,9 @@ export default function UploadProgressModal({ isOpen, onClose, uploads }: Upload
                       ? total 
                       : file.status === "error" 
                       ? file.error || "Upload failed" 
-                      : `${uploaded} / ${total}`}
+                      : file.status === "cancelled" 
+                      ? "Nothing was stored" 
+                      : `${file.stage === "storing" ? "Storing" : "Sending"} ${uploaded} / ${total}`}
                   </span>
                   {file.status === "uploading" && timeEstimate && (
                     <span className="text-xs text-gray-500">{timeEstimate}</span>
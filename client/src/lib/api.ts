@@ -1,6 +1,7 @@
 import { getIdToken } from "./firebase";
+import { createFileKey, unlockFileKey, encryptBlob, decryptBlob } from "./crypto";
 import { apiRequest } from "./queryClient";
-import { type User, type File as FileSchema, type UserWithStorage, type FileWithShareInfo } from "@shared/schema";
+import { type User, type File as FileSchema, type UserWithStorage, type FileWithShareInfo, type Folder, type FolderContents, type UploadSession, type UploadJob, type FileEncryption, type SharedFileInfo, type ShareLinkInfo, type FilePermissionRole, type FileGrant, type IncomingSharedFile, type OutgoingSharedItems } from "@shared/schema";
 
 // Authentication API
 export const loginUser = async (idToken: string) => {
@@ -31,6 +32,57 @@ export const getCurrentUser = async (): Promise<UserWithStorage> => {
   return response.json();
 };
 
+export const updateUserSettings = async (settings: { trashRetentionDays?: number; telegramChannelId?: string | null }): Promise<UserWithStorage> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch("/api/auth/settings", {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(settings),
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "Failed to update settings");
+  }
+  
+  return response.json();
+};
+
+// A code to post in a Telegram channel, proving it is the user's before it becomes their storage channel
+export interface ChannelVerification {
+  channelId: string;
+  code: string;
+  expiresAt: string;
+}
+
+export const startChannelVerification = async (telegramChannelId: string): Promise<ChannelVerification> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+
+  const response = await fetch("/api/auth/settings/channel-verification", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ telegramChannelId }),
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "Failed to start channel verification");
+  }
+
+  return response.json();
+};
+
 // Files API
 export const getUserFiles = async (): Promise<FileSchema[]> => {
   const token = await getIdToken();
@@ -89,6 +141,42 @@ export const getFilesByType = async (type: string): Promise<FileSchema[]> => {
   return response.json();
 };
 
+export const getTrashedFiles = async (): Promise<FileSchema[]> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch("/api/files/trash", {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to fetch trashed files");
+  }
+  
+  return response.json();
+};
+
+export const getStarredFiles = async (): Promise<FileSchema[]> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch("/api/files/starred", {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to fetch starred files");
+  }
+  
+  return response.json();
+};
+
 export const getFileDetails = async (fileId: number): Promise<FileWithShareInfo> => {
   const token = await getIdToken();
   if (!token) throw new Error("No auth token available");
@@ -107,8 +195,8 @@ export const getFileDetails = async (fileId: number): Promise<FileWithShareInfo>
   return response.json();
 };
 
-// Save file temporarily
-export const saveTempFile = async (file: globalThis.File): Promise<{ tempPath: string }> => {
+// Save file temporarily; the token lets a later uploadFile call use it until it expires
+export const saveTempFile = async (file: globalThis.File): Promise<{ tempToken: string; expiresAt: string }> => {
   const token = await getIdToken();
   if (!token) throw new Error("No auth token available");
 
@@ -131,14 +219,18 @@ export const saveTempFile = async (file: globalThis.File): Promise<{ tempPath: s
 };
 
 
-export const uploadFile = async (file: globalThis.File, onProgress?: (progress: number) => void, tempPath?: string): Promise<FileWithShareInfo> => {
+export const uploadFile = async (file: globalThis.File, onProgress?: UploadProgressCallback, tempToken?: string, folderId?: number | null, signal?: AbortSignal): Promise<UploadJob> => {
   const token = await getIdToken();
   if (!token) throw new Error("No auth token available");
   
   const formData = new FormData();
-  formData.append("file", file);
-  if (tempPath) {
-    formData.append("tempPath", tempPath); // Include tempPath if provided
+  if (tempToken) {
+    formData.append("tempToken", tempToken); // The server already has the file from saveTempFile
+  } else {
+    formData.append("file", file);
+  }
+  if (folderId != null) {
+    formData.append("folderId", String(folderId));
   }
   
   const xhr = new XMLHttpRequest();
@@ -149,14 +241,15 @@ export const uploadFile = async (file: globalThis.File, onProgress?: (progress:
     
     xhr.upload.onprogress = (event) => {
       if (event.lengthComputable && onProgress) {
-        const percentComplete = (event.loaded / event.total) * 100;
-        onProgress(percentComplete);
+        onProgress(getUploadProgress(event.loaded / event.total, 0), "sending");
       }
     };
     
     xhr.onload = () => {
       if (xhr.status >= 200 && xhr.status < 300) {
-        resolve(JSON.parse(xhr.responseText));
+        // The server has the bytes; follow the job while it stores them
+        const job: UploadJob = JSON.parse(xhr.responseText);
+        waitForUploadJob(job.id, (stored) => onProgress?.(getUploadProgress(1, stored), "storing"), signal).then(resolve, reject);
       } else {
         reject(new Error(`Upload failed: ${xhr.status} ${xhr.statusText}`));
       }
@@ -166,10 +259,437 @@ export const uploadFile = async (file: globalThis.File, onProgress?: (progress:
       reject(new Error("Network error during upload"));
     };
     
+    xhr.onabort = () => {
+      reject(uploadCancelled());
+    };
+    
+    if (signal?.aborted) {
+      reject(uploadCancelled());
+      return;
+    }
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    
     xhr.send(formData);
   });
 };
 
+// Upload progress
+// An upload is two transfers of the same bytes: browser to server, then server to storage.
+// Each counts for half of the progress, so the bar only fills up once the file is really stored
+
+export type UploadStage = "sending" | "storing";
+export type UploadProgressCallback = (progress: number, stage: UploadStage) => void;
+
+// Overall progress (0-100) from the fraction sent to the server and the fraction stored
+const getUploadProgress = (sent: number, stored: number) => ((sent + stored) / 2) * 100;
+
+// What an upload rejects with when it was called off through its AbortSignal
+const uploadCancelled = () => new Error("Upload cancelled");
+
+// Upload jobs
+// After the server has the bytes, an upload job stores them; its progress is pushed over a WebSocket
+
+// How often a job is polled while the WebSocket is down
+const JOB_POLL_INTERVAL = 5000;
+
+type UploadJobListener = (job: UploadJob) => void;
+
+const uploadJobListeners = new Set<UploadJobListener>();
+let uploadJobSocket: WebSocket | null = null;
+
+// Open the job WebSocket if anyone is listening; reconnects are left to the poll in waitForUploadJob
+const connectUploadJobSocket = async () => {
+  if (uploadJobSocket || uploadJobListeners.size === 0) return;
+  
+  const token = await getIdToken();
+  if (!token || uploadJobSocket || uploadJobListeners.size === 0) return;
+  
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const socket = new WebSocket(`${protocol}//${window.location.host}/api/ws?token=${encodeURIComponent(token)}`);
+  uploadJobSocket = socket;
+  
+  socket.onmessage = (event) => {
+    const message = JSON.parse(event.data);
+    if (message.type === "upload-job") {
+      uploadJobListeners.forEach((listener) => listener(message.job));
+    }
+  };
+  socket.onclose = () => {
+    if (uploadJobSocket === socket) {
+      uploadJobSocket = null;
+    }
+  };
+};
+
+// Listen to the user's upload jobs; returns a function that stops listening
+export const subscribeToUploadJobs = (listener: UploadJobListener): (() => void) => {
+  uploadJobListeners.add(listener);
+  connectUploadJobSocket().catch((error) => console.error("Upload job socket error:", error));
+  
+  return () => {
+    uploadJobListeners.delete(listener);
+    if (uploadJobListeners.size === 0) {
+      uploadJobSocket?.close();
+      uploadJobSocket = null;
+    }
+  };
+};
+
+export const getUploadJob = async (jobId: string): Promise<UploadJob> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch(`/api/jobs/${jobId}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to fetch upload job");
+  }
+  
+  return response.json();
+};
+
+// Cancel an upload job; a running job stops shortly after and reports itself cancelled
+export const cancelUploadJob = async (jobId: string): Promise<UploadJob> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch(`/api/jobs/${jobId}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "Failed to cancel upload job");
+  }
+  
+  return response.json();
+};
+
+// Wait for an upload job to be stored, reporting the fraction stored so far
+// Rejects with the server's reason when the job fails. Aborting the signal cancels the job, which
+// still resolves if the file was stored before the cancellation got there
+export const waitForUploadJob = (jobId: string, onProgress?: (stored: number) => void, signal?: AbortSignal): Promise<UploadJob> => {
+  return new Promise((resolve, reject) => {
+    let finished = false;
+    let unsubscribe = () => {};
+    let timer: ReturnType<typeof setInterval> | undefined;
+    
+    const finish = () => {
+      finished = true;
+      clearInterval(timer);
+      unsubscribe();
+    };
+    
+    const handleJob = (job: UploadJob) => {
+      if (finished || job.id !== jobId) return;
+      
+      if (job.status === "done") {
+        finish();
+        resolve(job);
+      } else if (job.status === "failed") {
+        finish();
+        reject(new Error(job.error || "Storing the file failed"));
+      } else if (job.status === "cancelled") {
+        finish();
+        reject(uploadCancelled());
+      } else {
+        onProgress?.(job.fileSize > 0 ? job.bytesStored / job.fileSize : 0);
+      }
+    };
+    
+    // Catch up on anything missed before the socket was open, and keep checking while it is down
+    const poll = () => {
+      getUploadJob(jobId).then(handleJob).catch((error) => console.error("Upload job poll error:", error));
+    };
+    
+    unsubscribe = subscribeToUploadJobs(handleJob);
+    timer = setInterval(() => {
+      if (uploadJobSocket?.readyState === WebSocket.OPEN) return;
+      connectUploadJobSocket().catch(() => undefined);
+      poll();
+    }, JOB_POLL_INTERVAL);
+    poll();
+    
+    // The job's own update says how the cancellation ended
+    const cancel = () => {
+      cancelUploadJob(jobId).then(handleJob).catch((error) => {
+        if (finished) return;
+        finish();
+        reject(error);
+      });
+    };
+    if (signal?.aborted) {
+      cancel();
+    } else {
+      signal?.addEventListener("abort", cancel, { once: true });
+    }
+  });
+};
+
+// Resumable uploads
+// Bytes are sent in parts; after a failure (or a page reload) the upload continues from the server's offset
+const UPLOAD_PART_SIZE = 8 * 1024 * 1024; // 8MB
+const UPLOAD_MAX_RETRIES = 5;
+
+// The same file going to the same folder maps to the same session across reloads
+const getUploadStorageKey = (file: globalThis.File, folderId: number | null) =>
+  `telestore-upload:${file.name}:${file.size}:${file.lastModified}:${folderId ?? "root"}`;
+
+// What is remembered about an unfinished upload; encrypted uploads must resume with the same key
+interface SavedUpload {
+  sessionId: string;
+  encryption: FileEncryption | null;
+}
+
+const readSavedUpload = (storageKey: string): SavedUpload | null => {
+  const value = localStorage.getItem(storageKey);
+  if (!value) return null;
+  
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+export const hasResumableUpload = (file: globalThis.File, folderId: number | null = null): boolean => {
+  return readSavedUpload(getUploadStorageKey(file, folderId)) !== null;
+};
+
+export const getPendingUploads = async (): Promise<UploadSession[]> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch("/api/uploads", {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to fetch pending uploads");
+  }
+  
+  return response.json();
+};
+
+export const discardUpload = async (sessionId: string): Promise<void> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch(`/api/uploads/${sessionId}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok && response.status !== 404) {
+    throw new Error("Failed to discard upload");
+  }
+
+  // Forget any file that was mapped to this session
+  for (let i = localStorage.length - 1; i >= 0; i--) {
+    const key = localStorage.key(i);
+    if (key?.startsWith("telestore-upload:") && readSavedUpload(key)?.sessionId === sessionId) {
+      localStorage.removeItem(key);
+    }
+  }
+};
+
+// Returns the number of bytes the server has, or null when the session is gone
+const getUploadOffset = async (sessionId: string, token: string): Promise<number | null> => {
+  const response = await fetch(`/api/uploads/${sessionId}`, {
+    method: "HEAD",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    return null;
+  }
+  
+  return Number(response.headers.get("Upload-Offset"));
+};
+
+// Send one part; resolves with the server's offset afterwards
+const sendUploadPart = (sessionId: string, token: string, part: Blob, offset: number, onProgress: (loaded: number) => void, signal?: AbortSignal): Promise<number> => {
+  const xhr = new XMLHttpRequest();
+  
+  return new Promise((resolve, reject) => {
+    xhr.open("PATCH", `/api/uploads/${sessionId}`);
+    xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+    xhr.setRequestHeader("Upload-Offset", String(offset));
+    
+    xhr.upload.onprogress = (event) => {
+      onProgress(event.loaded);
+    };
+    
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(Number(xhr.getResponseHeader("Upload-Offset")));
+      } else {
+        reject(new Error(`Upload failed: ${xhr.status} ${xhr.statusText}`));
+      }
+    };
+    
+    xhr.onerror = () => {
+      reject(new Error("Network error during upload"));
+    };
+    
+    xhr.onabort = () => {
+      reject(uploadCancelled());
+    };
+    
+    if (signal?.aborted) {
+      reject(uploadCancelled());
+      return;
+    }
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    
+    xhr.send(part);
+  });
+};
+
+// Drop the session of a cancelled upload; the server refuses while the aborted part is still
+// winding down, so try again briefly before leaving it to expire
+const discardCancelledUpload = async (sessionId: string) => {
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    try {
+      await discardUpload(sessionId);
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 500 * attempt));
+    }
+  }
+};
+
+// With a passphrase the file is encrypted in the browser and only ciphertext is uploaded
+// Resolves once the server has stored the file, not just received it. Aborting the signal stops
+// the upload wherever it is and leaves nothing behind on the server
+export const uploadFileResumable = async (file: globalThis.File, onProgress?: UploadProgressCallback, folderId: number | null = null, passphrase?: string, signal?: AbortSignal): Promise<UploadJob> => {
+  let token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const storageKey = getUploadStorageKey(file, folderId);
+  const saved = readSavedUpload(storageKey);
+  let sessionId = saved?.sessionId ?? null;
+  let offset = sessionId ? await getUploadOffset(sessionId, token) : null;
+  
+  let body: Blob = file;
+  let encryption: FileEncryption | null = null;
+  if (passphrase) {
+    // Re-encrypting with the earlier key reproduces the bytes the server already has
+    let key = offset !== null && saved?.encryption
+      ? await unlockFileKey(saved.encryption, passphrase).catch(() => null)
+      : null;
+    if (key && saved?.encryption) {
+      encryption = saved.encryption;
+    } else {
+      ({ key, encryption } = await createFileKey(passphrase));
+      offset = null;
+    }
+    body = await encryptBlob(file, key, encryption);
+  } else if (saved?.encryption) {
+    // The earlier attempt was encrypted and this one isn't, so its bytes are no use
+    offset = null;
+  }
+  
+  // Start a new session unless an earlier one can be picked up
+  if (sessionId === null || offset === null) {
+    if (sessionId !== null) {
+      await discardUpload(sessionId).catch(() => undefined);
+    }
+    
+    const response = await fetch("/api/uploads", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ fileName: file.name, fileSize: body.size, mimeType: file.type || null, folderId, encryption }),
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || `Upload failed: ${response.status} ${response.statusText}`);
+    }
+    
+    const session: UploadSession = await response.json();
+    sessionId = session.id;
+    offset = session.uploadOffset;
+    localStorage.setItem(storageKey, JSON.stringify({ sessionId, encryption }));
+  }
+  
+  let retries = 0;
+  while (offset < body.size) {
+    const start: number = offset;
+    try {
+      offset = await sendUploadPart(sessionId, token, body.slice(start, start + UPLOAD_PART_SIZE), start, (loaded) => {
+        onProgress?.(getUploadProgress((start + loaded) / body.size, 0), "sending");
+      }, signal);
+      retries = 0;
+    } catch (error) {
+      if (signal?.aborted) {
+        await discardCancelledUpload(sessionId);
+        throw uploadCancelled();
+      }
+      if (++retries > UPLOAD_MAX_RETRIES) {
+        throw error;
+      }
+      
+      // Back off, then ask the server how much it kept (this also recovers from an offset mismatch)
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** (retries - 1)));
+      token = (await getIdToken()) ?? token;
+      const current = await getUploadOffset(sessionId, token).catch(() => start);
+      if (current === null) {
+        localStorage.removeItem(storageKey);
+        throw new Error("Upload session expired");
+      }
+      offset = current;
+    }
+  }
+  
+  if (signal?.aborted) {
+    await discardCancelledUpload(sessionId);
+    throw uploadCancelled();
+  }
+  
+  // All bytes are in, hand the file over to the server's upload queue
+  const response = await fetch(`/api/uploads/${sessionId}/complete`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Upload failed: ${response.status} ${response.statusText}`);
+  }
+  
+  localStorage.removeItem(storageKey);
+  const job: UploadJob = await response.json();
+  onProgress?.(getUploadProgress(1, 0), "storing");
+  return waitForUploadJob(job.id, (stored) => onProgress?.(getUploadProgress(1, stored), "storing"), signal);
+};
+
 export const downloadFile = async (fileId: number): Promise<Blob> => {
   const token = await getIdToken();
   if (!token) throw new Error("No auth token available");
@@ -188,6 +708,34 @@ export const downloadFile = async (fileId: number): Promise<Blob> => {
   return response.blob();
 };
 
+// Get the decryption parameters of a client-side encrypted file
+export const getFileEncryption = (file: FileSchema): FileEncryption | null => {
+  if (!file.isEncrypted || !file.wrappedKey || !file.encryptionIv || !file.encryptionSalt) {
+    return null;
+  }
+  return { wrappedKey: file.wrappedKey, iv: file.encryptionIv, salt: file.encryptionSalt };
+};
+
+// Download an encrypted file and decrypt it in the browser; the passphrase never leaves it
+export const downloadDecryptedFile = async (file: FileSchema, passphrase: string, type: string = ""): Promise<Blob> => {
+  const encryption = getFileEncryption(file);
+  if (!encryption) throw new Error("File is not encrypted");
+  
+  // Check the passphrase before fetching what may be a large file
+  const key = await unlockFileKey(encryption, passphrase);
+  const blob = await downloadFile(file.id);
+  
+  return decryptBlob(blob, key, encryption, type);
+};
+
+// Media elements can't send an Authorization header, so the token travels in the query string
+export const getFileStreamUrl = async (fileId: number): Promise<string> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  return `/api/files/${fileId}/stream?token=${encodeURIComponent(token)}`;
+};
+
 export const deleteFile = async (fileId: number): Promise<void> => {
   const token = await getIdToken();
   if (!token) throw new Error("No auth token available");
@@ -205,6 +753,42 @@ export const deleteFile = async (fileId: number): Promise<void> => {
   }
 };
 
+export const restoreFile = async (fileId: number): Promise<FileWithShareInfo> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch(`/api/files/${fileId}/restore`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to restore file");
+  }
+  
+  return response.json();
+};
+
+export const permanentlyDeleteFile = async (fileId: number): Promise<void> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch(`/api/files/${fileId}/permanent`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to permanently delete file");
+  }
+};
+
 export const starFile = async (fileId: number, starred: boolean): Promise<FileWithShareInfo> => {
   const token = await getIdToken();
   if (!token) throw new Error("No auth token available");
@@ -226,7 +810,139 @@ export const starFile = async (fileId: number, starred: boolean): Promise<FileWi
   return response.json();
 };
 
-export const shareFile = async (fileId: number, expiryDays?: number): Promise<{ shareLink: string }> => {
+export const starFiles = async (fileIds: number[], starred: boolean): Promise<FileSchema[]> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch("/api/files/star", {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ fileIds, starred }),
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to update star status");
+  }
+  
+  return response.json();
+};
+
+export const moveFile = async (fileId: number, folderId: number | null): Promise<FileWithShareInfo> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch(`/api/files/${fileId}/move`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ folderId }),
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to move file");
+  }
+  
+  return response.json();
+};
+
+// Folders API
+export const getFolderContents = async (folderId: number | null): Promise<FolderContents> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch(folderId === null ? "/api/folders" : `/api/folders/${folderId}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to fetch folder contents");
+  }
+  
+  return response.json();
+};
+
+export const createFolder = async (name: string, parentId: number | null): Promise<Folder> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch("/api/folders", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ name, parentId }),
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to create folder");
+  }
+  
+  return response.json();
+};
+
+export const renameFolder = async (folderId: number, name: string): Promise<Folder> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch(`/api/folders/${folderId}/rename`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ name }),
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to rename folder");
+  }
+  
+  return response.json();
+};
+
+export const moveFolder = async (folderId: number, parentId: number | null): Promise<Folder> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+  
+  const response = await fetch(`/api/folders/${folderId}/move`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ parentId }),
+    credentials: "include",
+  });
+  
+  if (!response.ok) {
+    throw new Error("Failed to move folder");
+  }
+  
+  return response.json();
+};
+
+// How a new share link is restricted; everything is optional
+export interface ShareFileOptions {
+  expiryDays?: number;
+  password?: string;
+  maxDownloads?: number;
+  burnAfterDownload?: boolean; // Same as maxDownloads: 1
+}
+
+export const shareFile = async (fileId: number, options: ShareFileOptions = {}): Promise<ShareLinkInfo> => {
   const token = await getIdToken();
   if (!token) throw new Error("No auth token available");
   
@@ -236,7 +952,7 @@ export const shareFile = async (fileId: number, expiryDays?: number): Promise<{
       Authorization: `Bearer ${token}`,
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ expiryDays }),
+    body: JSON.stringify({ ...options, password: options.password || undefined }),
     credentials: "include",
   });
   
@@ -247,6 +963,68 @@ export const shareFile = async (fileId: number, expiryDays?: number): Promise<{
   return response.json();
 };
 
+// Share a folder; the link opens a read-only view of everything in it
+export const shareFolder = async (folderId: number, options: ShareFileOptions = {}): Promise<ShareLinkInfo> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+
+  const response = await fetch(`/api/folders/${folderId}/share`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ...options, password: options.password || undefined }),
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to share folder");
+  }
+
+  return response.json();
+};
+
+export const getFolderShareLinks = async (folderId: number): Promise<ShareLinkInfo[]> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+
+  const response = await fetch(`/api/folders/${folderId}/shared`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch share links");
+  }
+
+  return response.json();
+};
+
+// Set a share link's password, or remove it with null
+export const updateSharePassword = async (sharedId: number, password: string | null): Promise<ShareLinkInfo> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+
+  const response = await fetch(`/api/shared/${sharedId}`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ password }),
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to update share link");
+  }
+
+  return response.json();
+};
+
 export const deleteSharedLink = async (sharedId: number): Promise<void> => {
   const token = await getIdToken();
   if (!token) throw new Error("No auth token available");
@@ -264,12 +1042,144 @@ export const deleteSharedLink = async (sharedId: number): Promise<void> => {
   }
 };
 
-export const getSharedFile = async (shareLink: string): Promise<{ file: File }> => {
-  const response = await fetch(`/api/shared/${shareLink}`);
+// Share a file with another user by the email they signed up with; sharing again changes their role
+export const shareFileWithUser = async (fileId: number, email: string, role: FilePermissionRole = "viewer"): Promise<FileGrant> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+
+  const response = await fetch(`/api/files/${fileId}/permissions`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ email, role }),
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || "Failed to share file");
+  }
+
+  return response.json();
+};
+
+// Stop sharing a file with a user, or leave a file shared with you
+export const revokeFilePermission = async (fileId: number, permissionId: number): Promise<void> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+
+  const response = await fetch(`/api/files/${fileId}/permissions/${permissionId}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to revoke access");
+  }
+};
+
+export const getIncomingSharedFiles = async (): Promise<IncomingSharedFile[]> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+
+  const response = await fetch("/api/files/shared", {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch shared files");
+  }
+
+  return response.json();
+};
+
+export const getOutgoingSharedFiles = async (): Promise<OutgoingSharedItems> => {
+  const token = await getIdToken();
+  if (!token) throw new Error("No auth token available");
+
+  const response = await fetch("/api/files/shared/outgoing", {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch shared files");
+  }
+
+  return response.json();
+};
+
+// How opening a share link went; the shared page has a state for each
+export type SharedFileResult =
+  | { status: "ok"; info: SharedFileInfo }
+  | { status: "password-required" }
+  | { status: "expired" }
+  | { status: "exhausted" }
+  | { status: "not-found" };
+
+// Share links work without signing in; a password-protected one needs the access token from unlockSharedFile.
+// For folder links, folderId picks the folder of the shared tree to list.
+export const getSharedFile = async (shareLink: string, accessToken?: string, folderId?: number): Promise<SharedFileResult> => {
+  const query = folderId !== undefined ? `?folderId=${folderId}` : "";
+  const response = await fetch(`/api/shared/${encodeURIComponent(shareLink)}${query}`, {
+    headers: accessToken ? { "X-Share-Token": accessToken } : {},
+  });
   
+  if (response.status === 401) return { status: "password-required" };
+  if (response.status === 403) return { status: "expired" };
+  if (response.status === 404) return { status: "not-found" };
+  if (response.status === 410) return { status: "exhausted" };
   if (!response.ok) {
     throw new Error("Failed to access shared file");
   }
   
+  return { status: "ok", info: await response.json() };
+};
+
+// Unlock a password-protected share link
+export const unlockSharedFile = async (shareLink: string, password: string): Promise<{ accessToken: string; expiresAt: string }> => {
+  const response = await fetch(`/api/shared/${encodeURIComponent(shareLink)}/unlock`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ password }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || "Failed to unlock shared file");
+  }
+
   return response.json();
 };
+
+// What to fetch through a share link; folder links take a file of theirs, or else give a ZIP of a folder
+export interface SharedDownloadOptions {
+  inline?: boolean; // For previews, which are seekable with Range requests
+  fileId?: number;
+  folderId?: number;
+}
+
+// URL of a shared file's bytes, or of a shared folder as a ZIP
+export const getSharedFileUrl = (shareLink: string, accessToken?: string, options: SharedDownloadOptions = {}): string => {
+  const params = new URLSearchParams();
+  if (options.inline) params.set("inline", "1");
+  if (options.fileId !== undefined) params.set("fileId", String(options.fileId));
+  if (options.folderId !== undefined) params.set("folderId", String(options.folderId));
+  if (accessToken) params.set("accessToken", accessToken);
+
+  const query = params.toString();
+  return `/api/shared/${encodeURIComponent(shareLink)}/download${query ? `?${query}` : ""}`;
+};
+
+// Full address of a share link, for copying
+export const getShareUrl = (shareLink: string): string => `${window.location.origin}/s/${shareLink}`;
@@ -0,0 +1,142 @@
+import { type FileEncryption } from "@shared/schema";
+
+// Files are encrypted in fixed-size records so large files never have to be held in one buffer.
+// Each record is sealed with AES-GCM under the file key, using the file IV with the record index
+// mixed into its last four bytes; a flag in the additional data marks the final record so a
+// truncated file fails to decrypt instead of silently coming out short.
+const RECORD_SIZE = 4 * 1024 * 1024; // 4MB of plaintext per record
+const TAG_LENGTH = 16; // bytes added to every record by AES-GCM
+const PBKDF2_ITERATIONS = 310000;
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = "";
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Derive the key that wraps file keys from the user's passphrase
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-KW", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+};
+
+const getRecordIv = (iv: Uint8Array, index: number): Uint8Array => {
+  const recordIv = iv.slice();
+  const view = new DataView(recordIv.buffer);
+  view.setUint32(recordIv.length - 4, view.getUint32(recordIv.length - 4) ^ index);
+  return recordIv;
+};
+
+const getRecordData = (isLast: boolean): Uint8Array => new Uint8Array([isLast ? 1 : 0]);
+
+/**
+ * Create a fresh key for one file, wrapped with the passphrase
+ * @returns The key to encrypt with and the parameters to store alongside the ciphertext
+ */
+export const createFileKey = async (passphrase: string): Promise<{ key: CryptoKey; encryption: FileEncryption }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt);
+  const wrappedKey = await crypto.subtle.wrapKey("raw", key, wrappingKey, "AES-KW");
+
+  return {
+    key,
+    encryption: { wrappedKey: toBase64(wrappedKey), iv: toBase64(iv), salt: toBase64(salt) },
+  };
+};
+
+/**
+ * Recover a file's key from its stored parameters
+ * @throws When the passphrase is wrong
+ */
+export const unlockFileKey = async (encryption: FileEncryption, passphrase: string): Promise<CryptoKey> => {
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(encryption.salt));
+
+  try {
+    return await crypto.subtle.unwrapKey(
+      "raw",
+      fromBase64(encryption.wrappedKey),
+      wrappingKey,
+      "AES-KW",
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  } catch {
+    // AES-KW checks its integrity, so a wrong passphrase is caught here
+    throw new Error("Wrong passphrase");
+  }
+};
+
+/**
+ * Encrypt a file; the same key and IV always produce the same ciphertext,
+ * which lets an interrupted upload pick up where it stopped
+ */
+export const encryptBlob = async (blob: Blob, key: CryptoKey, encryption: FileEncryption): Promise<Blob> => {
+  const iv = fromBase64(encryption.iv);
+  const recordCount = Math.max(1, Math.ceil(blob.size / RECORD_SIZE));
+  const records: ArrayBuffer[] = [];
+
+  for (let index = 0; index < recordCount; index++) {
+    const plaintext = await blob.slice(index * RECORD_SIZE, (index + 1) * RECORD_SIZE).arrayBuffer();
+    records.push(await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: getRecordIv(iv, index), additionalData: getRecordData(index === recordCount - 1) },
+      key,
+      plaintext
+    ));
+  }
+
+  return new Blob(records, { type: "application/octet-stream" });
+};
+
+/**
+ * Decrypt a file produced by encryptBlob
+ * @param type MIME type of the plaintext
+ */
+export const decryptBlob = async (blob: Blob, key: CryptoKey, encryption: FileEncryption, type: string = ""): Promise<Blob> => {
+  const iv = fromBase64(encryption.iv);
+  const encryptedRecordSize = RECORD_SIZE + TAG_LENGTH;
+  const recordCount = Math.max(1, Math.ceil(blob.size / encryptedRecordSize));
+  const records: ArrayBuffer[] = [];
+
+  for (let index = 0; index < recordCount; index++) {
+    const ciphertext = await blob.slice(index * encryptedRecordSize, (index + 1) * encryptedRecordSize).arrayBuffer();
+    try {
+      records.push(await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: getRecordIv(iv, index), additionalData: getRecordData(index === recordCount - 1) },
+        key,
+        ciphertext
+      ));
+    } catch {
+      throw new Error("File is corrupted or was tampered with");
+    }
+  }
+
+  return new Blob(records, { type });
+};
@@ -8,7 +8,7 @@ import FileManager from "@/components/FileManager";
 import UploadModal from "@/components/modals/UploadModal";
 import FilePreviewModal from "@/components/modals/FilePreviewModal";
 import ShareFileModal from "@/components/modals/ShareFileModal";
-import { getUserFiles, getRecentFiles, getFilesByType } from "@/lib/api";
+import { getRecentFiles, getFilesByType, getFolderContents, getTrashedFiles, getStarredFiles } from "@/lib/api";
 import { FileWithShareInfo } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
@@ -19,19 +19,27 @@ export default function Dashboard() {
   const queryClient = useQueryClient();
   
   const [filter, setFilter] = useState("all");
+  const [currentFolderId, setCurrentFolderId] = useState<number | null>(null);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
   const [previewFile, setPreviewFile] = useState<FileWithShareInfo | null>(null);
   const [shareFile, setShareFile] = useState<FileWithShareInfo | null>(null);
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [searchQuery, setSearchQuery] = useState("");
 
+  // Fetch the current folder's contents for the "all" view
+  const { data: folderContents, isLoading: isFolderLoading } = useQuery({
+    queryKey: ['/api/folders', currentFolderId],
+    queryFn: () => getFolderContents(currentFolderId),
+    enabled: !!user && filter === "all",
+  });
+
   // Get files based on filter
   const getFilesForFilter = () => {
     switch (filter) {
       case "recent":
         return { queryKey: ['/api/files/recent'], queryFn: () => getRecentFiles(20) };
       case "starred":
-        return { queryKey: ['/api/files/type/starred'], queryFn: () => getFilesByType('starred') };
+        return { queryKey: ['/api/files/starred'], queryFn: getStarredFiles };
       case "documents":
         return { queryKey: ['/api/files/type/document'], queryFn: () => getFilesByType('document') };
       case "images":
@@ -43,20 +51,23 @@ export default function Dashboard() {
       case "archives":
         return { queryKey: ['/api/files/type/archive'], queryFn: () => getFilesByType('archive') };
       case "trash":
-        return { queryKey: ['/api/files/type/trash'], queryFn: () => getFilesByType('trash') };
+        return { queryKey: ['/api/files/trash'], queryFn: getTrashedFiles };
       default:
-        return { queryKey: ['/api/files'], queryFn: getUserFiles };
+        return null;
     }
   };
 
   // Fetch files
-  const { queryKey, queryFn } = getFilesForFilter();
-  const { data: files = [], isLoading } = useQuery({
-    queryKey,
-    queryFn,
-    enabled: !!user,
+  const filterQuery = getFilesForFilter();
+  const { data: filteredByType = [], isLoading: isFilterLoading } = useQuery({
+    queryKey: filterQuery?.queryKey ?? ['/api/files'],
+    queryFn: filterQuery?.queryFn,
+    enabled: !!user && !!filterQuery,
   });
 
+  const files = filterQuery ? filteredByType : folderContents?.files ?? [];
+  const isLoading = filterQuery ? isFilterLoading : isFolderLoading;
+
   // Filter files based on search query
   const filteredFiles = searchQuery 
     ? files.filter(file => file.fileName.toLowerCase().includes(searchQuery.toLowerCase()))
@@ -65,6 +76,7 @@ export default function Dashboard() {
   // Handle filter change
   const handleFilterChange = (newFilter: string) => {
     setFilter(newFilter);
+    setCurrentFolderId(null);
   };
 
   // Handle file upload
@@ -72,6 +84,7 @@ export default function Dashboard() {
     // Invalidate queries to reload files
     queryClient.invalidateQueries({ queryKey: ['/api/files'] });
     queryClient.invalidateQueries({ queryKey: ['/api/files/recent'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
     
     toast({
       title: "File Uploaded",
@@ -101,6 +114,10 @@ export default function Dashboard() {
           onPreviewFile={setPreviewFile}
           onShareFile={setShareFile}
           filter={filter}
+          folders={folderContents?.folders}
+          folderPath={folderContents?.path}
+          currentFolderId={currentFolderId}
+          onOpenFolder={setCurrentFolderId}
         />
       </div>
 
@@ -108,6 +125,7 @@ export default function Dashboard() {
         isOpen={uploadModalOpen} 
         onClose={() => setUploadModalOpen(false)} 
         onFileUploaded={handleFileUploaded}
+        folderId={filter === "all" ? currentFolderId : null}
       />
 
       {previewFile && (
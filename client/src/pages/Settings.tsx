@@ -9,8 +9,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Shield, Mail, Bell, User, Key, Database } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { updateUserSettings, startChannelVerification, type ChannelVerification } from "@/lib/api";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -65,6 +67,10 @@ export default function Settings() {
       .substring(0, 2);
   };
 
+  const [channelId, setChannelId] = useState(user?.user.telegramChannelId ?? "");
+  const [isSavingChannel, setIsSavingChannel] = useState(false);
+  const [channelVerification, setChannelVerification] = useState<ChannelVerification | null>(null);
+
   const displayName = user?.user.displayName || user?.user.email?.split('@')[0] || 'User';
   const initials = getInitials(displayName);
   
@@ -109,6 +115,57 @@ export default function Settings() {
     }
   };
 
+  // Handle trash retention update
+  const onTrashRetentionChange = async (value: string) => {
+    try {
+      await updateUserSettings({ trashRetentionDays: parseInt(value) });
+      await refreshUserData();
+      toast({
+        title: "Trash Settings Updated",
+        description: `Files in the trash will be deleted forever after ${value} days.`,
+      });
+    } catch (error) {
+      console.error("Trash settings update error:", error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update trash settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Handle own Telegram channel update; an empty value goes back to the shared channels.
+  // A new channel first gets a code to post in it, and is saved once the code is there.
+  const onChannelSave = async (value: string) => {
+    const telegramChannelId = value.trim();
+    setIsSavingChannel(true);
+    try {
+      if (telegramChannelId && telegramChannelId !== user?.user.telegramChannelId && channelVerification?.channelId !== telegramChannelId) {
+        setChannelVerification(await startChannelVerification(telegramChannelId));
+        return;
+      }
+
+      await updateUserSettings({ telegramChannelId: telegramChannelId || null });
+      setChannelVerification(null);
+      await refreshUserData();
+      toast({
+        title: "Storage Channel Updated",
+        description: value.trim()
+          ? "New files will be stored in your own Telegram channel."
+          : "New files will be stored in the shared channels.",
+      });
+    } catch (error) {
+      console.error("Channel settings update error:", error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Failed to update the storage channel.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingChannel(false);
+    }
+  };
+
   // Handle notification settings update
   const onNotificationSubmit = async (values: NotificationFormValues) => {
     try {
@@ -321,6 +378,83 @@ export default function Settings() {
                   </Button>
                 </CardFooter>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Trash</CardTitle>
+                  <CardDescription>
+                    Choose how long deleted files stay in the trash before they are removed for good.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <Label htmlFor="trash-retention">Delete trashed files after</Label>
+                    <Select
+                      value={String(user?.user.trashRetentionDays ?? 30)}
+                      onValueChange={onTrashRetentionChange}
+                    >
+                      <SelectTrigger id="trash-retention" className="w-full md:w-64">
+                        <SelectValue placeholder="Select retention period" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="7">7 days</SelectItem>
+                        <SelectItem value="30">30 days</SelectItem>
+                        <SelectItem value="90">90 days</SelectItem>
+                        <SelectItem value="365">1 year</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Telegram Channel</CardTitle>
+                  <CardDescription>
+                    Store your new files in a Telegram channel of your own instead of the shared ones.
+                    Add the storage accounts to the channel as administrators that can post messages first.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <Label htmlFor="telegram-channel">Channel ID</Label>
+                    <div className="flex flex-col md:flex-row gap-2">
+                      <Input
+                        id="telegram-channel"
+                        className="md:w-64"
+                        placeholder="-1001234567890"
+                        value={channelId}
+                        onChange={(e) => setChannelId(e.target.value)}
+                      />
+                      <Button onClick={() => onChannelSave(channelId)} disabled={isSavingChannel}>
+                        {channelVerification?.channelId === channelId.trim() ? "Verify and save" : "Save"}
+                      </Button>
+                      {user?.user.telegramChannelId && (
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setChannelId("");
+                            onChannelSave("");
+                          }}
+                          disabled={isSavingChannel}
+                        >
+                          Use shared channels
+                        </Button>
+                      )}
+                    </div>
+                    {channelVerification?.channelId === channelId.trim() && (
+                      <div className="rounded-md border bg-gray-50 p-3 text-sm">
+                        Post <code className="font-mono font-semibold">{channelVerification.code}</code> in the
+                        channel to show it is yours, then verify. The code works until{" "}
+                        {new Date(channelVerification.expiresAt).toLocaleTimeString()}.
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Files you already uploaded stay where they are.
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
             </TabsContent>
             
             {/* Security Settings */}
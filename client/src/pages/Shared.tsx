@@ -1,49 +1,123 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
 import MainHeader from "@/components/MainHeader";
 import FilePreviewModal from "@/components/modals/FilePreviewModal";
 import ShareFileModal from "@/components/modals/ShareFileModal";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { FileWithShareInfo } from "@shared/schema";
-import { Search, Clock, ArrowUpRight } from "lucide-react";
+import { FileWithShareInfo, UserSummary } from "@shared/schema";
+import { Search, Clock, Lock, Folder as FolderIcon } from "lucide-react";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import FileCard from "@/components/FileCard";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { getIncomingSharedFiles, getOutgoingSharedFiles, revokeFilePermission, deleteSharedLink, getShareUrl } from "@/lib/api";
+import { formatBytes } from "@/lib/utils";
+
+// Get a user's initials for avatar fallback
+const getInitials = (user: UserSummary) => {
+  return (user.displayName || user.email.split('@')[0])
+    .split(' ')
+    .map(part => part[0])
+    .join('')
+    .toUpperCase()
+    .substring(0, 2);
+};
+
+const formatSharedAt = (date: Date | string | null) => date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : "a while ago";
 
 export default function Shared() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
   const [previewFile, setPreviewFile] = useState<FileWithShareInfo | null>(null);
   const [shareFile, setShareFile] = useState<FileWithShareInfo | null>(null);
 
-  // Fetch shared files - would be a real API call in production
+  // Files other people shared with me
   const { data: sharedFiles = [], isLoading: sharedFilesLoading } = useQuery({
     queryKey: ['/api/files/shared'],
-    queryFn: () => Promise.resolve([]) // Mock query function
+    queryFn: getIncomingSharedFiles
   });
 
-  // Fetch files shared by me - would be a real API call in production
-  const { data: mySharedFiles = [], isLoading: mySharedFilesLoading } = useQuery({
+  // Links to my files and folders, and the people I shared files with
+  const { data: myShared, isLoading: mySharedFilesLoading } = useQuery({
     queryKey: ['/api/files/shared/outgoing'],
-    queryFn: () => Promise.resolve([]) // Mock query function
+    queryFn: getOutgoingSharedFiles
   });
+  const mySharedFiles = myShared?.files ?? [];
+  const mySharedFolders = myShared?.folders ?? [];
 
   // Filter files based on search query
-  const filteredSharedFiles = searchQuery 
-    ? sharedFiles.filter((file: any) => file.fileName.toLowerCase().includes(searchQuery.toLowerCase()))
+  const filteredSharedFiles = searchQuery
+    ? sharedFiles.filter(file => file.fileName.toLowerCase().includes(searchQuery.toLowerCase()))
     : sharedFiles;
 
-  const filteredMySharedFiles = searchQuery 
-    ? mySharedFiles.filter((file: any) => file.fileName.toLowerCase().includes(searchQuery.toLowerCase()))
+  const filteredMySharedFiles = searchQuery
+    ? mySharedFiles.filter(file => file.fileName.toLowerCase().includes(searchQuery.toLowerCase()))
     : mySharedFiles;
 
+  const filteredMySharedFolders = searchQuery
+    ? mySharedFolders.filter(folder => folder.name.toLowerCase().includes(searchQuery.toLowerCase()))
+    : mySharedFolders;
+
+  const fileGrants = filteredMySharedFiles.filter(file => file.grants.length > 0);
+
+  // File and folder links together, newest first
+  const shareLinks = [
+    ...filteredMySharedFiles.flatMap(file => file.links.map(link => ({ link, name: file.fileName, details: formatBytes(file.fileSize), isFolder: false }))),
+    ...filteredMySharedFolders.flatMap(folder => folder.links.map(link => ({ link, name: folder.name, details: "Folder", isFolder: true }))),
+  ].sort((a, b) => new Date(b.link.createdAt ?? 0).getTime() - new Date(a.link.createdAt ?? 0).getTime());
+
+  const refreshShares = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/files/shared'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/files/shared/outgoing'] });
+  };
+
+  // Stop sharing with someone, or leave a file someone shared with me
+  const handleRevokePermission = async (fileId: number, permissionId: number) => {
+    try {
+      await revokeFilePermission(fileId, permissionId);
+      refreshShares();
+    } catch (error) {
+      console.error('Revoke error:', error);
+      toast({
+        title: "Failed to Revoke Access",
+        description: "There was an error revoking access to the file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevokeLink = async (sharedId: number) => {
+    try {
+      await deleteSharedLink(sharedId);
+      refreshShares();
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+    } catch (error) {
+      console.error('Revoke link error:', error);
+      toast({
+        title: "Failed to Revoke Link",
+        description: "There was an error deleting the share link.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopyLink = (shareLink: string) => {
+    navigator.clipboard.writeText(getShareUrl(shareLink));
+    toast({
+      title: "Link Copied",
+      description: "Share link has been copied to clipboard.",
+    });
+  };
+
   return (
     <div className="flex flex-col min-h-screen">
       <MainHeader onUploadClick={() => {}} />
-      
+
       <main className="flex-grow p-4 sm:p-6 lg:p-8 bg-gray-50">
         <div className="max-w-7xl mx-auto">
           <div className="flex flex-col md:flex-row items-start md:items-center justify-between mb-6">
@@ -51,7 +125,7 @@ export default function Shared() {
               <h1 className="text-2xl font-bold text-gray-900">Shared Files</h1>
               <p className="text-gray-500">Manage files shared with you and by you</p>
             </div>
-            
+
             <div className="w-full md:w-64 mt-4 md:mt-0">
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
@@ -64,13 +138,13 @@ export default function Shared() {
               </div>
             </div>
           </div>
-          
+
           <Tabs defaultValue="shared-with-me" className="space-y-6">
             <TabsList>
               <TabsTrigger value="shared-with-me">Shared with me</TabsTrigger>
               <TabsTrigger value="shared-by-me">Shared by me</TabsTrigger>
             </TabsList>
-            
+
             {/* Files shared with me */}
             <TabsContent value="shared-with-me">
               {sharedFilesLoading ? (
@@ -99,102 +173,46 @@ export default function Shared() {
                 </div>
               ) : filteredSharedFiles.length > 0 ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {/* This is a placeholder that would display actual shared files in production */}
-                  <Card>
-                    <CardHeader>
-                      <div className="flex items-center space-x-2">
-                        <Avatar>
-                          <AvatarFallback>JD</AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <p className="text-sm font-medium">John Doe</p>
-                          <p className="text-xs text-gray-500">Shared yesterday</p>
-                        </div>
-                      </div>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="flex items-center space-x-2 mb-3">
-                        <svg className="h-8 w-8 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                          <text x="8.5" y="16" fontSize="4.5" fill="currentColor" fontFamily="sans-serif">DOC</text>
-                        </svg>
-                        <div>
-                          <p className="text-sm font-medium truncate">Project Proposal.docx</p>
-                          <p className="text-xs text-gray-500">1.2 MB</p>
-                        </div>
-                      </div>
-                      <p className="text-sm text-gray-600">
-                        "Please review the updated project proposal for next week's meeting."
-                      </p>
-                    </CardContent>
-                    <CardFooter>
-                      <Button size="sm" variant="outline" className="w-full">View File</Button>
-                    </CardFooter>
-                  </Card>
-                  
-                  <Card>
-                    <CardHeader>
-                      <div className="flex items-center space-x-2">
-                        <Avatar>
-                          <AvatarFallback>AS</AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <p className="text-sm font-medium">Anna Smith</p>
-                          <p className="text-xs text-gray-500">Shared 3 days ago</p>
-                        </div>
-                      </div>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="flex items-center space-x-2 mb-3">
-                        <svg className="h-8 w-8 text-green-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                          <text x="9" y="16" fontSize="4.5" fill="currentColor" fontFamily="sans-serif">XLS</text>
-                        </svg>
-                        <div>
-                          <p className="text-sm font-medium truncate">Q3 Financial Report.xlsx</p>
-                          <p className="text-xs text-gray-500">2.4 MB</p>
-                        </div>
-                      </div>
-                      <p className="text-sm text-gray-600">
-                        "Here's the financial report for Q3. Let's discuss it on Monday."
-                      </p>
-                    </CardContent>
-                    <CardFooter>
-                      <Button size="sm" variant="outline" className="w-full">View File</Button>
-                    </CardFooter>
-                  </Card>
-                  
-                  <Card>
-                    <CardHeader>
-                      <div className="flex items-center space-x-2">
-                        <Avatar>
-                          <AvatarFallback>RJ</AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <p className="text-sm font-medium">Robert Johnson</p>
-                          <p className="text-xs text-gray-500">Shared a week ago</p>
+                  {filteredSharedFiles.map(file => (
+                    <Card key={file.permissionId}>
+                      <CardHeader>
+                        <div className="flex items-center space-x-2">
+                          <Avatar>
+                            {file.sharedBy.photoURL && <AvatarImage src={file.sharedBy.photoURL} />}
+                            <AvatarFallback>{getInitials(file.sharedBy)}</AvatarFallback>
+                          </Avatar>
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{file.sharedBy.displayName || file.sharedBy.email}</p>
+                            <p className="text-xs text-gray-500">Shared {formatSharedAt(file.sharedAt)}</p>
+                          </div>
                         </div>
-                      </div>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="flex items-center space-x-2 mb-3">
-                        <svg className="h-8 w-8 text-red-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                          <text x="9.5" y="16" fontSize="5" fill="currentColor" fontFamily="sans-serif">PDF</text>
-                        </svg>
-                        <div>
-                          <p className="text-sm font-medium truncate">Marketing Strategy.pdf</p>
-                          <p className="text-xs text-gray-500">3.7 MB</p>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex items-center justify-between space-x-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{file.fileName}</p>
+                            <p className="text-xs text-gray-500">{formatBytes(file.fileSize)}</p>
+                          </div>
+                          <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full capitalize">
+                            {file.role}
+                          </span>
                         </div>
-                      </div>
-                      <p className="text-sm text-gray-600">
-                        "Updated marketing strategy for the next quarter."
-                      </p>
-                    </CardContent>
-                    <CardFooter>
-                      <Button size="sm" variant="outline" className="w-full">View File</Button>
-                    </CardFooter>
-                  </Card>
+                      </CardContent>
+                      <CardFooter className="flex gap-2">
+                        <Button size="sm" variant="outline" className="flex-1" onClick={() => setPreviewFile(file)}>
+                          View File
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-gray-600"
+                          onClick={() => handleRevokePermission(file.id, file.permissionId)}
+                        >
+                          Remove
+                        </Button>
+                      </CardFooter>
+                    </Card>
+                  ))}
                 </div>
               ) : (
                 <div className="text-center py-12 bg-white rounded-lg shadow">
@@ -208,7 +226,7 @@ export default function Shared() {
                 </div>
               )}
             </TabsContent>
-            
+
             {/* Files shared by me */}
             <TabsContent value="shared-by-me">
               {mySharedFilesLoading ? (
@@ -229,132 +247,108 @@ export default function Shared() {
                     </div>
                   ))}
                 </div>
-              ) : filteredMySharedFiles.length > 0 ? (
+              ) : filteredMySharedFiles.length > 0 || filteredMySharedFolders.length > 0 ? (
                 <div className="space-y-6">
-                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-                    {/* This is a placeholder that would display actual shared files in production */}
-                    <div className="rounded-lg shadow bg-white overflow-hidden">
-                      <div className="p-4 flex items-center justify-center bg-blue-50 h-32 relative">
-                        <div className="file-icon transform transition-transform">
-                          <svg className="h-16 w-16 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                            <text x="8.5" y="16" fontSize="4.5" fill="currentColor" fontFamily="sans-serif">DOCX</text>
-                          </svg>
-                        </div>
-                        <div className="absolute top-2 right-2 flex space-x-1">
-                          <Button variant="ghost" size="icon" className="h-6 w-6">
-                            <ArrowUpRight className="h-4 w-4 text-gray-400" />
-                          </Button>
-                        </div>
-                      </div>
-                      <div className="p-4 border-t border-gray-200">
-                        <h3 className="text-sm font-medium text-gray-900 truncate">Meeting_Notes.docx</h3>
-                        <div className="flex items-center mt-1">
-                          <Clock className="h-3 w-3 text-gray-400 mr-1" />
-                          <p className="text-xs text-gray-500">Shared 2 days ago • 3 views</p>
-                        </div>
-                        <div className="mt-3 flex items-center">
-                          <Avatar className="h-5 w-5 mr-1">
-                            <AvatarFallback className="text-xs">JD</AvatarFallback>
-                          </Avatar>
-                          <p className="text-xs text-gray-500">Shared with John Doe</p>
-                        </div>
-                        <div className="mt-3 flex justify-between">
-                          <Button variant="link" size="sm" className="text-xs text-primary hover:text-blue-700 font-medium p-0">
-                            Manage
-                          </Button>
-                          <Button variant="link" size="sm" className="text-xs text-gray-600 hover:text-gray-900 font-medium p-0">
-                            Revoke
-                          </Button>
-                        </div>
-                      </div>
-                    </div>
-                    
-                    <div className="rounded-lg shadow bg-white overflow-hidden">
-                      <div className="p-4 flex items-center justify-center bg-green-50 h-32 relative">
-                        <div className="file-icon transform transition-transform">
-                          <svg className="h-16 w-16 text-green-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                            <text x="9" y="16" fontSize="4.5" fill="currentColor" fontFamily="sans-serif">XLS</text>
-                          </svg>
-                        </div>
-                        <div className="absolute top-2 right-2 flex space-x-1">
-                          <Button variant="ghost" size="icon" className="h-6 w-6">
-                            <ArrowUpRight className="h-4 w-4 text-gray-400" />
-                          </Button>
-                        </div>
-                      </div>
-                      <div className="p-4 border-t border-gray-200">
-                        <h3 className="text-sm font-medium text-gray-900 truncate">Budget_2023.xlsx</h3>
-                        <div className="flex items-center mt-1">
-                          <Clock className="h-3 w-3 text-gray-400 mr-1" />
-                          <p className="text-xs text-gray-500">Shared 1 week ago • 7 views</p>
-                        </div>
-                        <div className="mt-3 flex items-center">
-                          <div className="flex -space-x-1">
-                            <Avatar className="h-5 w-5 border-2 border-white">
-                              <AvatarFallback className="text-xs">AS</AvatarFallback>
-                            </Avatar>
-                            <Avatar className="h-5 w-5 border-2 border-white">
-                              <AvatarFallback className="text-xs">RJ</AvatarFallback>
-                            </Avatar>
-                          </div>
-                          <p className="text-xs text-gray-500 ml-2">Shared with 2 people</p>
-                        </div>
-                        <div className="mt-3 flex justify-between">
-                          <Button variant="link" size="sm" className="text-xs text-primary hover:text-blue-700 font-medium p-0">
-                            Manage
-                          </Button>
-                          <Button variant="link" size="sm" className="text-xs text-gray-600 hover:text-gray-900 font-medium p-0">
-                            Revoke
-                          </Button>
-                        </div>
-                      </div>
+                  {fileGrants.length > 0 && (
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                      {fileGrants.map(file => (
+                        <Card key={file.id}>
+                          <CardHeader className="pb-2">
+                            <CardTitle className="text-base truncate">{file.fileName}</CardTitle>
+                            <CardDescription className="text-xs">
+                              {formatBytes(file.fileSize)} • Shared with {file.grants.length} {file.grants.length === 1 ? "person" : "people"}
+                            </CardDescription>
+                          </CardHeader>
+                          <CardContent className="space-y-2">
+                            {file.grants.map(grant => (
+                              <div key={grant.id} className="flex items-center justify-between">
+                                <div className="flex items-center min-w-0">
+                                  <Avatar className="h-6 w-6 mr-2">
+                                    {grant.user.photoURL && <AvatarImage src={grant.user.photoURL} />}
+                                    <AvatarFallback className="text-xs">{getInitials(grant.user)}</AvatarFallback>
+                                  </Avatar>
+                                  <div className="min-w-0">
+                                    <p className="text-xs font-medium truncate">{grant.user.displayName || grant.user.email}</p>
+                                    <p className="text-xs text-gray-500 capitalize">{grant.role}</p>
+                                  </div>
+                                </div>
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="text-xs text-gray-600 hover:text-gray-900 font-medium p-0"
+                                  onClick={() => handleRevokePermission(file.id, grant.id)}
+                                >
+                                  Revoke
+                                </Button>
+                              </div>
+                            ))}
+                          </CardContent>
+                          <CardFooter>
+                            <Button variant="ghost" size="sm" onClick={() => setShareFile(file)}>Manage</Button>
+                          </CardFooter>
+                        </Card>
+                      ))}
                     </div>
-                  </div>
-                  
-                  <div>
-                    <Separator className="my-6" />
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">Link Sharing</h3>
-                    
-                    <div className="space-y-4">
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <div className="flex justify-between items-start">
-                            <div className="flex items-center space-x-2">
-                              <svg className="h-6 w-6 text-red-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                                <text x="9.5" y="16" fontSize="5" fill="currentColor" fontFamily="sans-serif">PDF</text>
-                              </svg>
-                              <div>
-                                <CardTitle className="text-base">Annual_Report.pdf</CardTitle>
-                                <CardDescription className="text-xs">3.5 MB • Created 10 days ago</CardDescription>
+                  )}
+
+                  {shareLinks.length > 0 && (
+                    <div>
+                      <Separator className="my-6" />
+                      <h3 className="text-lg font-medium text-gray-900 mb-4">Link Sharing</h3>
+
+                      <div className="space-y-4">
+                        {shareLinks.map(({ link, name, details, isFolder }) => (
+                          <Card key={link.id}>
+                            <CardHeader className="pb-2">
+                              <div className="flex justify-between items-start">
+                                <div className="min-w-0">
+                                  <CardTitle className="text-base flex items-center gap-1 truncate">
+                                    {link.hasPassword && <Lock className="h-4 w-4 text-gray-400" />}
+                                    {isFolder && <FolderIcon className="h-4 w-4 text-gray-400" />}
+                                    {name}
+                                  </CardTitle>
+                                  <CardDescription className="text-xs">
+                                    {details} • Created {formatSharedAt(link.createdAt)}
+                                  </CardDescription>
+                                </div>
+                                {link.expiryDate && (
+                                  <div className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full whitespace-nowrap">
+                                    {new Date(link.expiryDate) < new Date()
+                                      ? "Expired"
+                                      : `Expires ${formatDistanceToNow(new Date(link.expiryDate), { addSuffix: true })}`}
+                                  </div>
+                                )}
                               </div>
-                            </div>
-                            <div className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full">
-                              Expires in 3 days
-                            </div>
-                          </div>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="bg-gray-50 p-2 rounded text-sm flex items-center justify-between">
-                            <code className="text-xs truncate">https://telestore.app/s/aB3xYz789</code>
-                            <Button variant="ghost" size="sm" className="h-6 px-2">Copy</Button>
-                          </div>
-                          <div className="mt-2 text-xs text-gray-500 flex items-center">
-                            <Clock className="h-3 w-3 mr-1" />
-                            12 accesses • Last accessed yesterday
-                          </div>
-                        </CardContent>
-                        <CardFooter className="flex justify-between">
-                          <Button variant="ghost" size="sm">Manage</Button>
-                          <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-800 hover:bg-red-50">
-                            Revoke Access
-                          </Button>
-                        </CardFooter>
-                      </Card>
+                            </CardHeader>
+                            <CardContent>
+                              <div className="bg-gray-50 p-2 rounded text-sm flex items-center justify-between">
+                                <code className="text-xs truncate">{getShareUrl(link.shareLink)}</code>
+                                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleCopyLink(link.shareLink)}>
+                                  Copy
+                                </Button>
+                              </div>
+                              <div className="mt-2 text-xs text-gray-500 flex items-center">
+                                <Clock className="h-3 w-3 mr-1" />
+                                {link.accessCount} {link.accessCount === 1 ? "view" : "views"} • {link.maxDownloads !== null
+                                  ? `${link.downloadCount} of ${link.maxDownloads} downloads`
+                                  : `${link.downloadCount} ${link.downloadCount === 1 ? "download" : "downloads"}`}
+                              </div>
+                            </CardContent>
+                            <CardFooter className="flex justify-end">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                                onClick={() => handleRevokeLink(link.id)}
+                              >
+                                Revoke Access
+                              </Button>
+                            </CardFooter>
+                          </Card>
+                        ))}
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-12 bg-white rounded-lg shadow">
@@ -376,7 +370,7 @@ export default function Shared() {
           </Tabs>
         </div>
       </main>
-      
+
       {previewFile && (
         <FilePreviewModal
           isOpen={!!previewFile}
@@ -388,7 +382,10 @@ export default function Shared() {
       {shareFile && (
         <ShareFileModal
           isOpen={!!shareFile}
-          onClose={() => setShareFile(null)}
+          onClose={() => {
+            setShareFile(null);
+            refreshShares();
+          }}
           file={shareFile}
         />
       )}
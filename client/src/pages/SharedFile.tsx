@@ -0,0 +1,278 @@
+import { useState, FormEvent } from "react";
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, Ban, ChevronRight, Clock, Download, FileText, Folder as FolderIcon, Lock } from "lucide-react";
+import { getSharedFile, getSharedFileUrl, unlockSharedFile } from "@/lib/api";
+import { formatBytes } from "@/lib/utils";
+import { SharedFolderListing } from "@shared/schema";
+
+// Landing page of a share link; works without signing in. Folder links open a browsable, read-only tree.
+export default function SharedFile() {
+  const { shareLink = "" } = useParams<{ shareLink: string }>();
+  const [accessToken, setAccessToken] = useState<string | undefined>(undefined);
+  const [password, setPassword] = useState("");
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  // The folder being browsed within a shared folder; undefined is the shared folder itself
+  const [folderId, setFolderId] = useState<number | undefined>(undefined);
+
+  const { data: result, isLoading, error } = useQuery({
+    queryKey: ["/api/shared", shareLink, accessToken, folderId],
+    queryFn: () => getSharedFile(shareLink, accessToken, folderId),
+    retry: false,
+  });
+
+  // Trade the password for an access token, which every later request carries
+  const handleUnlock = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+
+    try {
+      setIsUnlocking(true);
+      setUnlockError(null);
+      const { accessToken } = await unlockSharedFile(shareLink, password);
+      setAccessToken(accessToken);
+      setPassword("");
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : "The link could not be unlocked.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const renderMessage = (icon: JSX.Element, title: string, description: string) => (
+    <Card className="w-full max-w-md mx-4">
+      <CardContent className="pt-6">
+        <div className="flex mb-4 gap-2 items-center">
+          {icon}
+          <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+        </div>
+        <p className="mt-4 text-sm text-gray-600">{description}</p>
+      </CardContent>
+    </Card>
+  );
+
+  // One folder of a shared tree: the way back up, its subfolders and its files
+  const renderFolder = (listing: SharedFolderListing, linkDetails: string) => (
+    <Card className="w-full max-w-2xl mx-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 break-all">
+          <FolderIcon className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+          {listing.folder.name}
+        </CardTitle>
+        <CardDescription>
+          {listing.folders.length + listing.files.length} {listing.folders.length + listing.files.length === 1 ? "item" : "items"}
+          {linkDetails && ` · ${linkDetails}`}
+        </CardDescription>
+        {listing.path.length > 1 && (
+          <nav className="flex flex-wrap items-center text-sm text-gray-500 pt-2">
+            {listing.path.map((ancestor, index) => (
+              <span key={ancestor.id} className="flex items-center">
+                {index > 0 && <ChevronRight className="h-4 w-4 mx-1" />}
+                {index < listing.path.length - 1 ? (
+                  <button className="hover:text-gray-900 hover:underline" onClick={() => setFolderId(ancestor.id)}>
+                    {ancestor.name}
+                  </button>
+                ) : (
+                  <span className="text-gray-900">{ancestor.name}</span>
+                )}
+              </span>
+            ))}
+          </nav>
+        )}
+      </CardHeader>
+      <CardContent>
+        {listing.folders.length + listing.files.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">This folder is empty.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border rounded-lg">
+            {listing.folders.map((subfolder) => (
+              <li key={`folder-${subfolder.id}`}>
+                <button
+                  className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50"
+                  onClick={() => setFolderId(subfolder.id)}
+                >
+                  <FolderIcon className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+                  <span className="text-sm font-medium text-gray-900 truncate">{subfolder.name}</span>
+                </button>
+              </li>
+            ))}
+            {listing.files.map((entry) => (
+              <li key={`file-${entry.id}`} className="flex items-center gap-3 px-4 py-3">
+                {entry.isEncrypted
+                  ? <Lock className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  : <FileText className="h-5 w-5 text-gray-400 flex-shrink-0" />}
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900 truncate">{entry.fileName}</p>
+                  <p className="text-xs text-gray-500">{formatBytes(entry.fileSize)}</p>
+                </div>
+                <Button variant="ghost" size="icon" asChild>
+                  <a href={getSharedFileUrl(shareLink, accessToken, { fileId: entry.id })} download={entry.fileName} title="Download">
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+      <CardFooter className="justify-end">
+        <Button asChild>
+          <a href={getSharedFileUrl(shareLink, accessToken, { folderId: listing.folder.id })} download={`${listing.folder.name}.zip`}>
+            <Download className="h-4 w-4 mr-2" />
+            Download all
+          </a>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>;
+    }
+
+    if (error || !result) {
+      return renderMessage(<AlertCircle className="h-8 w-8 text-red-500" />, "Something went wrong", "The shared file could not be loaded. Please try again later.");
+    }
+
+    if (result.status === "not-found") {
+      return renderMessage(<AlertCircle className="h-8 w-8 text-red-500" />, "Link not found", "This share link doesn't exist, or the file was removed.");
+    }
+
+    if (result.status === "expired") {
+      return renderMessage(<Clock className="h-8 w-8 text-amber-500" />, "Link expired", "This share link has expired. Ask the owner for a new one.");
+    }
+
+    if (result.status === "exhausted") {
+      return renderMessage(<Ban className="h-8 w-8 text-amber-500" />, "Link used up", "This share link has reached its download limit. Ask the owner for a new one.");
+    }
+
+    if (result.status === "password-required") {
+      return (
+        <Card className="w-full max-w-md mx-4">
+          <form onSubmit={handleUnlock}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Password required
+              </CardTitle>
+              <CardDescription>Enter the password you were given to open this file.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Input
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+              />
+              {unlockError && <p className="mt-2 text-sm text-red-600">{unlockError}</p>}
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={isUnlocking || !password}>
+                {isUnlocking ? "Unlocking..." : "Unlock"}
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      );
+    }
+
+    const { file, folder, expiryDate, downloadsLeft } = result.info;
+    const linkDetails = [
+      expiryDate && `Link expires ${new Date(expiryDate).toLocaleDateString()}`,
+      downloadsLeft !== null && `${downloadsLeft} download${downloadsLeft === 1 ? "" : "s"} left`,
+    ].filter(Boolean).join(" · ");
+
+    if (folder) {
+      return renderFolder(folder, linkDetails);
+    }
+    if (!file) {
+      return renderMessage(<AlertCircle className="h-8 w-8 text-red-500" />, "Link not found", "This share link doesn't exist, or the file was removed.");
+    }
+
+    const previewUrl = getSharedFileUrl(shareLink, accessToken, { inline: true });
+    const ext = file.fileName.toLowerCase().split('.').pop() || '';
+
+    // Ciphertext can't be previewed; the recipient decrypts it with the passphrase after downloading
+    const renderPreview = () => {
+      if (file.isEncrypted) {
+        return (
+          <div className="text-center">
+            <Lock className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">This file is encrypted. Preview is not available.</p>
+          </div>
+        );
+      }
+      // Loading a preview counts as a download, so a limited link saves its downloads for the button
+      if (downloadsLeft !== null) {
+        return (
+          <div className="text-center">
+            <FileText className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">This link has a download limit, so there is no preview.</p>
+          </div>
+        );
+      }
+      if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext)) {
+        return <img src={previewUrl} alt={file.fileName} className="max-h-full max-w-full object-contain" />;
+      }
+      if (['mp4', 'webm'].includes(ext)) {
+        return (
+          <video controls className="max-h-full max-w-full">
+            <source src={previewUrl} type={`video/${ext}`} />
+            Your browser does not support the video tag.
+          </video>
+        );
+      }
+      if (['mp3', 'wav', 'ogg'].includes(ext)) {
+        return (
+          <audio controls className="w-full px-4">
+            <source src={previewUrl} type={ext === 'mp3' ? 'audio/mpeg' : `audio/${ext}`} />
+            Your browser does not support the audio element.
+          </audio>
+        );
+      }
+      return (
+        <div className="text-center">
+          <FileText className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">Preview not available. Download the file to view it.</p>
+        </div>
+      );
+    };
+
+    return (
+      <Card className="w-full max-w-2xl mx-4">
+        <CardHeader>
+          <CardTitle className="break-all">{file.fileName}</CardTitle>
+          <CardDescription>
+            {formatBytes(file.fileSize)}
+            {linkDetails && ` · ${linkDetails}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="bg-gray-50 rounded-lg h-80 flex items-center justify-center overflow-hidden">
+            {renderPreview()}
+          </div>
+        </CardContent>
+        <CardFooter className="justify-end">
+          <Button asChild>
+            <a href={getSharedFileUrl(shareLink, accessToken)} download={file.fileName}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </a>
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      {renderContent()}
+    </div>
+  );
+}
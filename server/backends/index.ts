@@ -0,0 +1,55 @@
+import { storage } from '../storage';
+import { encryptionService } from '../services/encryption.service';
+import { type File } from '@shared/schema';
+import { type BlobBackend, type BlobRef, type StoredBlob } from './types';
+import { TelegramBackend } from './telegram.backend';
+import { LocalDiskBackend } from './local-disk.backend';
+
+export type { BlobBackend, BlobRef, ChunkRef, PutOptions, StoredBlob } from './types';
+
+// STORAGE_BACKEND picks where payloads go: "telegram" (the default) or "local".
+// LOCAL_STORAGE_DIR sets the directory for the local backend.
+// Switching backends does not move existing files, so pick one per deployment.
+const createBlobBackend = (): BlobBackend => {
+  const backend = process.env.STORAGE_BACKEND || 'telegram';
+
+  switch (backend) {
+    case 'telegram':
+      return new TelegramBackend();
+    case 'local':
+      return new LocalDiskBackend(process.env.LOCAL_STORAGE_DIR || './local_storage');
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}"; expected telegram or local`);
+  }
+};
+
+// Export singleton instance
+export const blobBackend = createBlobBackend();
+
+/**
+ * Find where a file's payload is stored
+ * @param file The file
+ */
+export const getFileBlobRef = async (file: File): Promise<BlobRef> => ({
+  messageId: file.telegramMessageId,
+  channelId: file.channelId,
+  chunks: await storage.getFileChunks(file.id),
+  encryption: encryptionService.getFileEncryption(file),
+});
+
+/**
+ * Refer to a payload that was just stored, before any file row points at it
+ * @param stored What the backend reported
+ */
+export const getStoredBlobRef = (stored: StoredBlob): BlobRef => ({
+  messageId: stored.messageId,
+  channelId: stored.channelId,
+  chunks: (stored.chunks ?? []).map((chunk, index) => ({
+    chunkIndex: index,
+    telegramMessageId: chunk.messageId,
+    channelId: stored.channelId,
+    size: chunk.size,
+    checksum: chunk.checksum,
+  })),
+  encryption: stored.encryption ?? null,
+});
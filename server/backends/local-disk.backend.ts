@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { encryptionService, type PayloadEncryption } from '../services/encryption.service';
+import { type BlobBackend, type BlobRef, type PutOptions, type StoredBlob } from './types';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// Stands in for the Telegram channel ID on files kept on local disk
+export const LOCAL_CHANNEL_ID = 'local';
+
+/**
+ * Keeps payloads as files in a local directory, one file per payload named by a random ID
+ * Needs no network, so development and CI can run the whole file flow without Telegram.
+ */
+export class LocalDiskBackend implements BlobBackend {
+  readonly name = 'local';
+  private tempDir: string = path.join(os.tmpdir(), 'telestore_temp');
+
+  constructor(private rootDir: string) {}
+
+  async initialize(): Promise<void> {
+    await fs.promises.mkdir(this.rootDir, { recursive: true });
+    await fs.promises.mkdir(this.tempDir, { recursive: true });
+    logger.info(`Storing files on local disk in ${path.resolve(this.rootDir)}`);
+  }
+
+  async put(filePath: string, fileName: string, options: PutOptions = {}): Promise<StoredBlob> {
+    await this.initialize();
+
+    const id = uuidv4();
+    const blobPath = this.getBlobPath(id);
+    // Write under a temporary name so a crash never leaves a half-written payload behind
+    const partialPath = `${blobPath}.partial`;
+
+    try {
+      let encryption: PayloadEncryption | undefined;
+      if (encryptionService.isEnabled()) {
+        const { dataKey, encryption: fileEncryption } = encryptionService.createDataKey();
+        await encryptionService.encryptFile(filePath, partialPath, dataKey, fileEncryption);
+        encryption = fileEncryption;
+      } else {
+        await fs.promises.copyFile(filePath, partialPath);
+      }
+      // Nothing to take back from a local copy, so a cancelled put just isn't kept
+      options.signal?.throwIfAborted();
+      await fs.promises.rename(partialPath, blobPath);
+
+      // A local copy is quick, so progress is only reported once it is done
+      const { size } = await fs.promises.stat(blobPath);
+      options.onProgress?.(size, size);
+
+      logger.info(`Stored ${fileName} as ${id}`);
+      return { messageId: id, channelId: LOCAL_CHANNEL_ID, fileId: id, encryption };
+    } catch (error) {
+      await fs.promises.rm(partialPath, { force: true });
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to store file on local disk: ${errorMessage}`);
+    }
+  }
+
+  async canReuse(channelId: string): Promise<boolean> {
+    return channelId === LOCAL_CHANNEL_ID;
+  }
+
+  async get(ref: BlobRef): Promise<string> {
+    const blobPath = this.getBlobPath(ref.messageId);
+    const outputPath = path.join(this.tempDir, `local-${ref.messageId}`);
+    await fs.promises.mkdir(this.tempDir, { recursive: true });
+
+    try {
+      if (ref.encryption) {
+        await encryptionService.decryptFile(blobPath, outputPath, ref.encryption);
+      } else {
+        await fs.promises.copyFile(blobPath, outputPath);
+      }
+    } catch (error) {
+      await fs.promises.rm(outputPath, { force: true });
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read file ${ref.messageId} from local disk: ${errorMessage}`);
+    }
+    return outputPath;
+  }
+
+  async stream(ref: BlobRef, start: number, end: number): Promise<Readable> {
+    const blobPath = this.getBlobPath(ref.messageId);
+    const { size } = await fs.promises.stat(blobPath);
+
+    if (ref.encryption) {
+      // Read the whole records covering the range and decrypt them on the way out
+      const encryptedRange = encryptionService.getEncryptedRange(start, end, size);
+      const decrypt = encryptionService.createDecryptStream(ref.encryption, size, start, end);
+      return Readable.from(decrypt(fs.createReadStream(blobPath, encryptedRange)));
+    }
+
+    return fs.createReadStream(blobPath, { start, end });
+  }
+
+  async delete(ref: BlobRef): Promise<void> {
+    await fs.promises.rm(this.getBlobPath(ref.messageId), { force: true });
+  }
+
+  async stat(ref: BlobRef): Promise<{ size: number } | null> {
+    try {
+      const { size } = await fs.promises.stat(this.getBlobPath(ref.messageId));
+      return { size: ref.encryption ? encryptionService.getPlaintextSize(size) : size };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Path of a stored payload; IDs are checked so a bad row can't point outside the storage directory
+   * @param id Payload ID
+   */
+  private getBlobPath(id: string): string {
+    if (!/^[0-9a-f-]{36}$/.test(id)) {
+      throw new Error(`Invalid local file ID: ${id}`);
+    }
+    return path.join(this.rootDir, id);
+  }
+}
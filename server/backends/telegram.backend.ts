@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { telegramService } from '../services/telegram.service';
+import { encryptionService } from '../services/encryption.service';
+import { channelService } from '../services/channel.service';
+import { type BlobBackend, type BlobRef, type PutOptions, type StoredBlob } from './types';
+
+/**
+ * Keeps payloads as documents in a pool of Telegram channels, picked by channelService
+ */
+export class TelegramBackend implements BlobBackend {
+  readonly name = 'telegram';
+
+  async initialize(): Promise<void> {
+    await telegramService.initialize();
+  }
+
+  async put(filePath: string, fileName: string, options: PutOptions = {}): Promise<StoredBlob> {
+    const size = fs.statSync(filePath).size;
+    const channelId = await channelService.selectChannel(options.userId ?? null, size);
+
+    const result = await telegramService.sendFile(filePath, fileName, channelId, options.onProgress, options.signal);
+    channelService.recordUsage(channelId, size);
+    return result;
+  }
+
+  async canReuse(channelId: string, userId?: number): Promise<boolean> {
+    return channelService.isChannelFor(userId ?? null, channelId);
+  }
+
+  async get(ref: BlobRef): Promise<string> {
+    // The message ID is unique in the channel, so it names the temporary copy
+    return telegramService.downloadFile(ref.messageId, ref.channelId, parseInt(ref.messageId), ref.chunks, ref.encryption);
+  }
+
+  async stream(ref: BlobRef, start: number, end: number): Promise<Readable> {
+    return telegramService.streamFile(ref.messageId, ref.channelId, start, end, ref.chunks, ref.encryption);
+  }
+
+  async delete(ref: BlobRef): Promise<void> {
+    // Split files live in one message per chunk
+    const messagesByChannel = new Map<string, string[]>();
+    if (ref.chunks.length > 0) {
+      for (const chunk of ref.chunks) {
+        messagesByChannel.set(chunk.channelId, [...(messagesByChannel.get(chunk.channelId) ?? []), chunk.telegramMessageId]);
+      }
+    } else {
+      messagesByChannel.set(ref.channelId, [ref.messageId]);
+    }
+
+    for (const [channelId, messageIds] of Array.from(messagesByChannel.entries())) {
+      await telegramService.deleteMessages(messageIds, channelId);
+    }
+  }
+
+  async stat(ref: BlobRef): Promise<{ size: number } | null> {
+    const storedSize = await telegramService.getStoredSize(ref.messageId, ref.channelId, ref.chunks);
+    if (storedSize === null) {
+      return null;
+    }
+    return { size: ref.encryption ? encryptionService.getPlaintextSize(storedSize) : storedSize };
+  }
+}
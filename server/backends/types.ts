@@ -0,0 +1,86 @@
+import { type Readable } from 'stream';
+import { type FileChunk } from '@shared/schema';
+import { type PayloadEncryption } from '../services/encryption.service';
+import { type SentChunk } from '../services/telegram.service';
+
+// One piece of a payload split across several stored objects, as kept in the chunk manifest
+export type ChunkRef = Pick<FileChunk, 'chunkIndex' | 'telegramMessageId' | 'channelId' | 'size' | 'checksum'>;
+
+// Where a stored payload lives; file rows keep these in their Telegram-named columns whatever the backend
+export interface BlobRef {
+  messageId: string;
+  channelId: string;
+  chunks: ChunkRef[];
+  encryption: PayloadEncryption | null; // At-rest encryption of the payload, if any
+}
+
+// What a backend reports once it has stored a payload
+export interface StoredBlob {
+  messageId: string;
+  channelId: string;
+  fileId?: string;
+  mimeType?: string;
+  chunks?: SentChunk[]; // Set when the payload was split across several objects
+  encryption?: PayloadEncryption; // Set when the payload was encrypted at rest
+}
+
+// Who a payload is stored for, so backends can place it, who wants to hear how far it got,
+// and a way to call it off
+export interface PutOptions {
+  userId?: number;
+  onProgress?: (storedBytes: number, totalBytes: number) => void; // Stored bytes of the payload as the backend keeps it
+  signal?: AbortSignal; // Cancels the put; nothing of the payload is left stored
+}
+
+/**
+ * A place to keep file payloads
+ * All sizes and byte ranges are in plaintext bytes; backends deal with at-rest encryption themselves.
+ */
+export interface BlobBackend {
+  readonly name: string;
+
+  /**
+   * Prepare the backend; called once at startup
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Store a file
+   * @param filePath Path to the file to store
+   * @param fileName Original name of the file
+   * @param options Who the file is stored for, a progress callback and a cancellation signal
+   */
+  put(filePath: string, fileName: string, options?: PutOptions): Promise<StoredBlob>;
+
+  /**
+   * Whether a payload already stored in a channel may back a new file of a user
+   * Only payloads where the user's own uploads would go qualify, so no file depends on someone else's channel.
+   * @param channelId Channel of the stored payload
+   * @param userId Owner of the new file
+   */
+  canReuse(channelId: string, userId?: number): Promise<boolean>;
+
+  /**
+   * Fetch a whole payload to local disk
+   * @returns Path to a temporary plaintext copy, which the caller may remove
+   */
+  get(ref: BlobRef): Promise<string>;
+
+  /**
+   * Stream a byte range of a payload
+   * @param start First byte to read
+   * @param end Last byte to read (inclusive)
+   */
+  stream(ref: BlobRef, start: number, end: number): Promise<Readable>;
+
+  /**
+   * Remove a payload and all of its chunks
+   */
+  delete(ref: BlobRef): Promise<void>;
+
+  /**
+   * Look up a payload's size
+   * @returns null when the payload no longer exists
+   */
+  stat(ref: BlobRef): Promise<{ size: number } | null>;
+}
@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import { type User } from '@shared/schema';
+import { janitorService } from '../services/janitor.service';
+
+// Admins are listed by email in ADMIN_EMAILS, comma-separated
+const isAdmin = (user: User): boolean => {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(user.email.toLowerCase());
+};
+
+// Endpoints for running the server rather than using it
+export const adminController = {
+  /**
+   * Get the temp file janitor's view of the disk: temp directories, TDLib's file cache and what was removed
+   */
+  getTempFileStats: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+      if (!isAdmin(req.user)) {
+        return res.status(403).json({ message: 'Admins only' });
+      }
+
+      const stats = await janitorService.getStats();
+
+      return res.status(200).json(stats);
+    } catch (error) {
+      console.error('Get temp file stats error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get temp file stats', error: errorMessage });
+    }
+  },
+};
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
 import { firebaseService } from '../services/firebase.service';
+import { telegramService } from '../services/telegram.service';
+import { channelService } from '../services/channel.service';
+import { blobBackend } from '../backends';
 import { z } from 'zod';
 
 // Validation schemas
@@ -14,6 +17,18 @@ const registerSchema = z.object({
   photoURL: z.string().optional(),
 });
 
+const channelIdSchema = z.string().trim().regex(/^-100\d+$/, 'Expected a channel ID like -1001234567890');
+
+const settingsSchema = z.object({
+  trashRetentionDays: z.number().int().min(1).max(365).optional(),
+  // A channel of the user's own (its chat ID), or null to go back to the shared pool
+  telegramChannelId: channelIdSchema.nullable().optional(),
+});
+
+const channelVerificationSchema = z.object({
+  telegramChannelId: channelIdSchema,
+});
+
 export const authController = {
   /**
    * Login a user with Firebase ID token
@@ -118,4 +133,98 @@ export const authController = {
       return res.status(500).json({ message: 'Failed to get user data', error: error.message });
     }
   },
+  
+  /**
+   * Update the current user's settings
+   */
+  updateSettings: async (req: Request, res: Response) => {
+    try {
+      const user = req.user;
+      
+      if (!user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+      
+      // Validate request
+      const validatedData = settingsSchema.parse(req.body);
+
+      // Files only go to a user's channel once every storage account can post there
+      // and the user has shown the channel is theirs
+      const channelId = validatedData.telegramChannelId;
+      if (channelId && channelId !== user.telegramChannelId) {
+        if (blobBackend.name !== 'telegram') {
+          return res.status(400).json({ message: 'Files are not stored on Telegram on this server' });
+        }
+        if (channelService.isPoolChannel(channelId)) {
+          return res.status(400).json({ message: 'Shared storage channels cannot be used as your own' });
+        }
+
+        const verification = channelService.getVerification(user.id, channelId);
+        if (!verification) {
+          return res.status(400).json({ message: 'Request a verification code for this channel first' });
+        }
+        try {
+          await telegramService.verifyChannel(channelId, verification.code);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          return res.status(400).json({ message: 'Telegram channel could not be verified', error: errorMessage });
+        }
+        channelService.clearVerification(user.id);
+      }
+      
+      await storage.updateUserSettings(user.id, validatedData);
+      
+      // Get user with storage info
+      const userWithStorage = await storage.getUserWithStorageInfo(user.id);
+      
+      return res.status(200).json(userWithStorage);
+    } catch (error) {
+      console.error('Update settings error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to update settings', error: errorMessage });
+    }
+  },
+
+  /**
+   * Start setting up the user's own Telegram channel
+   * Returns a one-time code the user posts in the channel; saving the channel in the settings
+   * then checks it is there.
+   */
+  startChannelVerification: async (req: Request, res: Response) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Validate request
+      const { telegramChannelId } = channelVerificationSchema.parse(req.body);
+
+      if (blobBackend.name !== 'telegram') {
+        return res.status(400).json({ message: 'Files are not stored on Telegram on this server' });
+      }
+      if (channelService.isPoolChannel(telegramChannelId)) {
+        return res.status(400).json({ message: 'Shared storage channels cannot be used as your own' });
+      }
+
+      const verification = channelService.createVerification(user.id, telegramChannelId);
+
+      return res.status(201).json(verification);
+    } catch (error) {
+      console.error('Start channel verification error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to start channel verification', error: errorMessage });
+    }
+  },
 };
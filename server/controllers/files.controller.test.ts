@@ -0,0 +1,662 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import express from 'express';
+import multer from 'multer';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { once } from 'events';
+import { randomBytes } from 'crypto';
+import { type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { type File, type UploadJob, type User } from '@shared/schema';
+import { setTDLibClient } from '../tdlib';
+import { FakeTDLibClient } from '../tdlib/fake';
+import { storage } from '../storage';
+import { blobBackend } from '../backends';
+import { jobService } from '../services/job.service';
+import { uploadService } from '../services/upload.service';
+import { filesController } from './files.controller';
+import { jobsController } from './jobs.controller';
+
+const CHANNEL_ID = process.env.TELEGRAM_CHANNEL_ID!;
+const CHUNK_SIZE = parseInt(process.env.TELEGRAM_CHUNK_SIZE!);
+
+const fake = new FakeTDLibClient();
+let uploadDir: string;
+let server: Server;
+let baseUrl: string;
+let user: User;
+
+const getUsedStorage = async (): Promise<number> => (await storage.getUser(user.id))?.usedStorage ?? 0;
+
+const upload = async (fileName: string, data: Buffer, headers: Record<string, string> = {}): Promise<Response> => {
+  const form = new FormData();
+  form.append('file', new Blob([data]), fileName);
+  return fetch(`${baseUrl}/api/files/upload`, { method: 'POST', body: form, headers });
+};
+
+// Resolve once a job is over, whether that already happened or is still to come
+const waitForJob = (jobId: string): Promise<UploadJob> => new Promise((resolve) => {
+  const check = (job: UploadJob | undefined) => {
+    if (job?.id === jobId && (job.status === 'done' || job.status === 'failed' || job.status === 'cancelled')) {
+      stopListening();
+      resolve(job);
+    }
+  };
+  const stopListening = jobService.onUpdate(check);
+  jobService.getJob(jobId).then(check);
+});
+
+// Upload a file and wait until its job has stored it
+const uploadAndStore = async (fileName: string, data: Buffer, headers: Record<string, string> = {}): Promise<File> => {
+  const response = await upload(fileName, data, headers);
+  expect(response.status).toBe(202);
+
+  const job = await waitForJob((await response.json()).id);
+  expect(job).toMatchObject({ status: 'done', error: null });
+  return (await storage.getFile(job.storedFileId!))!;
+};
+
+const postJson = (url: string, body: unknown, method: string = 'POST'): Promise<Response> =>
+  fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+describe('filesController', () => {
+  beforeAll(async () => {
+    setTDLibClient(fake);
+    uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'files-controller-test-'));
+    user = await storage.createUser({ uid: 'test-uid', email: 'test@example.com', displayName: 'Test User' });
+
+    const app = express();
+    app.use(express.json());
+    // Stands in for the Firebase auth middleware; X-Test-User signs in as someone else
+    app.use(async (req, _res, next) => {
+      const otherUserId = req.headers['x-test-user'];
+      req.user = (otherUserId ? await storage.getUser(Number(otherUserId)) : undefined) ?? user;
+      next();
+    });
+
+    const uploadMiddleware = multer({ dest: uploadDir });
+    app.get('/api/files', filesController.getUserFiles);
+    app.get('/api/files/shared', filesController.getIncomingSharedFiles);
+    app.get('/api/files/shared/outgoing', filesController.getOutgoingSharedFiles);
+    app.post('/api/files/save-temp', uploadMiddleware.single('file'), filesController.saveTempFile);
+    app.post('/api/files/upload', uploadMiddleware.single('file'), filesController.uploadFile);
+    app.get('/api/files/:id/download', filesController.downloadFile);
+    app.get('/api/files/:id/stream', filesController.streamFile);
+    app.delete('/api/files/:id/permanent', filesController.permanentlyDeleteFile);
+    app.post('/api/files/:id/share', filesController.shareFile);
+    app.post('/api/folders/:id/share', filesController.shareFolder);
+    app.post('/api/files/:id/permissions', filesController.shareWithUser);
+    app.delete('/api/files/:id/permissions/:permissionId', filesController.revokeFilePermission);
+    app.patch('/api/shared/:id', filesController.updateSharedLink);
+    app.get('/api/shared/:shareLink', filesController.getSharedFile);
+    app.post('/api/shared/:shareLink/unlock', filesController.unlockSharedFile);
+    app.get('/api/shared/:shareLink/download', filesController.downloadSharedFile);
+    app.get('/api/jobs/:id', jobsController.getJob);
+    app.delete('/api/jobs/:id', jobsController.cancelJob);
+
+    server = app.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    fake.reset();
+  });
+
+  afterAll(async () => {
+    server.close();
+    await fake.destroy();
+    fs.rmSync(uploadDir, { recursive: true, force: true });
+    fs.rmSync(fake.rootDir, { recursive: true, force: true });
+  });
+
+  it('uploads a file to Telegram, lists it and charges the quota', async () => {
+    const usedBefore = await getUsedStorage();
+    const data = randomBytes(20 * 1024);
+
+    const file = await uploadAndStore('report.pdf', data);
+    expect(file).toMatchObject({ fileName: 'report.pdf', fileType: 'document', fileSize: data.length });
+
+    expect(fake.getChatMessages(CHANNEL_ID)).toHaveLength(1);
+    expect(await getUsedStorage()).toBe(usedBefore + data.length);
+
+    const list = await (await fetch(`${baseUrl}/api/files`)).json();
+    expect(list.map((listed: { id: number }) => listed.id)).toContain(file.id);
+  });
+
+  it('downloads the bytes that were uploaded', async () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1000);
+    const file = await uploadAndStore('archive.zip', data);
+
+    const response = await fetch(`${baseUrl}/api/files/${file.id}/download`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-disposition')).toContain('attachment');
+    expect(Buffer.from(await response.arrayBuffer()).equals(data)).toBe(true);
+  });
+
+  it('answers Range requests across chunk boundaries', async () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1000);
+    const file = await uploadAndStore('movie.mp4', data);
+    const start = CHUNK_SIZE - 100;
+    const end = CHUNK_SIZE + 100;
+
+    const response = await fetch(`${baseUrl}/api/files/${file.id}/stream`, {
+      headers: { Range: `bytes=${start}-${end}` }
+    });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBe(`bytes ${start}-${end}/${data.length}`);
+    expect(response.headers.get('content-type')).toBe('video/mp4');
+    expect(Buffer.from(await response.arrayBuffer()).equals(data.subarray(start, end + 1))).toBe(true);
+  });
+
+  it('rejects ranges past the end of the file', async () => {
+    const data = randomBytes(1000);
+    const file = await uploadAndStore('small.txt', data);
+
+    const response = await fetch(`${baseUrl}/api/files/${file.id}/stream`, {
+      headers: { Range: 'bytes=5000-6000' }
+    });
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('content-range')).toBe(`bytes */${data.length}`);
+  });
+
+  it('downloads an empty file without asking storage for a byte range', async () => {
+    const file = await uploadAndStore('empty.txt', Buffer.alloc(0));
+    const stream = vi.spyOn(blobBackend, 'stream');
+
+    const response = await fetch(`${baseUrl}/api/files/${file.id}/download`);
+
+    expect(stream).not.toHaveBeenCalled();
+    stream.mockRestore();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-length')).toBe('0');
+    expect((await response.arrayBuffer()).byteLength).toBe(0);
+    expect((await fetch(`${baseUrl}/api/files/${file.id}/stream`, { headers: { Range: 'bytes=0-' } })).status).toBe(416);
+  });
+
+  it('stores identical content once and removes it with the last copy', async () => {
+    const usedBefore = await getUsedStorage();
+    const data = randomBytes(CHUNK_SIZE + 500);
+
+    const first = await uploadAndStore('photo.png', data);
+    const second = await uploadAndStore('photo-copy.png', data);
+
+    expect(second.id).not.toBe(first.id);
+    expect(second.telegramMessageId).toBe(first.telegramMessageId);
+    expect(fake.getChatMessages(CHANNEL_ID)).toHaveLength(2); // The two chunks of one payload
+    expect(await getUsedStorage()).toBe(usedBefore + data.length);
+
+    expect((await fetch(`${baseUrl}/api/files/${first.id}/permanent`, { method: 'DELETE' })).status).toBe(200);
+    expect(fake.getChatMessages(CHANNEL_ID)).toHaveLength(2);
+    expect(await getUsedStorage()).toBe(usedBefore + data.length);
+
+    const download = await fetch(`${baseUrl}/api/files/${second.id}/download`);
+    expect(Buffer.from(await download.arrayBuffer()).equals(data)).toBe(true);
+
+    expect((await fetch(`${baseUrl}/api/files/${second.id}/permanent`, { method: 'DELETE' })).status).toBe(200);
+    expect(fake.getChatMessages(CHANNEL_ID)).toEqual([]);
+    expect(await getUsedStorage()).toBe(usedBefore);
+  });
+
+  it('releases shared content once when purging a copy fails and is retried', async () => {
+    const data = randomBytes(500);
+    const first = await uploadAndStore('scan.pdf', data);
+    const second = await uploadAndStore('scan-copy.pdf', data);
+
+    const purge = vi.spyOn(storage, 'purgeFile').mockRejectedValueOnce(new Error('Connection lost'));
+    expect((await fetch(`${baseUrl}/api/files/${first.id}/permanent`, { method: 'DELETE' })).status).toBe(500);
+    expect((await fetch(`${baseUrl}/api/files/${first.id}/permanent`, { method: 'DELETE' })).status).toBe(200);
+    purge.mockRestore();
+
+    expect(fake.getChatMessages(CHANNEL_ID)).toHaveLength(1);
+    const download = await fetch(`${baseUrl}/api/files/${second.id}/download`);
+    expect(Buffer.from(await download.arrayBuffer()).equals(data)).toBe(true);
+  });
+
+  it('never points a file into a channel its owner\'s uploads don\'t go to', async () => {
+    const ownChannelId = '-1009000000001';
+    fake.addChat(ownChannelId);
+    const owner = await storage.createUser({ uid: 'channel-owner-uid', email: 'owner@example.com', displayName: null });
+    await storage.updateUserSettings(owner.id, { telegramChannelId: ownChannelId });
+    const asOwner = { 'X-Test-User': String(owner.id) };
+    const data = randomBytes(1000);
+
+    const pooled = await uploadAndStore('shared.bin', data);
+    const own = await uploadAndStore('shared.bin', data, asOwner);
+    expect(own.channelId).toBe(ownChannelId);
+    expect(fake.getChatMessages(ownChannelId)).toHaveLength(1);
+
+    // Nor the other way round: the pool keeps its own copy
+    const pooledAgain = await uploadAndStore('shared-again.bin', data);
+    expect(pooledAgain).toMatchObject({ channelId: CHANNEL_ID, telegramMessageId: pooled.telegramMessageId });
+
+    // Dropping the copy in the user's channel leaves the pool's alone
+    expect((await fetch(`${baseUrl}/api/files/${own.id}/permanent`, { method: 'DELETE', headers: asOwner })).status).toBe(200);
+    expect(fake.getChatMessages(ownChannelId)).toEqual([]);
+    const download = await fetch(`${baseUrl}/api/files/${pooled.id}/download`);
+    expect(Buffer.from(await download.arrayBuffer()).equals(data)).toBe(true);
+  });
+
+  it('answers before Telegram has the file and reports progress until it is stored', async () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1000);
+    const updates: UploadJob[] = [];
+    const stopListening = jobService.onUpdate(job => updates.push(job));
+
+    try {
+      const response = await upload('slides.pptx', data);
+      expect(response.status).toBe(202);
+      const queued = await response.json();
+      expect(queued).toMatchObject({ status: 'queued', fileName: 'slides.pptx', fileSize: data.length, bytesStored: 0 });
+
+      const job = await waitForJob(queued.id);
+      expect(job.storedFileId).not.toBeNull();
+      expect(job.bytesStored).toBe(data.length);
+      expect(fs.existsSync(job.filePath)).toBe(false);
+
+      const ownUpdates = updates.filter(update => update.id === queued.id);
+      expect(ownUpdates.map(update => update.status)).toEqual(expect.arrayContaining(['queued', 'uploading', 'done']));
+      // The chunks report as they go up, so some updates land between nothing and everything
+      const partial = ownUpdates.filter(update => update.bytesStored > 0 && update.bytesStored < data.length);
+      expect(partial.length).toBeGreaterThan(0);
+      expect(partial.every(update => update.status === 'uploading')).toBe(true);
+
+      const fetched = await (await fetch(`${baseUrl}/api/jobs/${queued.id}`)).json();
+      expect(fetched).toMatchObject({ id: queued.id, status: 'done', storedFileId: job.storedFileId });
+    } finally {
+      stopListening();
+    }
+  });
+
+  it('fails the job without charging the quota when Telegram refuses the file', async () => {
+    const usedBefore = await getUsedStorage();
+    fake.failNext('sendMessage');
+
+    const response = await upload('rejected.txt', randomBytes(1000));
+    expect(response.status).toBe(202);
+    const job = await waitForJob((await response.json()).id);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toContain('Failed to send file to Telegram');
+    expect(job.storedFileId).toBeNull();
+    expect(fs.existsSync(job.filePath)).toBe(false);
+    expect(await getUsedStorage()).toBe(usedBefore);
+  });
+
+  it('cancels a job mid-transfer, taking back what reached Telegram and charging nothing', async () => {
+    const usedBefore = await getUsedStorage();
+    const data = randomBytes(CHUNK_SIZE * 3);
+
+    // Cancel as soon as the first chunk is up
+    let cancelled = false;
+    const stopListening = jobService.onUpdate((job) => {
+      if (!cancelled && job.status === 'uploading' && job.bytesStored > 0) {
+        cancelled = true;
+        jobService.cancel(job.id);
+      }
+    });
+
+    try {
+      const response = await upload('cancelled.bin', data);
+      expect(response.status).toBe(202);
+      const job = await waitForJob((await response.json()).id);
+
+      expect(job).toMatchObject({ status: 'cancelled', storedFileId: null, bytesStored: 0 });
+      expect(fs.existsSync(job.filePath)).toBe(false);
+      expect(fake.getChatMessages(CHANNEL_ID)).toEqual([]);
+      expect(await getUsedStorage()).toBe(usedBefore);
+    } finally {
+      stopListening();
+    }
+  });
+
+  it('refuses to cancel a job that has already stored its file', async () => {
+    const response = await upload('kept.txt', randomBytes(1000));
+    const job = await waitForJob((await response.json()).id);
+
+    const cancelResponse = await fetch(`${baseUrl}/api/jobs/${job.id}`, { method: 'DELETE' });
+
+    expect(cancelResponse.status).toBe(409);
+    expect(fake.getChatMessages(CHANNEL_ID)).toHaveLength(1);
+  });
+
+  it('uploads a file saved ahead of time by its token, keeping its name and type', async () => {
+    const form = new FormData();
+    form.append('file', new Blob([randomBytes(1000)], { type: 'text/csv' }), 'figures.csv');
+    const saved = await (await fetch(`${baseUrl}/api/files/save-temp`, { method: 'POST', body: form })).json();
+    expect(saved.tempPath).toBeUndefined();
+
+    const uploadWithToken = () => {
+      const tokenForm = new FormData();
+      tokenForm.append('tempToken', saved.tempToken);
+      return fetch(`${baseUrl}/api/files/upload`, { method: 'POST', body: tokenForm });
+    };
+    const response = await uploadWithToken();
+    expect(response.status).toBe(202);
+    const job = await waitForJob((await response.json()).id);
+
+    expect(job).toMatchObject({ status: 'done', fileName: 'figures.csv', mimeType: 'text/csv' });
+    // A token is good for one upload
+    expect((await uploadWithToken()).status).toBe(400);
+  });
+
+  it('refuses server paths and temp tokens that are not the user\'s', async () => {
+    const secretPath = path.join(uploadDir, 'secret.txt');
+    fs.writeFileSync(secretPath, 'not for Telegram');
+    const { token: otherUsersToken } = uploadService.holdFile(user.id + 1, {
+      filePath: secretPath,
+      originalName: 'secret.txt',
+      mimeType: 'text/plain',
+      size: 16,
+    });
+
+    try {
+      for (const [field, value] of [['tempPath', secretPath], ['tempToken', otherUsersToken], ['tempToken', 'made-up']]) {
+        const form = new FormData();
+        form.append(field, value);
+
+        const response = await fetch(`${baseUrl}/api/files/upload`, { method: 'POST', body: form });
+        expect(response.status).toBe(400);
+      }
+      expect(fake.getChatMessages(CHANNEL_ID)).toEqual([]);
+    } finally {
+      fs.rmSync(secretPath, { force: true });
+    }
+  });
+
+  it('opens a password-protected share link only with the access token from an unlock', async () => {
+    const file = await uploadAndStore('private.pdf', randomBytes(1000));
+    const share = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { password: 'open sesame' })).json();
+    expect(share.hasPassword).toBe(true);
+
+    const locked = await fetch(`${baseUrl}/api/shared/${share.shareLink}`);
+    expect(locked.status).toBe(401);
+    expect((await locked.json()).passwordRequired).toBe(true);
+
+    expect((await postJson(`${baseUrl}/api/shared/${share.shareLink}/unlock`, { password: 'guess' })).status).toBe(401);
+    const unlock = await postJson(`${baseUrl}/api/shared/${share.shareLink}/unlock`, { password: 'open sesame' });
+    expect(unlock.status).toBe(200);
+    const { accessToken } = await unlock.json();
+
+    const unlocked = await fetch(`${baseUrl}/api/shared/${share.shareLink}`, { headers: { 'X-Share-Token': accessToken } });
+    expect(unlocked.status).toBe(200);
+    expect((await unlocked.json()).file.id).toBe(file.id);
+
+    // Changing the password locks out everyone who unlocked the link before
+    await postJson(`${baseUrl}/api/shared/${share.id}`, { password: 'new secret' }, 'PATCH');
+    expect((await fetch(`${baseUrl}/api/shared/${share.shareLink}?accessToken=${accessToken}`)).status).toBe(401);
+
+    const cleared = await (await postJson(`${baseUrl}/api/shared/${share.id}`, { password: null }, 'PATCH')).json();
+    expect(cleared.hasPassword).toBe(false);
+    expect((await fetch(`${baseUrl}/api/shared/${share.shareLink}`)).status).toBe(200);
+  });
+
+  it('hands a shared file to anyone with the link, but nothing about where it is stored', async () => {
+    const data = randomBytes(CHUNK_SIZE + 1000);
+    const file = await uploadAndStore('deliverable.zip', data);
+    const share = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { expiryDays: 7 })).json();
+
+    const info = await (await fetch(`${baseUrl}/api/shared/${share.shareLink}`)).json();
+    expect(info.file).toMatchObject({ id: file.id, fileName: 'deliverable.zip', fileSize: data.length });
+    expect(info.file.telegramMessageId).toBeUndefined();
+    expect(info.file.channelId).toBeUndefined();
+
+    const download = await fetch(`${baseUrl}/api/shared/${share.shareLink}/download`);
+    expect(download.status).toBe(200);
+    expect(download.headers.get('content-disposition')).toContain('attachment');
+    expect(Buffer.from(await download.arrayBuffer()).equals(data)).toBe(true);
+
+    const range = await fetch(`${baseUrl}/api/shared/${share.shareLink}/download?inline=1`, { headers: { Range: 'bytes=10-19' } });
+    expect(range.status).toBe(206);
+    expect(Buffer.from(await range.arrayBuffer()).equals(data.subarray(10, 20))).toBe(true);
+  });
+
+  it('refuses to deliver files behind expired or locked share links', async () => {
+    const file = await uploadAndStore('old-news.txt', randomBytes(1000));
+    const expired = await storage.createSharedFile({
+      fileId: file.id,
+      shareLink: 'expired-link',
+      expiryDate: new Date(Date.now() - 1000),
+    });
+    const locked = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { password: 'letmein' })).json();
+
+    expect((await fetch(`${baseUrl}/api/shared/${expired.shareLink}/download`)).status).toBe(403);
+    expect((await fetch(`${baseUrl}/api/shared/${locked.shareLink}/download`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/api/shared/no-such-link/download`)).status).toBe(404);
+  });
+
+  it('retires a share link once it has been downloaded as often as it allows', async () => {
+    const file = await uploadAndStore('once-only.txt', randomBytes(1000));
+    const oneTime = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { burnAfterDownload: true })).json();
+    const limited = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { maxDownloads: 2 })).json();
+    expect(oneTime).toMatchObject({ maxDownloads: 1, downloadCount: 0 });
+
+    expect((await (await fetch(`${baseUrl}/api/shared/${oneTime.shareLink}`)).json()).downloadsLeft).toBe(1);
+    expect((await fetch(`${baseUrl}/api/shared/${oneTime.shareLink}/download`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/shared/${oneTime.shareLink}/download`)).status).toBe(410);
+    const exhausted = await fetch(`${baseUrl}/api/shared/${oneTime.shareLink}`);
+    expect(exhausted.status).toBe(410);
+    expect((await exhausted.json()).exhausted).toBe(true);
+
+    for (let download = 0; download < 2; download++) {
+      expect((await fetch(`${baseUrl}/api/shared/${limited.shareLink}/download`)).status).toBe(200);
+    }
+    expect((await fetch(`${baseUrl}/api/shared/${limited.shareLink}/download`)).status).toBe(410);
+  });
+
+  it('counts a download resumed in ranges once, and never a range it can\'t serve', async () => {
+    const data = randomBytes(1000);
+    const file = await uploadAndStore('handover.pdf', data);
+    const oneTime = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { burnAfterDownload: true })).json();
+    const downloadUrl = `${baseUrl}/api/shared/${oneTime.shareLink}/download`;
+
+    expect((await fetch(downloadUrl, { headers: { Range: 'bytes=5000-' } })).status).toBe(416);
+
+    // A browser that drops the connection partway picks up where it stopped
+    const first = await fetch(downloadUrl, { headers: { Range: 'bytes=0-' } });
+    expect(first.status).toBe(206);
+    await first.arrayBuffer();
+    const resumed = await fetch(downloadUrl, { headers: { Range: 'bytes=600-' } });
+    expect(resumed.status).toBe(206);
+    expect(Buffer.from(await resumed.arrayBuffer()).equals(data.subarray(600))).toBe(true);
+
+    // Starting over is another download, which the link no longer has
+    expect((await fetch(downloadUrl)).status).toBe(410);
+    expect((await fetch(downloadUrl, { headers: { Range: 'bytes=0-' } })).status).toBe(410);
+  });
+
+  it('counts a range that doesn\'t continue an earlier download', async () => {
+    const file = await uploadAndStore('partial.bin', randomBytes(1000));
+    const oneTime = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { burnAfterDownload: true })).json();
+    const downloadUrl = `${baseUrl}/api/shared/${oneTime.shareLink}/download`;
+
+    expect((await fetch(downloadUrl, { headers: { Range: 'bytes=1-' } })).status).toBe(206);
+    expect((await fetch(downloadUrl, { headers: { Range: 'bytes=0-0' } })).status).toBe(410);
+  });
+
+  it('lets the people a file is shared with download it until access is revoked', async () => {
+    const data = randomBytes(1000);
+    const file = await uploadAndStore('team-notes.md', data);
+    const friend = await storage.createUser({ uid: 'friend-uid', email: 'friend@example.com', displayName: 'Friend' });
+    const stranger = await storage.createUser({ uid: 'stranger-uid', email: 'stranger@example.com', displayName: null });
+    const asFriend = { headers: { 'X-Test-User': String(friend.id) } };
+
+    expect((await fetch(`${baseUrl}/api/files/${file.id}/download`, asFriend)).status).toBe(403);
+
+    const grantResponse = await postJson(`${baseUrl}/api/files/${file.id}/permissions`, { email: 'friend@example.com' });
+    expect(grantResponse.status).toBe(201);
+    const grant = await grantResponse.json();
+    expect(grant).toMatchObject({ role: 'viewer', user: { id: friend.id, email: 'friend@example.com' } });
+
+    const incoming = await (await fetch(`${baseUrl}/api/files/shared`, asFriend)).json();
+    expect(incoming).toHaveLength(1);
+    expect(incoming[0]).toMatchObject({ id: file.id, role: 'viewer', sharedBy: { id: user.id, email: user.email } });
+
+    const download = await fetch(`${baseUrl}/api/files/${file.id}/download`, asFriend);
+    expect(download.status).toBe(200);
+    expect(Buffer.from(await download.arrayBuffer()).equals(data)).toBe(true);
+
+    // Viewers can't pass the file on
+    const reshare = await fetch(`${baseUrl}/api/files/${file.id}/permissions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Test-User': String(friend.id) },
+      body: JSON.stringify({ email: 'stranger@example.com' }),
+    });
+    expect(reshare.status).toBe(403);
+    expect((await fetch(`${baseUrl}/api/files/${file.id}/download`, { headers: { 'X-Test-User': String(stranger.id) } })).status).toBe(403);
+
+    const outgoing = await (await fetch(`${baseUrl}/api/files/shared/outgoing`)).json();
+    expect(outgoing.files.find((shared: { id: number }) => shared.id === file.id)).toMatchObject({
+      links: [],
+      grants: [{ id: grant.id, user: { email: 'friend@example.com' } }],
+    });
+
+    expect((await postJson(`${baseUrl}/api/files/${file.id}/permissions/${grant.id}`, {}, 'DELETE')).status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/files/${file.id}/download`, asFriend)).status).toBe(403);
+    expect(await (await fetch(`${baseUrl}/api/files/shared`, asFriend)).json()).toEqual([]);
+  });
+
+  it('refuses to share a file with someone who has no account', async () => {
+    const file = await uploadAndStore('private.txt', randomBytes(100));
+
+    expect((await postJson(`${baseUrl}/api/files/${file.id}/permissions`, { email: 'nobody@example.com' })).status).toBe(404);
+    expect((await postJson(`${baseUrl}/api/files/${file.id}/permissions`, { email: user.email })).status).toBe(400);
+    expect((await postJson(`${baseUrl}/api/files/${file.id}/permissions`, { email: 'not an email' })).status).toBe(400);
+  });
+
+  it('only lets the owner or whoever made a grant change its role', async () => {
+    const file = await uploadAndStore('budget.xlsx', randomBytes(100));
+    const editor = await storage.createUser({ uid: 'editor-uid', email: 'editor@example.com', displayName: null });
+    await storage.createUser({ uid: 'colleague-uid', email: 'colleague@example.com', displayName: null });
+    await storage.createUser({ uid: 'intern-uid', email: 'intern@example.com', displayName: null });
+    const asEditor = (body: unknown) => fetch(`${baseUrl}/api/files/${file.id}/permissions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Test-User': String(editor.id) },
+      body: JSON.stringify(body),
+    });
+
+    expect((await postJson(`${baseUrl}/api/files/${file.id}/permissions`, { email: 'editor@example.com', role: 'editor' })).status).toBe(201);
+    expect((await postJson(`${baseUrl}/api/files/${file.id}/permissions`, { email: 'colleague@example.com' })).status).toBe(201);
+
+    // The editor can't raise or lower a grant the owner made...
+    expect((await asEditor({ email: 'colleague@example.com', role: 'editor' })).status).toBe(403);
+    expect((await storage.getFilePermissionForUser(file.id, (await storage.getUserByEmail('colleague@example.com'))!.id))?.role).toBe('viewer');
+
+    // ...but can change their own
+    expect((await asEditor({ email: 'intern@example.com' })).status).toBe(201);
+    const changed = await asEditor({ email: 'intern@example.com', role: 'editor' });
+    expect(changed.status).toBe(200);
+    expect((await changed.json()).role).toBe('editor');
+
+    // And the owner can change any of them
+    expect((await postJson(`${baseUrl}/api/files/${file.id}/permissions`, { email: 'intern@example.com', role: 'viewer' })).status).toBe(200);
+  });
+
+  it('opens a shared folder as a read-only tree with its files and a ZIP of it all', async () => {
+    const deliverables = await storage.createFolder({ name: 'Deliverables', ownerId: user.id, parentId: null });
+    const drafts = await storage.createFolder({ name: 'Drafts', ownerId: user.id, parentId: deliverables.id });
+    const elsewhere = await storage.createFolder({ name: 'Private', ownerId: user.id, parentId: null });
+    const reportData = randomBytes(CHUNK_SIZE + 500);
+    const draftData = randomBytes(300);
+    const report = await uploadAndStore('report.pdf', reportData);
+    const draft = await uploadAndStore('draft.txt', draftData);
+    const secret = await uploadAndStore('secret.txt', randomBytes(100));
+    await storage.moveFile(report.id, deliverables.id);
+    await storage.moveFile(draft.id, drafts.id);
+    await storage.moveFile(secret.id, elsewhere.id);
+
+    const share = await (await postJson(`${baseUrl}/api/folders/${deliverables.id}/share`, {})).json();
+    const sharedUrl = `${baseUrl}/api/shared/${share.shareLink}`;
+
+    const outgoing = await (await fetch(`${baseUrl}/api/files/shared/outgoing`)).json();
+    expect(outgoing.folders).toMatchObject([{ id: deliverables.id, name: 'Deliverables', links: [{ id: share.id }] }]);
+
+    const root = await (await fetch(sharedUrl)).json();
+    expect(root.file).toBeNull();
+    expect(root.folder).toMatchObject({
+      folder: { id: deliverables.id, name: 'Deliverables' },
+      path: [{ id: deliverables.id }],
+      folders: [{ id: drafts.id, name: 'Drafts' }],
+      files: [{ id: report.id, fileName: 'report.pdf' }],
+    });
+    expect(root.folder.files[0].telegramMessageId).toBeUndefined();
+
+    const sub = await (await fetch(`${sharedUrl}?folderId=${drafts.id}`)).json();
+    expect(sub.folder.path.map((folder: { id: number }) => folder.id)).toEqual([deliverables.id, drafts.id]);
+    expect(sub.folder.files.map((file: { id: number }) => file.id)).toEqual([draft.id]);
+
+    // Nothing outside the shared folder can be reached through the link
+    expect((await fetch(`${sharedUrl}?folderId=${elsewhere.id}`)).status).toBe(404);
+    expect((await fetch(`${sharedUrl}/download?fileId=${secret.id}`)).status).toBe(404);
+
+    const download = await fetch(`${sharedUrl}/download?fileId=${draft.id}`);
+    expect(download.status).toBe(200);
+    expect(Buffer.from(await download.arrayBuffer()).equals(draftData)).toBe(true);
+
+    const zipResponse = await fetch(`${sharedUrl}/download`);
+    expect(zipResponse.status).toBe(200);
+    expect(zipResponse.headers.get('content-type')).toBe('application/zip');
+    const zip = Buffer.from(await zipResponse.arrayBuffer());
+    expect(zip.length).toBe(Number(zipResponse.headers.get('content-length')));
+    expect(zip.includes(Buffer.from('Drafts/draft.txt'))).toBe(true);
+    expect(zip.includes(reportData)).toBe(true);
+    expect(zip.includes(draftData)).toBe(true);
+  });
+
+  it('stops taking passwords for a share link after too many wrong ones', async () => {
+    const file = await uploadAndStore('guarded.pdf', randomBytes(1000));
+    const share = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { password: 'right one' })).json();
+    const unlock = (password: string) => postJson(`${baseUrl}/api/shared/${share.shareLink}/unlock`, { password });
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await unlock(`wrong ${attempt}`)).status).toBe(401);
+    }
+
+    const blocked = await unlock('right one');
+    expect(blocked.status).toBe(429);
+    expect(Number(blocked.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('counts password guesses sent all at once against the limit', async () => {
+    const file = await uploadAndStore('rushed.pdf', randomBytes(1000));
+    const share = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { password: 'right one' })).json();
+    const unlock = (password: string) => postJson(`${baseUrl}/api/shared/${share.shareLink}/unlock`, { password });
+
+    const statuses = (await Promise.all(Array.from({ length: 12 }, (_, attempt) => unlock(`wrong ${attempt}`))))
+      .map(response => response.status);
+
+    expect(statuses.filter(status => status === 401)).toHaveLength(5);
+    expect(statuses.filter(status => status === 429)).toHaveLength(7);
+  });
+
+  it('does not count the right password against the limit', async () => {
+    const file = await uploadAndStore('welcome.pdf', randomBytes(1000));
+    const share = await (await postJson(`${baseUrl}/api/files/${file.id}/share`, { password: 'right one' })).json();
+    const unlock = (password: string) => postJson(`${baseUrl}/api/shared/${share.shareLink}/unlock`, { password });
+
+    for (let attempt = 0; attempt < 6; attempt++) {
+      expect((await unlock('right one')).status).toBe(200);
+    }
+    expect((await unlock('wrong')).status).toBe(401);
+  });
+
+  it('refuses uploads over the quota without touching Telegram or keeping the bytes', async () => {
+    const usedBefore = await getUsedStorage();
+    const quota = (await storage.getUser(user.id))!.quota!;
+    await storage.updateUserStorage(user.id, quota - usedBefore);
+
+    try {
+      const response = await upload('too-much.bin', randomBytes(1000));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).message).toBe('Storage quota exceeded');
+      expect(fake.getChatMessages(CHANNEL_ID)).toEqual([]);
+      expect(fs.readdirSync(uploadDir)).toEqual([]);
+    } finally {
+      await storage.updateUserStorage(user.id, usedBefore - quota);
+    }
+  });
+});
@@ -1,13 +1,24 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
-import { telegramService } from '../services/telegram.service';
+import { blobBackend, getFileBlobRef } from '../backends';
+import { trashService } from '../services/trash.service';
+import { jobService } from '../services/job.service';
+import { uploadService, type ReceivedFile } from '../services/upload.service';
+import { shareService } from '../services/share.service';
+import { janitorService } from '../services/janitor.service';
+import { zipService, type ZipEntry } from '../services/zip.service';
 import { z } from 'zod';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
+import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 import pino from 'pino';
-import { firebaseService } from 'server/services/firebase.service';
+import {
+  type File, type Folder, type User, type SharedFile, type SharedFileInfo, type ShareLinkInfo,
+  type SharedFileEntry, type SharedFolderEntry, type SharedFolderListing,
+  type FilePermissionRole, type FileGrant, type OutgoingSharedItems
+} from '@shared/schema';
 
 const logger = pino({
   transport: {
@@ -25,52 +36,341 @@ const fileSchema = z.object({
   channelId: z.string(),
 });
 
+const sharePasswordSchema = z.string().min(4).max(256);
+
 const shareFileSchema = z.object({
   expiryDays: z.number().optional(),
+  password: sharePasswordSchema.optional(),
+  maxDownloads: z.number().int().min(1).max(10000).optional(),
+  burnAfterDownload: z.boolean().optional(), // Same as maxDownloads: 1
+});
+
+const updateShareSchema = z.object({
+  password: sharePasswordSchema.nullable(), // null removes the password
+});
+
+const unlockShareSchema = z.object({
+  password: z.string(),
+});
+
+const shareWithUserSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.enum(['viewer', 'editor']).default('viewer'),
 });
 
 const starFileSchema = z.object({
   starred: z.boolean(),
 });
 
-// Helper function to determine file type from mimetype or extension
-const getFileType = (originalname: string, mimetype: string): string => {
-  // Get file extension
-  const ext = path.extname(originalname).toLowerCase();
-  
-  // Common document formats
-  const documentTypes = ['.pdf', '.doc', '.docx', '.txt', '.rtf', '.odt'];
-  const spreadsheetTypes = ['.xls', '.xlsx', '.csv', '.ods'];
-  const presentationTypes = ['.ppt', '.pptx', '.odp'];
-  
-  // Image formats
-  const imageTypes = ['.jpg', '.jpeg', '.png', '.gif', '.svg', '.webp'];
-  
-  // Audio formats
-  const audioTypes = ['.mp3', '.wav', '.ogg', '.flac', '.m4a'];
-  
-  // Video formats
-  const videoTypes = ['.mp4', '.webm', '.avi', '.mov', '.wmv'];
-  
-  // Archive formats
-  const archiveTypes = ['.zip', '.rar', '.7z', '.tar', '.gz'];
-  
-  // Check by MIME type first
-  if (mimetype.startsWith('image/')) return 'image';
-  if (mimetype.startsWith('audio/')) return 'audio';
-  if (mimetype.startsWith('video/')) return 'video';
-  
-  // Check by extension
-  if (documentTypes.includes(ext)) return 'document';
-  if (spreadsheetTypes.includes(ext)) return 'spreadsheet';
-  if (presentationTypes.includes(ext)) return 'presentation';
-  if (imageTypes.includes(ext)) return 'image';
-  if (audioTypes.includes(ext)) return 'audio';
-  if (videoTypes.includes(ext)) return 'video';
-  if (archiveTypes.includes(ext)) return 'archive';
-  
-  // Default
-  return 'other';
+const bulkStarFilesSchema = z.object({
+  fileIds: z.array(z.number().int()).min(1).max(1000),
+  starred: z.boolean(),
+});
+
+const moveFileSchema = z.object({
+  folderId: z.number().int().nullable(),
+});
+
+// Parse a folder ID from a query string or multipart field ("root" or empty means the root folder)
+const parseFolderId = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '' || value === 'root') {
+    return null;
+  }
+  const folderId = parseInt(String(value));
+  if (isNaN(folderId)) {
+    throw new z.ZodError([{ code: 'custom', path: ['folderId'], message: 'Invalid folder ID' }]);
+  }
+  return folderId;
+};
+
+// MIME types for files the browser can play or display inline
+const inlineMimeTypes: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.flac': 'audio/flac',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+};
+
+// Parse a single-range "bytes=start-end" header
+// Returns null when there is no usable Range header and 'unsatisfiable' when it is out of bounds
+const parseRange = (header: string | undefined, size: number): { start: number; end: number } | null | 'unsatisfiable' => {
+  if (!header) return null;
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(match[2]);
+    if (suffixLength === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+};
+
+// Stream a file (or the requested byte range of it) from the storage backend to the response
+const sendFileStream = async (req: Request, res: Response, file: File, disposition: 'inline' | 'attachment') => {
+  const size = file.fileSize;
+  const range = parseRange(req.headers.range, size);
+
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    return res.status(416).json({ message: 'Requested range not satisfiable' });
+  }
+
+  const { start, end } = range ?? { start: 0, end: size - 1 };
+  // An empty file has no byte range to read, so storage isn't asked for one
+  const stream = size > 0 ? await blobBackend.stream(await getFileBlobRef(file), start, end) : Readable.from([]);
+
+  // Ciphertext is never playable, whatever the file name says
+  const contentType = disposition === 'inline' && !file.isEncrypted
+    ? inlineMimeTypes[path.extname(file.fileName).toLowerCase()] || 'application/octet-stream'
+    : 'application/octet-stream';
+
+  res.status(range ? 206 : 200);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Length', end - start + 1);
+  res.setHeader('Content-Disposition', `${disposition}; filename="${encodeURIComponent(file.fileName)}"`);
+  if (range) {
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+  }
+
+  // Stop reading from storage as soon as the client goes away (e.g. a video seek)
+  res.on('close', () => stream.destroy());
+  stream.on('error', (error) => {
+    console.error('Stream file error:', error);
+    res.destroy(error);
+  });
+
+  stream.pipe(res);
+};
+
+// Access token of an unlocked share link: a header from fetch, or ?accessToken= in plain links
+const getShareAccessToken = (req: Request): string | undefined => {
+  const header = req.headers['x-share-token'];
+  if (typeof header === 'string') {
+    return header;
+  }
+  return typeof req.query.accessToken === 'string' ? req.query.accessToken : undefined;
+};
+
+// Where a request comes from, for per-address limits
+const getClientAddress = (req: Request): string => req.ip ?? req.socket.remoteAddress ?? 'unknown';
+
+const isExhausted = (sharedFile: SharedFile): boolean =>
+  sharedFile.maxDownloads !== null && sharedFile.downloadCount >= sharedFile.maxDownloads;
+
+const toShareLinkInfo = (sharedFile: SharedFile): ShareLinkInfo => ({
+  id: sharedFile.id,
+  shareLink: sharedFile.shareLink,
+  expiryDate: sharedFile.expiryDate,
+  hasPassword: sharedFile.passwordHash !== null,
+  maxDownloads: sharedFile.maxDownloads,
+  downloadCount: sharedFile.downloadCount,
+  accessCount: sharedFile.accessCount ?? 0,
+  createdAt: sharedFile.createdAt,
+});
+
+// How a user gets at a file: as its owner, through a grant, or not at all
+const getFileRole = async (file: File, user: User): Promise<'owner' | FilePermissionRole | null> => {
+  if (file.uploaderId === user.id) {
+    return 'owner';
+  }
+  // Files in the owner's trash aren't shared anymore, though the grants come back with them
+  if (file.isDeleted) {
+    return null;
+  }
+  const permission = await storage.getFilePermissionForUser(file.id, user.id);
+  return permission ? permission.role as FilePermissionRole : null;
+};
+
+// What a share link opens: one file, or a folder and everything in it
+type OpenedLink =
+  | { sharedFile: SharedFile; file: File; folder: null }
+  | { sharedFile: SharedFile; file: null; folder: Folder };
+
+// Look up what a share link points at for an anonymous visitor, or say why they can't have it
+// A download may continue on a link that has just given out its last one, so it skips that check
+const openSharedLink = async (req: Request, allowExhausted: boolean = false): Promise<OpenedLink | { status: number; body: object }> => {
+  const sharedFile = await storage.getSharedFileByLink(req.params.shareLink);
+  if (!sharedFile) {
+    return { status: 404, body: { message: 'Shared file not found' } };
+  }
+
+  // Check if link has expired
+  if (sharedFile.expiryDate && new Date() > new Date(sharedFile.expiryDate)) {
+    return { status: 403, body: { message: 'Share link has expired', expired: true } };
+  }
+
+  // Links that have given out all their downloads stay around to say so
+  if (!allowExhausted && isExhausted(sharedFile)) {
+    return { status: 410, body: { message: 'Share link has reached its download limit', exhausted: true } };
+  }
+
+  // Password-protected links need the access token from an unlock
+  if (!shareService.hasAccess(sharedFile, getShareAccessToken(req))) {
+    return { status: 401, body: { message: 'Share link is password protected', passwordRequired: true } };
+  }
+
+  if (sharedFile.folderId !== null) {
+    const folder = await storage.getFolder(sharedFile.folderId);
+    if (!folder) {
+      return { status: 404, body: { message: 'Folder not found' } };
+    }
+    return { sharedFile, file: null, folder };
+  }
+
+  // Trashed files aren't handed out, even though the link still exists
+  const file = sharedFile.fileId !== null ? await storage.getFile(sharedFile.fileId) : undefined;
+  if (!file || file.isDeleted) {
+    return { status: 404, body: { message: 'File not found' } };
+  }
+
+  return { sharedFile, file, folder: null };
+};
+
+// Who a share link belongs to: the owner of the file or folder it points at
+const getSharedLinkOwnerId = async (sharedFile: SharedFile): Promise<number | undefined> => {
+  if (sharedFile.folderId !== null) {
+    return (await storage.getFolder(sharedFile.folderId))?.ownerId;
+  }
+  return sharedFile.fileId !== null ? (await storage.getFile(sharedFile.fileId))?.uploaderId : undefined;
+};
+
+// An ID from the query string, if it is one
+const getQueryId = (value: unknown): number | undefined =>
+  typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value) : undefined;
+
+const toSharedFileEntry = (file: File): SharedFileEntry => ({
+  id: file.id,
+  fileName: file.fileName,
+  fileType: file.fileType,
+  fileSize: file.fileSize,
+  uploadTimestamp: file.uploadTimestamp,
+  isEncrypted: file.isEncrypted,
+});
+
+const toSharedFolderEntry = (folder: Folder): SharedFolderEntry => ({ id: folder.id, name: folder.name });
+
+// A folder within a shared folder (or the shared folder itself), or undefined when it lies outside
+const findSharedSubfolder = async (root: Folder, folderId: number): Promise<Folder | undefined> => {
+  const path = await storage.getFolderPath(folderId);
+  const folder = path[path.length - 1];
+  return folder && folder.ownerId === root.ownerId && path.some(ancestor => ancestor.id === root.id) ? folder : undefined;
+};
+
+// A file anywhere within a shared folder, or undefined when it lies outside or is in the trash
+const findSharedFolderFile = async (root: Folder, fileId: number): Promise<File | undefined> => {
+  const file = await storage.getFile(fileId);
+  if (!file || file.isDeleted || file.uploaderId !== root.ownerId || file.folderId === null) {
+    return undefined;
+  }
+  return (await findSharedSubfolder(root, file.folderId)) ? file : undefined;
+};
+
+// One folder of a shared tree, with the path to it starting at the shared folder
+const listSharedFolder = async (root: Folder, folder: Folder): Promise<SharedFolderListing> => {
+  const [path, folders, files] = await Promise.all([
+    storage.getFolderPath(folder.id),
+    storage.getUserFolders(root.ownerId, folder.id),
+    storage.getUserFiles(root.ownerId, folder.id),
+  ]);
+
+  return {
+    folder: toSharedFolderEntry(folder),
+    path: path.slice(path.findIndex(ancestor => ancestor.id === root.id)).map(toSharedFolderEntry),
+    folders: folders.map(toSharedFolderEntry),
+    files: files.map(toSharedFileEntry),
+  };
+};
+
+// Every file under a folder, named by its path inside it; names that clash get a number
+const collectZipEntries = async (folder: Folder, prefix: string = ''): Promise<ZipEntry[]> => {
+  const [folders, files] = await Promise.all([
+    storage.getUserFolders(folder.ownerId, folder.id),
+    storage.getUserFiles(folder.ownerId, folder.id),
+  ]);
+
+  const taken = new Set<string>();
+  const claimName = (name: string): string => {
+    const safeName = name.replace(/[\\/]/g, '_');
+    const ext = path.extname(safeName);
+    let unique = safeName;
+    for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+      unique = `${safeName.slice(0, safeName.length - ext.length)} (${n})${ext}`;
+    }
+    taken.add(unique.toLowerCase());
+    return unique;
+  };
+
+  const entries: ZipEntry[] = files.map(file => ({
+    name: prefix + claimName(file.fileName),
+    size: file.fileSize,
+    modifiedAt: file.uploadTimestamp ?? new Date(),
+    open: async () => file.fileSize > 0
+      ? blobBackend.stream(await getFileBlobRef(file), 0, file.fileSize - 1)
+      : Readable.from([]),
+  }));
+  for (const subfolder of folders) {
+    entries.push(...await collectZipEntries(subfolder, `${prefix}${claimName(subfolder.name)}/`));
+  }
+  return entries;
+};
+
+// Send a folder as a ZIP archive, which is put together as it goes out
+const sendZipStream = (res: Response, fileName: string, entries: ZipEntry[]) => {
+  const size = zipService.getSize(entries);
+  const stream = zipService.stream(entries);
+
+  res.status(200);
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Length', size);
+  res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(fileName)}"`);
+
+  res.on('close', () => stream.destroy());
+  stream.on('error', (error) => {
+    console.error('Stream folder error:', error);
+    res.destroy(error);
+  });
+
+  stream.pipe(res);
+};
+
+// Create a share link to a file or folder
+const createShareLink = async (target: { fileId: number } | { folderId: number }, options: z.infer<typeof shareFileSchema>): Promise<SharedFile> => {
+  // Calculate expiry date if provided
+  let expiryDate: Date | undefined = undefined;
+  if (options.expiryDays) {
+    expiryDate = new Date();
+    expiryDate.setDate(expiryDate.getDate() + options.expiryDays);
+  }
+
+  return storage.createSharedFile({
+    ...target,
+    shareLink: uuidv4(),
+    expiryDate,
+    passwordHash: options.password ? await shareService.hashPassword(options.password) : null,
+    maxDownloads: options.burnAfterDownload ? 1 : options.maxDownloads ?? null,
+  });
 };
 
 export const filesController = {
@@ -92,8 +392,16 @@ export const filesController = {
         return res.status(400).json({ message: 'No file uploaded' });
       }
 
-      // Return the temporary file path
-      return res.status(200).json({ tempPath: req.file.path });
+      // The browser only gets a token for the file; the file is removed if no upload claims it in time
+      const { token, expiresAt } = uploadService.holdFile(req.user.id, {
+        filePath: req.file.path,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        size: req.file.size,
+      });
+      janitorService.track(req.file.path, expiresAt);
+
+      return res.status(200).json({ tempToken: token, expiresAt });
     } catch (error) {
       console.error('Save temp file error:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -102,65 +410,70 @@ export const filesController = {
   },
 
   /**
-   * Upload a file to Telegram and store metadata
+   * Receive a file and queue it for storing
+   * Answers 202 with the upload job as soon as the bytes are here; the job reports how storing goes
    */
   uploadFile: async (req: Request, res: Response) => {
+    // A file received with this request, or claimed by it, is ours to remove until a job takes it
+    let claimedPath: string | null = null;
+    const discardReceived = () => {
+      if (req.file) {
+        fs.rmSync(req.file.path, { force: true });
+      }
+      if (claimedPath) {
+        fs.rmSync(claimedPath, { force: true });
+      }
+    };
+
     try {
       // Check if user is authenticated
       if (!req.user) {
         return res.status(401).json({ message: 'Not authenticated' });
       }
 
-      let filePath: string;
-      let originalname: string;
-      let mimetype: string;
-      let size: number;
-      let isTempFile = false;
-
-      // Check if a temporary file path is provided
-      if (req.body.tempPath) {
-        filePath = req.body.tempPath;
-        isTempFile = true;
-
-        // Get file details from the temporary file
-        try {
-          const stats = fs.statSync(filePath);
-          size = stats.size;
-          // Attempt to derive originalname and mimetype from the filename
-          originalname = path.basename(filePath).split('-').slice(2).join('-'); // Assuming filename format: timestamp-random-originalname
-          mimetype = ''; // Mimetype cannot be reliably determined from path alone, might need a library or store it with temp file
-        } catch (error) {
-          console.error('Error getting temp file stats:', error);
-          return res.status(400).json({ message: 'Invalid temporary file path' });
-        }
+      let received: Omit<ReceivedFile, 'folderId' | 'encryption'>;
 
+      // Check if a file saved earlier with save-temp is to be used
+      if (req.body.tempToken) {
+        // Nothing but the held file is uploaded, whatever came along with the token
+        discardReceived();
+
+        const held = uploadService.claimHeldFile(req.user.id, String(req.body.tempToken));
+        if (!held) {
+          return res.status(400).json({ message: 'Invalid or expired temporary upload token' });
+        }
+        claimedPath = held.filePath;
+        received = held;
       } else if (req.file) {
         // Use the directly uploaded file
-        filePath = req.file.path;
-        originalname = req.file.originalname;
-        mimetype = req.file.mimetype;
-        size = req.file.size;
+        received = {
+          filePath: req.file.path,
+          originalName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          size: req.file.size,
+        };
       } else {
-        return res.status(400).json({ message: 'No file or temporary file path provided' });
+        return res.status(400).json({ message: 'No file or temporary upload token provided' });
       }
+      const { filePath, size } = received;
 
-      console.log('Uploading file:', originalname, 'from path:', filePath);
-
-      // Check file size - Telegram has a 2GB limit
-      const maxSizeBytes = 2 * 1024 * 1024 * 1024; // 2GB
-      if (size > maxSizeBytes) {
-        // For files > 2GB, we would split them in a real implementation
-        // But for simplicity, we'll just reject them in this example
-        return res.status(400).json({
-          message: 'File too large. Maximum size is 2GB.',
-          maxSize: maxSizeBytes,
-          actualSize: size
-        });
+      // Check that the destination folder belongs to the user
+      const folderId = parseFolderId(req.body.folderId);
+      if (folderId !== null) {
+        const folder = await storage.getFolder(folderId);
+        if (!folder || folder.ownerId !== req.user.id) {
+          discardReceived();
+          return res.status(404).json({ message: 'Folder not found' });
+        }
       }
 
-      // Check user quota
+      console.log('Uploading file:', received.originalName, 'from path:', filePath);
+
+      // Check user quota, counting what is still waiting in the upload queue
       const userInfo = await storage.getUserWithStorageInfo(req.user.id);
-      if (userInfo && (userInfo.storageInfo.used + size > userInfo.storageInfo.total)) {
+      const pendingBytes = await jobService.getPendingBytes(req.user.id);
+      if (userInfo && (userInfo.storageInfo.used + pendingBytes + size > userInfo.storageInfo.total)) {
+        discardReceived();
         return res.status(400).json({
           message: 'Storage quota exceeded',
           used: userInfo.storageInfo.used,
@@ -169,75 +482,18 @@ export const filesController = {
         });
       }
 
-      // Determine file type (using mimetype if available, otherwise fallback to originalname)
-      const fileType = getFileType(originalname, mimetype || originalname);
-
-      // Send file to Telegram
-      const result = await telegramService.sendFile(filePath, originalname);
-
-      // Store file metadata
-      const fileData = {
-        fileName: originalname,
-        fileType: fileType,
-        fileSize: size,
-        fileLink: '', // Would be set for certain file types like images in a real implementation
-        uploaderId: req.user.id,
-        telegramMessageId: result.messageId,
-        channelId: result.channelId,
-        fileId: result.fileId,
-        mimeType: result.mimeType,
-        isUploadingCompleted: result.isUploadingCompleted,
-        isUploadingActive: result.isUploadingActive,
-        isDownloadingCompleted: result.isDownloadingCompleted,
-        isDownloadingActive: result.isDownloadingActive,
-        isDownloadingFailed: result.isDownloadingFailed,
-        isUploadingFailed: result.isUploadingFailed,
-        isUploadingCanceled: result.isUploadingCanceled,
-      };
-
-      // save file metadata to the firestore database
-      // 
-      firebaseService.setDatabaseData(`files/${result.fileId}`, {
-        fileName: originalname,
-        fileType: fileType,
-        fileSize: size,
-        fileLink: '', // Would be set for certain file types like images in a real implementation
-        uploaderId: req.user.id,
-        telegramMessageId: result.messageId,
-        channelId: result.channelId,
-        fileId: result.fileId,
-        mimeType: result.mimeType,
-        isUploadingCompleted: result.isUploadingCompleted,
-        isUploadingActive: result.isUploadingActive,
-        isDownloadingCompleted: result.isDownloadingCompleted,
-        isDownloadingActive: result.isDownloadingActive,
-        isDownloadingFailed: result.isDownloadingFailed,
-        isUploadingFailed: result.isUploadingFailed,
-        isUploadingCanceled: result.isUploadingCanceled,
-      });
-
-      // Memorize file metadata
-      const file = await storage.createFile(fileData);
-
-      // Update user storage usage
-      await storage.updateUserStorage(req.user.id, size);
-
-      // Return file metadata
-      const fileWithShareInfo = await storage.getFileWithShareInfo(file.id);
-
-      // Clean up temporary file after successful upload if it was a temp file
-      if (isTempFile) {
-        try {
-          fs.unlinkSync(filePath);
-        } catch (cleanupError) {
-          console.error('Failed to clean up temporary file:', cleanupError);
-          // Continue even if cleanup fails
-        }
-      }
+      // Queue the file for storing; the job removes it from disk once it is over
+      const job = await jobService.enqueue(req.user.id, { ...received, folderId });
+      janitorService.release(filePath);
 
-      return res.status(201).json(fileWithShareInfo);
+      return res.status(202).json(job);
     } catch (error) {
       console.error('File upload error:', error);
+      discardReceived();
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
 
       const errorMessage = error instanceof Error ? error.message : String(error);
       return res.status(500).json({ message: 'File upload failed', error: errorMessage });
@@ -245,7 +501,7 @@ export const filesController = {
   },
 
   /**
-   * Get all files for the authenticated user
+   * Get all files for the authenticated user, or a single folder's files when folderId is given
    */
   getUserFiles: async (req: Request, res: Response) => {
     try {
@@ -257,23 +513,20 @@ export const filesController = {
       // Get user ID
       const userId = req.user.id;
       
-      // Get all files for the user
-      const files = await storage.getUserFiles(userId);
-      let fileList = [];
-
-      files.forEach(element => {
-        // console.log(`File ID: ${element.id}, File Name: ${element.fileName}, File Type: ${element.fileType}`);
-        // const file = telegramService.downloadFile(element.telegramMessageId, element.channelId, element.id);
-        const file = telegramService.downloadFile(element.telegramMessageId, element.channelId, element.id);
-        fileList.push(file);
-      });
+      // Restrict to a single folder if requested
+      const folderId = req.query.folderId !== undefined ? parseFolderId(req.query.folderId) : undefined;
 
-      // logger.info(`Files List is ${JSON.stringify(fileList)}`);
+      // Get all files for the user
+      const files = await storage.getUserFiles(userId, folderId);
 
       return res.status(200).json(files);
     } catch (error) {
       console.error('Get user files error:', error);
 
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       return res.status(500).json({ message: 'Failed to get files', error: errorMessage });
     }
@@ -322,9 +575,8 @@ export const filesController = {
       
       // Handle special case for "starred" - this isn't a file type but a flag
       if (fileType === 'starred') {
-        // In a real implementation, we would filter by the isStarred flag
-        // For now, we'll just return an empty array
-        return res.status(200).json([]);
+        const starredFiles = await storage.getStarredFiles(userId);
+        return res.status(200).json(starredFiles);
       }
       
       // Get files of the specified type for the user
@@ -338,6 +590,25 @@ export const filesController = {
     }
   },
   
+  /**
+   * Get starred files for the authenticated user
+   */
+  getStarredFiles: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+      
+      const files = await storage.getStarredFiles(req.user.id);
+      return res.status(200).json(files);
+    } catch (error) {
+      console.error('Get starred files error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get starred files',error: errorMessage});
+    }
+  },
+  
   /**
    * Get a specific file's details
    */
@@ -359,11 +630,17 @@ export const filesController = {
         return res.status(404).json({ message: 'File not found' });
       }
       
-      // Check if user is the owner
-      if (file.uploaderId !== req.user.id) {
+      // Check if user is the owner or the file is shared with them
+      const role = await getFileRole(file, req.user);
+      if (!role) {
         return res.status(403).json({ message: 'Access denied' });
       }
       
+      // Share links are the owner's business
+      if (role !== 'owner') {
+        return res.status(200).json(file);
+      }
+      
       // Get file with share info
       const fileWithShareInfo = await storage.getFileWithShareInfo(fileId);
       
@@ -396,31 +673,13 @@ export const filesController = {
         return res.status(404).json({ message: 'File not found' });
       }
       
-      // Check if user is the owner
-      if (file.uploaderId !== req.user.id) {
-        // Check if file is shared with the user
-        // In a real implementation, we would check shared permissions
-        // For now, we'll just deny access
+      // Check if user is the owner or the file is shared with them
+      if (!(await getFileRole(file, req.user))) {
         return res.status(403).json({ message: 'Access denied' });
       }
       
-      // Download file from Telegram
-      const filePath = await telegramService.downloadFile(file.telegramMessageId, file.channelId, file.id);
-      
-      // Set appropriate headers
-      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
-      res.setHeader('Content-Type', 'application/octet-stream');
-      res.setHeader('Content-Length', file.fileSize);
-      
-      // Stream the file to the response
-      const fileStream = fs.createReadStream(filePath);
-      fileStream.pipe(res);
-      
-      // Clean up temp file after sending
-      fileStream.on('end', () => {
-        // Delete the temporary file
-        fs.unlinkSync(filePath);
-      });
+      // Stream file from storage, honoring Range requests
+      await sendFileStream(req, res, file, 'attachment');
     } catch (error) {
       console.error('Download file error:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -429,9 +688,9 @@ export const filesController = {
   },
   
   /**
-   * Delete a file
+   * Stream a file for inline playback (supports Range requests for seeking)
    */
-  deleteFile: async (req: Request, res: Response) => {
+  streamFile: async (req: Request, res: Response) => {
     try {
       // Check if user is authenticated
       if (!req.user) {
@@ -449,39 +708,32 @@ export const filesController = {
         return res.status(404).json({ message: 'File not found' });
       }
       
-      // Check if user is the owner
-      if (file.uploaderId !== req.user.id) {
+      // Check if user is the owner or the file is shared with them
+      if (!(await getFileRole(file, req.user))) {
         return res.status(403).json({ message: 'Access denied' });
       }
       
-      // Mark file as deleted
-      const success = await storage.deleteFile(fileId);
-      
-      // Update user storage usage (subtract file size)
-      await storage.updateUserStorage(req.user.id, -file.fileSize);
-      
-      return res.status(200).json({ success });
+      await sendFileStream(req, res, file, 'inline');
     } catch (error) {
-      console.error('Delete file error:', error);
+      console.error('Stream file error:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      return res.status(500).json({ message: 'Failed to delete file',error: errorMessage});
+      return res.status(500).json({ message: 'Failed to stream file',error: errorMessage});
     }
   },
   
   /**
-   * Star/unstar a file
+   * Delete a file
    */
-  starFile: async (req: Request, res: Response) => {
+  deleteFile: async (req: Request, res: Response) => {
     try {
       // Check if user is authenticated
       if (!req.user) {
         return res.status(401).json({ message: 'Not authenticated' });
       }
       
-      // Validate request
-      const validatedData = starFileSchema.parse(req.body);
       // Get file ID from params
       const fileId = parseInt(req.params.id);
+      
       // Get the file
       const file = await storage.getFile(fileId);
       
@@ -495,39 +747,54 @@ export const filesController = {
         return res.status(403).json({ message: 'Access denied' });
       }
       
-      // Star/unstar the file
-      const updatedFile = await storage.starFile(fileId, validatedData.starred);
-      
-      if (!updatedFile) {
-        return res.status(404).json({ message: 'File not found' });
+      if (file.isDeleted) {
+        return res.status(400).json({ message: 'File is already in the trash' });
       }
       
-      // Get file with share info
-      const fileWithShareInfo = await storage.getFileWithShareInfo(fileId);
-      return res.status(200).json(fileWithShareInfo);
-    } catch (error) {
-      console.error('Star file error:', error);
+      // Mark file as deleted
+      const success = await storage.deleteFile(fileId);
       
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      // Update user storage usage (subtract file size) unless another copy of the content still counts
+      if (!(await storage.hasOtherLiveCopy(file))) {
+        await storage.updateUserStorage(req.user.id, -file.fileSize);
       }
+      
+      return res.status(200).json({ success });
+    } catch (error) {
+      console.error('Delete file error:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      return res.status(500).json({ message: 'Failed to star file',error: errorMessage});
+      return res.status(500).json({ message: 'Failed to delete file',error: errorMessage});
     }
   },
   
   /**
-   * Share a file
+   * Get the authenticated user's trashed files
    */
-  shareFile: async (req: Request, res: Response) => {
+  getTrashedFiles: async (req: Request, res: Response) => {
     try {
       // Check if user is authenticated
       if (!req.user) {
         return res.status(401).json({ message: 'Not authenticated' });
       }
       
-      // Validate request
-      const validatedData = shareFileSchema.parse(req.body);
+      const files = await storage.getTrashedFiles(req.user.id);
+      return res.status(200).json(files);
+    } catch (error) {
+      console.error('Get trashed files error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get trashed files',error: errorMessage});
+    }
+  },
+  
+  /**
+   * Restore a file from the trash
+   */
+  restoreFile: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
       
       // Get file ID from params
       const fileId = parseInt(req.params.id);
@@ -545,62 +812,50 @@ export const filesController = {
         return res.status(403).json({ message: 'Access denied' });
       }
       
-      // Generate a unique share link
-      const shareLink = uuidv4();
+      if (!file.isDeleted) {
+        return res.status(400).json({ message: 'File is not in the trash' });
+      }
       
-      // Calculate expiry date if provided
-      let expiryDate: Date | undefined = undefined;
-      if (validatedData.expiryDays) {
-        expiryDate = new Date();
-        expiryDate.setDate(expiryDate.getDate() + validatedData.expiryDays);
+      // Restoring counts against the quota again, unless a live copy of the content is already charged
+      const charge = (await storage.hasOtherLiveCopy(file)) ? 0 : file.fileSize;
+      const userInfo = await storage.getUserWithStorageInfo(req.user.id);
+      if (userInfo && (userInfo.storageInfo.used + charge > userInfo.storageInfo.total)) {
+        return res.status(400).json({
+          message: 'Storage quota exceeded',
+          used: userInfo.storageInfo.used,
+          total: userInfo.storageInfo.total,
+          required: charge
+        });
       }
       
-      // Create shared file record
-      const sharedFile = await storage.createSharedFile({
-        fileId,
-        shareLink,
-        expiryDate,
-      });
-
-      return res.status(200).json({
-        id: sharedFile.id,
-        shareLink,
-        expiryDate: sharedFile.expiryDate
-      });
-    } catch (error) {
-      console.error('Share file error:', error);
+      await storage.restoreFile(fileId);
+      await storage.updateUserStorage(req.user.id, charge);
       
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
-      }
+      // Get file with share info
+      const fileWithShareInfo = await storage.getFileWithShareInfo(fileId);
+      return res.status(200).json(fileWithShareInfo);
+    } catch (error) {
+      console.error('Restore file error:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      return res.status(500).json({ message: 'Failed to share file',error: errorMessage});
+      return res.status(500).json({ message: 'Failed to restore file',error: errorMessage});
     }
   },
   
   /**
-   * Delete a shared link
+   * Permanently delete a file, including its stored payload
    */
-  deleteSharedLink: async (req: Request, res: Response) => {
+  permanentlyDeleteFile: async (req: Request, res: Response) => {
     try {
       // Check if user is authenticated
       if (!req.user) {
         return res.status(401).json({ message: 'Not authenticated' });
       }
       
-      // Get shared ID from params
-      const sharedId = parseInt(req.params.id);
-      
-      // Get the shared file
-      const sharedFile = await storage.getSharedFile(sharedId);
-      
-      // Check if shared file exists
-      if (!sharedFile) {
-        return res.status(404).json({ message: 'Shared file not found' });
-      }
+      // Get file ID from params
+      const fileId = parseInt(req.params.id);
       
-      // Get the original file
-      const file = await storage.getFile(sharedFile.fileId);
+      // Get the file
+      const file = await storage.getFile(fileId);
       
       // Check if file exists
       if (!file) {
@@ -612,54 +867,665 @@ export const filesController = {
         return res.status(403).json({ message: 'Access denied' });
       }
       
-      // Delete the shared link
-      const success = await storage.deleteSharedFile(sharedId);
+      await trashService.purgeFile(file);
       
-      return res.status(200).json({ success });
+      return res.status(200).json({ success: true });
     } catch (error) {
-      console.error('Delete shared link error:', error);
+      console.error('Permanent delete file error:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      return res.status(500).json({ message: 'Failed to delete shared link',error: errorMessage});
+      return res.status(500).json({ message: 'Failed to permanently delete file',error: errorMessage});
     }
   },
   
   /**
-   * Get a shared file
+   * Star/unstar a file
    */
-  getSharedFile: async (req: Request, res: Response) => {
+  starFile: async (req: Request, res: Response) => {
     try {
-      // Get share link from params
-      const shareLink = req.params.shareLink;
-      
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+      
+      // Validate request
+      const validatedData = starFileSchema.parse(req.body);
+      // Get file ID from params
+      const fileId = parseInt(req.params.id);
+      // Get the file
+      const file = await storage.getFile(fileId);
+      
+      // Check if file exists
+      if (!file) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      
+      // Check if user is the owner
+      if (file.uploaderId !== req.user.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      
+      // Star/unstar the file
+      const updatedFile = await storage.starFile(fileId, validatedData.starred);
+      
+      if (!updatedFile) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      
+      // Get file with share info
+      const fileWithShareInfo = await storage.getFileWithShareInfo(fileId);
+      return res.status(200).json(fileWithShareInfo);
+    } catch (error) {
+      console.error('Star file error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to star file',error: errorMessage});
+    }
+  },
+  
+  /**
+   * Star/unstar several files at once
+   */
+  starFiles: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+      
+      // Validate request
+      const validatedData = bulkStarFilesSchema.parse(req.body);
+      
+      // Every file must exist and belong to the user
+      const fetched = await Promise.all(validatedData.fileIds.map(id => storage.getFile(id)));
+      const files = fetched.filter((file): file is File => file !== undefined);
+      if (files.length !== fetched.length) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      const userId = req.user.id;
+      if (files.some(file => file.uploaderId !== userId)) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      
+      const updatedFiles = await storage.starFiles(validatedData.fileIds, validatedData.starred);
+      return res.status(200).json(updatedFiles);
+    } catch (error) {
+      console.error('Bulk star files error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to star files',error: errorMessage});
+    }
+  },
+  
+  /**
+   * Move a file into a folder (or back to the root)
+   */
+  moveFile: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Validate request
+      const validatedData = moveFileSchema.parse(req.body);
+      // Get file ID from params
+      const fileId = parseInt(req.params.id);
+      // Get the file
+      const file = await storage.getFile(fileId);
+
+      // Check if file exists
+      if (!file) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+
+      // Check if user is the owner
+      if (file.uploaderId !== req.user.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      // Check that the destination folder belongs to the user
+      if (validatedData.folderId !== null) {
+        const folder = await storage.getFolder(validatedData.folderId);
+        if (!folder || folder.ownerId !== req.user.id) {
+          return res.status(404).json({ message: 'Folder not found' });
+        }
+      }
+
+      await storage.moveFile(fileId, validatedData.folderId);
+
+      // Get file with share info
+      const fileWithShareInfo = await storage.getFileWithShareInfo(fileId);
+      return res.status(200).json(fileWithShareInfo);
+    } catch (error) {
+      console.error('Move file error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to move file',error: errorMessage});
+    }
+  },
+  
+  /**
+   * Share a file
+   */
+  shareFile: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+      
+      // Validate request
+      const validatedData = shareFileSchema.parse(req.body);
+      
+      // Get file ID from params
+      const fileId = parseInt(req.params.id);
+      
+      // Get the file
+      const file = await storage.getFile(fileId);
+      
+      // Check if file exists
+      if (!file) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      
+      // Check if user is the owner
+      if (file.uploaderId !== req.user.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      
+      // Create shared file record
+      const sharedFile = await createShareLink({ fileId }, validatedData);
+
+      return res.status(200).json(toShareLinkInfo(sharedFile));
+    } catch (error) {
+      console.error('Share file error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to share file',error: errorMessage});
+    }
+  },
+  
+  /**
+   * Share a folder: the link opens a read-only view of everything in it, subfolders included
+   */
+  shareFolder: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Validate request
+      const validatedData = shareFileSchema.parse(req.body);
+
+      const folderId = parseInt(req.params.id);
+      const folder = await storage.getFolder(folderId);
+      if (!folder) {
+        return res.status(404).json({ message: 'Folder not found' });
+      }
+
+      // Check if user is the owner
+      if (folder.ownerId !== req.user.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const sharedFile = await createShareLink({ folderId }, validatedData);
+
+      return res.status(200).json(toShareLinkInfo(sharedFile));
+    } catch (error) {
+      console.error('Share folder error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to share folder', error: errorMessage });
+    }
+  },
+
+  /**
+   * Get the share links of a folder
+   */
+  getFolderSharedLinks: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const folderId = parseInt(req.params.id);
+      const folder = await storage.getFolder(folderId);
+      if (!folder) {
+        return res.status(404).json({ message: 'Folder not found' });
+      }
+
+      // Check if user is the owner
+      if (folder.ownerId !== req.user.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const sharedFiles = await storage.getFolderSharedFiles(folderId);
+
+      return res.status(200).json(sharedFiles.map(toShareLinkInfo));
+    } catch (error) {
+      console.error('Get folder shared links error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get shared links', error: errorMessage });
+    }
+  },
+
+  /**
+   * Set or remove the password of a shared link
+   * Anyone who unlocked the link before has to unlock it again
+   */
+  updateSharedLink: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Validate request
+      const validatedData = updateShareSchema.parse(req.body);
+
+      const sharedId = parseInt(req.params.id);
+      const sharedFile = await storage.getSharedFile(sharedId);
+      if (!sharedFile) {
+        return res.status(404).json({ message: 'Shared file not found' });
+      }
+
+      // Check if user is the owner
+      if ((await getSharedLinkOwnerId(sharedFile)) !== req.user.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const passwordHash = validatedData.password ? await shareService.hashPassword(validatedData.password) : null;
+      const updatedSharedFile = await storage.updateSharedFilePassword(sharedId, passwordHash);
+      if (!updatedSharedFile) {
+        return res.status(404).json({ message: 'Shared file not found' });
+      }
+      shareService.revokeAccessTokens(sharedId);
+
+      return res.status(200).json(toShareLinkInfo(updatedSharedFile));
+    } catch (error) {
+      console.error('Update shared link error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to update shared link', error: errorMessage });
+    }
+  },
+
+  /**
+   * Delete a shared link
+   */
+  deleteSharedLink: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+      
+      // Get shared ID from params
+      const sharedId = parseInt(req.params.id);
+      
       // Get the shared file
-      const sharedFile = await storage.getSharedFileByLink(shareLink);
+      const sharedFile = await storage.getSharedFile(sharedId);
       
       // Check if shared file exists
       if (!sharedFile) {
         return res.status(404).json({ message: 'Shared file not found' });
       }
       
-      // Check if link has expired
-      if (sharedFile.expiryDate && new Date() > new Date(sharedFile.expiryDate)) {
-        return res.status(403).json({ message: 'Share link has expired' });
+      // Get the owner of the original file or folder
+      const ownerId = await getSharedLinkOwnerId(sharedFile);
+      
+      // Check if file or folder exists
+      if (ownerId === undefined) {
+        return res.status(404).json({ message: 'File not found' });
       }
       
-      // Get the file
-      const file = await storage.getFile(sharedFile.fileId);
+      // Check if user is the owner
+      if (ownerId !== req.user.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
       
-      // Check if file exists
+      // Delete the shared link
+      const success = await storage.deleteSharedFile(sharedId);
+      
+      return res.status(200).json({ success });
+    } catch (error) {
+      console.error('Delete shared link error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to delete shared link',error: errorMessage});
+    }
+  },
+  
+  /**
+   * Share a file with another registered user, found by email
+   * Owners and editors can share; sharing again with the same user changes their role, which only
+   * the owner or whoever made the grant may do
+   */
+  shareWithUser: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Validate request
+      const validatedData = shareWithUserSchema.parse(req.body);
+
+      const fileId = parseInt(req.params.id);
+      const file = await storage.getFile(fileId);
       if (!file) {
         return res.status(404).json({ message: 'File not found' });
       }
+
+      const role = await getFileRole(file, req.user);
+      if (role !== 'owner' && role !== 'editor') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const recipient = await storage.getUserByEmail(validatedData.email);
+      if (!recipient) {
+        return res.status(404).json({ message: 'No user with that email' });
+      }
+      if (recipient.id === file.uploaderId || recipient.id === req.user.id) {
+        return res.status(400).json({ message: 'The file is already theirs to use' });
+      }
+
+      const existing = await storage.getFilePermissionForUser(fileId, recipient.id);
+      if (existing && role !== 'owner' && existing.grantedBy !== req.user.id) {
+        return res.status(403).json({ message: 'Only the owner or whoever shared it can change their access' });
+      }
+      const permission = existing
+        ? await storage.updateFilePermissionRole(existing.id, validatedData.role)
+        : await storage.createFilePermission({
+          fileId,
+          userId: recipient.id,
+          grantedBy: req.user.id,
+          role: validatedData.role,
+        });
+      if (!permission) {
+        return res.status(404).json({ message: 'Permission not found' });
+      }
+
+      const grant: FileGrant = {
+        id: permission.id,
+        role: permission.role as FilePermissionRole,
+        user: { id: recipient.id, email: recipient.email, displayName: recipient.displayName, photoURL: recipient.photoURL },
+        grantedBy: permission.grantedBy,
+        createdAt: permission.createdAt,
+      };
+      return res.status(existing ? 200 : 201).json(grant);
+    } catch (error) {
+      console.error('Share with user error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to share file', error: errorMessage });
+    }
+  },
+
+  /**
+   * Stop sharing a file with a user
+   * The owner can revoke any grant, whoever granted can revoke theirs, and recipients can leave
+   */
+  revokeFilePermission: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const fileId = parseInt(req.params.id);
+      const permission = await storage.getFilePermission(parseInt(req.params.permissionId));
+      if (!permission || permission.fileId !== fileId) {
+        return res.status(404).json({ message: 'Permission not found' });
+      }
+
+      const file = await storage.getFile(fileId);
+      const userId = req.user.id;
+      if (file?.uploaderId !== userId && permission.grantedBy !== userId && permission.userId !== userId) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const success = await storage.deleteFilePermission(permission.id);
+
+      return res.status(200).json({ success });
+    } catch (error) {
+      console.error('Revoke file permission error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to revoke access', error: errorMessage });
+    }
+  },
+
+  /**
+   * Get the files other users shared with the current user
+   */
+  getIncomingSharedFiles: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const sharedFiles = await storage.getIncomingSharedFiles(req.user.id);
+
+      return res.status(200).json(sharedFiles);
+    } catch (error) {
+      console.error('Get incoming shared files error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get shared files', error: errorMessage });
+    }
+  },
+
+  /**
+   * Get what the current user shared: links to their files and the grants they made, by file, and
+   * links to their folders, by folder
+   */
+  getOutgoingSharedFiles: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const shares = await storage.getOutgoingShares(req.user.id);
+      const shared: OutgoingSharedItems = {
+        files: shares.files.map(share => ({
+          ...share.file,
+          links: share.links.map(toShareLinkInfo),
+          grants: share.grants,
+        })),
+        folders: shares.folders.map(share => ({
+          ...share.folder,
+          links: share.links.map(toShareLinkInfo),
+        })),
+      };
+
+      return res.status(200).json(shared);
+    } catch (error) {
+      console.error('Get outgoing shared files error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get shared files', error: errorMessage });
+    }
+  },
+
+  /**
+   * Get a shared file, or for a folder link one folder of its tree (the shared folder itself, or
+   * the one given as ?folderId=)
+   */
+  getSharedFile: async (req: Request, res: Response) => {
+    try {
+      const opened = await openSharedLink(req);
+      if ('status' in opened) {
+        return res.status(opened.status).json(opened.body);
+      }
+      const { sharedFile, file, folder } = opened;
+
+      let listing: SharedFolderListing | null = null;
+      if (folder) {
+        const folderId = req.query.folderId !== undefined ? getQueryId(req.query.folderId) : folder.id;
+        const browsed = folderId !== undefined ? await findSharedSubfolder(folder, folderId) : undefined;
+        if (!browsed) {
+          return res.status(404).json({ message: 'Folder not found' });
+        }
+        listing = await listSharedFolder(folder, browsed);
+      }
       
-      // Increment access count
-      await storage.incrementAccessCount(sharedFile.id);
+      // Increment access count; browsing deeper into a shared folder isn't opening the link again
+      if (req.query.folderId === undefined) {
+        await storage.incrementAccessCount(sharedFile.id);
+      }
       
-      return res.status(200).json({ file });
+      const sharedFileInfo: SharedFileInfo = {
+        file: file ? toSharedFileEntry(file) : null,
+        folder: listing,
+        expiryDate: sharedFile.expiryDate,
+        downloadsLeft: sharedFile.maxDownloads === null ? null : sharedFile.maxDownloads - sharedFile.downloadCount,
+      };
+      return res.status(200).json(sharedFileInfo);
     } catch (error) {
       console.error('Get shared file error:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
       return res.status(500).json({ message: 'Failed to get shared file',error: errorMessage});
     }
   },
+
+  /**
+   * Download a shared file without signing in, or stream it inline with ?inline=1 for previews
+   * Supports Range requests, so shared videos can be seeked. On links with a download limit a
+   * request from the first byte counts as a download, previews included; later ranges of a counted
+   * download don't count again (see ShareService), while any other range counts, so the limit
+   * can't be dodged in pieces. Ranges that can't be served never count.
+   * Folder links download one of their files with ?fileId=, or else a ZIP of the shared folder
+   * (or of the subfolder given as ?folderId=).
+   */
+  downloadSharedFile: async (req: Request, res: Response) => {
+    try {
+      const opened = await openSharedLink(req, true);
+      if ('status' in opened) {
+        return res.status(opened.status).json(opened.body);
+      }
+      let download: { file: File } | { zipName: string; entries: ZipEntry[] };
+      if (opened.file) {
+        download = { file: opened.file };
+      } else if (req.query.fileId !== undefined) {
+        const fileId = getQueryId(req.query.fileId);
+        const file = fileId !== undefined ? await findSharedFolderFile(opened.folder, fileId) : undefined;
+        if (!file) {
+          return res.status(404).json({ message: 'File not found' });
+        }
+        download = { file };
+      } else {
+        const folderId = req.query.folderId !== undefined ? getQueryId(req.query.folderId) : opened.folder.id;
+        const folder = folderId !== undefined ? await findSharedSubfolder(opened.folder, folderId) : undefined;
+        if (!folder) {
+          return res.status(404).json({ message: 'Folder not found' });
+        }
+        download = { zipName: `${folder.name}.zip`, entries: await collectZipEntries(folder) };
+      }
+
+      const exhausted = { message: 'Share link has reached its download limit', exhausted: true };
+      const sharedFileId = opened.sharedFile.id;
+
+      if ('entries' in download) {
+        if (!(await storage.claimSharedDownload(sharedFileId))) {
+          return res.status(410).json(exhausted);
+        }
+        return sendZipStream(res, download.zipName, download.entries);
+      }
+
+      // sendFileStream answers a range that can't be served without anything being counted
+      const { file } = download;
+      const address = getClientAddress(req);
+      const range = parseRange(req.headers.range, file.fileSize);
+      const continues = range !== null && range !== 'unsatisfiable' && range.start > 0 &&
+        shareService.continuesDownload(sharedFileId, file.id, address);
+      if (range !== 'unsatisfiable' && !continues) {
+        // Claiming checks the limit again, since another download may have taken the last one
+        if (!(await storage.claimSharedDownload(sharedFileId))) {
+          return res.status(410).json(exhausted);
+        }
+        shareService.grantDownload(sharedFileId, file.id, address);
+      }
+
+      await sendFileStream(req, res, file, req.query.inline === '1' ? 'inline' : 'attachment');
+    } catch (error) {
+      console.error('Download shared file error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to download shared file', error: errorMessage });
+    }
+  },
+
+  /**
+   * Unlock a password-protected shared link
+   * Answers with an access token to send along as X-Share-Token (or ?accessToken=); wrong
+   * passwords are rate-limited per address and per link
+   */
+  unlockSharedFile: async (req: Request, res: Response) => {
+    try {
+      // Validate request
+      const validatedData = unlockShareSchema.parse(req.body);
+
+      const sharedFile = await storage.getSharedFileByLink(req.params.shareLink);
+      if (!sharedFile) {
+        return res.status(404).json({ message: 'Shared file not found' });
+      }
+
+      // Check if link has expired
+      if (sharedFile.expiryDate && new Date() > new Date(sharedFile.expiryDate)) {
+        return res.status(403).json({ message: 'Share link has expired' });
+      }
+
+      if (isExhausted(sharedFile)) {
+        return res.status(410).json({ message: 'Share link has reached its download limit', exhausted: true });
+      }
+
+      if (!sharedFile.passwordHash) {
+        return res.status(400).json({ message: 'Share link is not password protected' });
+      }
+
+      // The attempt is counted before the slow password check, so parallel guesses all count
+      const address = getClientAddress(req);
+      const retryAfter = shareService.beginUnlockAttempt(sharedFile.id, address);
+      if (retryAfter !== null) {
+        res.setHeader('Retry-After', String(retryAfter));
+        return res.status(429).json({ message: 'Too many wrong passwords, try again later', retryAfter });
+      }
+
+      if (!(await shareService.verifyPassword(sharedFile, validatedData.password))) {
+        return res.status(401).json({ message: 'Wrong password', passwordRequired: true });
+      }
+
+      shareService.forgiveUnlockAttempt(sharedFile.id, address);
+      return res.status(200).json(shareService.issueAccessToken(sharedFile));
+    } catch (error) {
+      console.error('Unlock shared file error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to unlock shared file', error: errorMessage });
+    }
+  },
 };
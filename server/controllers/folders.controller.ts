@@ -0,0 +1,215 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+import { z } from 'zod';
+
+// Validation schemas
+const createFolderSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  parentId: z.number().int().nullable().optional(),
+});
+
+const renameFolderSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+});
+
+const moveFolderSchema = z.object({
+  parentId: z.number().int().nullable(),
+});
+
+export const foldersController = {
+  /**
+   * List the subfolders and files of a folder (the root folder when no ID is given)
+   */
+  getFolderContents: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const userId = req.user.id;
+
+      // No ID means the root folder
+      if (!req.params.id) {
+        const [folders, files] = await Promise.all([
+          storage.getUserFolders(userId, null),
+          storage.getUserFiles(userId, null),
+        ]);
+        return res.status(200).json({ folder: null, path: [], folders, files });
+      }
+
+      // Get folder ID from params
+      const folderId = parseInt(req.params.id);
+
+      // Get the folder
+      const folder = await storage.getFolder(folderId);
+
+      // Check if folder exists
+      if (!folder) {
+        return res.status(404).json({ message: 'Folder not found' });
+      }
+
+      // Check if user is the owner
+      if (folder.ownerId !== userId) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const [path, folders, files] = await Promise.all([
+        storage.getFolderPath(folderId),
+        storage.getUserFolders(userId, folderId),
+        storage.getUserFiles(userId, folderId),
+      ]);
+
+      return res.status(200).json({ folder, path, folders, files });
+    } catch (error) {
+      console.error('Get folder contents error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get folder contents', error: errorMessage });
+    }
+  },
+
+  /**
+   * Create a folder
+   */
+  createFolder: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Validate request
+      const validatedData = createFolderSchema.parse(req.body);
+      const parentId = validatedData.parentId ?? null;
+
+      // Check that the parent folder exists and belongs to the user
+      if (parentId !== null) {
+        const parent = await storage.getFolder(parentId);
+        if (!parent) {
+          return res.status(404).json({ message: 'Parent folder not found' });
+        }
+        if (parent.ownerId !== req.user.id) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
+      }
+
+      const folder = await storage.createFolder({
+        name: validatedData.name,
+        ownerId: req.user.id,
+        parentId,
+      });
+
+      return res.status(201).json(folder);
+    } catch (error) {
+      console.error('Create folder error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to create folder', error: errorMessage });
+    }
+  },
+
+  /**
+   * Rename a folder
+   */
+  renameFolder: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Validate request
+      const validatedData = renameFolderSchema.parse(req.body);
+
+      // Get folder ID from params
+      const folderId = parseInt(req.params.id);
+
+      // Get the folder
+      const folder = await storage.getFolder(folderId);
+
+      // Check if folder exists
+      if (!folder) {
+        return res.status(404).json({ message: 'Folder not found' });
+      }
+
+      // Check if user is the owner
+      if (folder.ownerId !== req.user.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const updatedFolder = await storage.renameFolder(folderId, validatedData.name);
+
+      return res.status(200).json(updatedFolder);
+    } catch (error) {
+      console.error('Rename folder error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to rename folder', error: errorMessage });
+    }
+  },
+
+  /**
+   * Move a folder under another folder (or to the root)
+   */
+  moveFolder: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Validate request
+      const validatedData = moveFolderSchema.parse(req.body);
+
+      // Get folder ID from params
+      const folderId = parseInt(req.params.id);
+
+      // Get the folder
+      const folder = await storage.getFolder(folderId);
+
+      // Check if folder exists
+      if (!folder) {
+        return res.status(404).json({ message: 'Folder not found' });
+      }
+
+      // Check if user is the owner
+      if (folder.ownerId !== req.user.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      if (validatedData.parentId !== null) {
+        const parent = await storage.getFolder(validatedData.parentId);
+        if (!parent) {
+          return res.status(404).json({ message: 'Parent folder not found' });
+        }
+        if (parent.ownerId !== req.user.id) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
+
+        // A folder cannot be moved into itself or one of its descendants
+        const parentPath = await storage.getFolderPath(parent.id);
+        if (parentPath.some(ancestor => ancestor.id === folderId)) {
+          return res.status(400).json({ message: 'Cannot move a folder into itself' });
+        }
+      }
+
+      const updatedFolder = await storage.moveFolder(folderId, validatedData.parentId);
+
+      return res.status(200).json(updatedFolder);
+    } catch (error) {
+      console.error('Move folder error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to move folder', error: errorMessage });
+    }
+  },
+};
@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import { jobService } from '../services/job.service';
+
+// Upload jobs: what happened to files after their bytes arrived. Live progress
+// is pushed over the WebSocket; these endpoints catch up after a reconnect
+export const jobsController = {
+  /**
+   * Get the authenticated user's upload jobs, newest first
+   */
+  getJobs: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const jobs = await jobService.getUserJobs(req.user.id);
+
+      return res.status(200).json(jobs);
+    } catch (error) {
+      console.error('Get upload jobs error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get upload jobs', error: errorMessage });
+    }
+  },
+
+  /**
+   * Get a single upload job
+   */
+  getJob: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const job = await jobService.getJob(req.params.id);
+
+      // Check if job exists and belongs to the user
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Upload job not found' });
+      }
+
+      return res.status(200).json(job);
+    } catch (error) {
+      console.error('Get upload job error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get upload job', error: errorMessage });
+    }
+  },
+
+  /**
+   * Cancel an upload job that hasn't finished
+   * A running job may take a moment to stop; its final status arrives like any other update
+   */
+  cancelJob: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Check if job exists and belongs to the user
+      const existing = await jobService.getJob(req.params.id);
+      if (!existing || existing.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Upload job not found' });
+      }
+
+      // Too late once the file is stored (or storing it failed)
+      if (existing.status === 'done' || existing.status === 'failed') {
+        return res.status(409).json({ message: `Upload job has already ${existing.status === 'done' ? 'finished' : 'failed'}` });
+      }
+
+      const job = await jobService.cancel(existing.id);
+
+      return res.status(200).json(job);
+    } catch (error) {
+      console.error('Cancel upload job error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to cancel upload job', error: errorMessage });
+    }
+  },
+};
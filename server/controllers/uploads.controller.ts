@@ -0,0 +1,259 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+import { uploadService } from '../services/upload.service';
+import { jobService } from '../services/job.service';
+import { z } from 'zod';
+
+// Validation schemas
+const createUploadSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  fileSize: z.number().int().positive(),
+  mimeType: z.string().max(255).nullable().optional(),
+  folderId: z.number().int().nullable().optional(),
+  // Present when the browser encrypts the file before sending it
+  encryption: z.object({
+    wrappedKey: z.string().min(1).max(512),
+    iv: z.string().min(1).max(64),
+    salt: z.string().min(1).max(128),
+  }).nullable().optional(),
+});
+
+// Content type of PATCH bodies, as in the tus protocol
+const OFFSET_CONTENT_TYPE = 'application/offset+octet-stream';
+
+// Resumable uploads: create a session, PATCH byte ranges onto it, HEAD to learn the
+// current offset after an interruption, then complete it to queue the file for storing
+export const uploadsController = {
+  /**
+   * List the user's unfinished uploads so the client can offer to resume them
+   */
+  getUploads: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const now = Date.now();
+      const sessions = await storage.getUserUploadSessions(req.user.id);
+
+      return res.status(200).json(sessions.filter(session => session.expiresAt.getTime() > now));
+    } catch (error) {
+      console.error('Get uploads error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to get uploads', error: errorMessage });
+    }
+  },
+
+  /**
+   * Start a resumable upload
+   */
+  createUpload: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      // Validate request
+      const validatedData = createUploadSchema.parse(req.body);
+      const folderId = validatedData.folderId ?? null;
+
+      // Check that the destination folder belongs to the user
+      if (folderId !== null) {
+        const folder = await storage.getFolder(folderId);
+        if (!folder || folder.ownerId !== req.user.id) {
+          return res.status(404).json({ message: 'Folder not found' });
+        }
+      }
+
+      // Check user quota up front so the bytes aren't sent for nothing
+      const userInfo = await storage.getUserWithStorageInfo(req.user.id);
+      if (userInfo && (userInfo.storageInfo.used + validatedData.fileSize > userInfo.storageInfo.total)) {
+        return res.status(400).json({
+          message: 'Storage quota exceeded',
+          used: userInfo.storageInfo.used,
+          total: userInfo.storageInfo.total,
+          required: validatedData.fileSize
+        });
+      }
+
+      const session = await uploadService.createSession(
+        req.user.id,
+        validatedData.fileName,
+        validatedData.fileSize,
+        validatedData.mimeType ?? null,
+        folderId,
+        validatedData.encryption ?? null
+      );
+
+      res.setHeader('Location', `/api/uploads/${session.id}`);
+      res.setHeader('Upload-Offset', String(session.uploadOffset));
+      res.setHeader('Upload-Length', String(session.fileSize));
+      return res.status(201).json(session);
+    } catch (error) {
+      console.error('Create upload error:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to create upload', error: errorMessage });
+    }
+  },
+
+  /**
+   * Report how many bytes of an upload the server has
+   */
+  getUploadOffset: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).end();
+      }
+
+      const session = await storage.getUploadSession(req.params.id);
+
+      // HEAD responses have no body, so only the status tells what went wrong
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).end();
+      }
+      if (session.expiresAt.getTime() <= Date.now()) {
+        return res.status(410).end();
+      }
+
+      res.setHeader('Upload-Offset', String(session.uploadOffset));
+      res.setHeader('Upload-Length', String(session.fileSize));
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(200).end();
+    } catch (error) {
+      console.error('Get upload offset error:', error);
+      return res.status(500).end();
+    }
+  },
+
+  /**
+   * Append a byte range to an upload; the range must start at the current offset
+   */
+  patchUpload: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const session = await storage.getUploadSession(req.params.id);
+
+      // Check if upload exists and belongs to the user
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+      if (session.expiresAt.getTime() <= Date.now()) {
+        return res.status(410).json({ message: 'Upload has expired' });
+      }
+
+      if (req.headers['content-type'] !== OFFSET_CONTENT_TYPE) {
+        return res.status(415).json({ message: `Content-Type must be ${OFFSET_CONTENT_TYPE}` });
+      }
+
+      // The client must resume exactly where the server left off
+      const offset = Number(req.headers['upload-offset']);
+      if (!Number.isInteger(offset)) {
+        return res.status(400).json({ message: 'Missing or invalid Upload-Offset header' });
+      }
+      if (offset !== session.uploadOffset || uploadService.isBusy(session.id)) {
+        res.setHeader('Upload-Offset', String(session.uploadOffset));
+        return res.status(409).json({ message: 'Upload offset mismatch', uploadOffset: session.uploadOffset });
+      }
+
+      const updatedSession = await uploadService.appendBytes(session, req);
+
+      res.setHeader('Upload-Offset', String(updatedSession.uploadOffset));
+      return res.status(204).end();
+    } catch (error) {
+      console.error('Patch upload error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to write upload', error: errorMessage });
+    }
+  },
+
+  /**
+   * Finish an upload whose bytes have all arrived and queue the file for storing
+   */
+  completeUpload: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const session = await storage.getUploadSession(req.params.id);
+
+      // Check if upload exists and belongs to the user
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+      if (uploadService.isBusy(session.id)) {
+        return res.status(409).json({ message: 'Upload is still in progress' });
+      }
+      if (session.uploadOffset !== session.fileSize) {
+        return res.status(409).json({
+          message: 'Upload is incomplete',
+          uploadOffset: session.uploadOffset,
+          fileSize: session.fileSize
+        });
+      }
+
+      // Check user quota again, other uploads may have finished or been queued in the meantime
+      const userInfo = await storage.getUserWithStorageInfo(req.user.id);
+      const pendingBytes = await jobService.getPendingBytes(req.user.id);
+      if (userInfo && (userInfo.storageInfo.used + pendingBytes + session.fileSize > userInfo.storageInfo.total)) {
+        return res.status(400).json({
+          message: 'Storage quota exceeded',
+          used: userInfo.storageInfo.used,
+          total: userInfo.storageInfo.total,
+          required: session.fileSize
+        });
+      }
+
+      // Storing happens in the background; the job reports how it goes
+      const job = await jobService.enqueue(req.user.id, await uploadService.completeSession(session));
+
+      return res.status(202).json(job);
+    } catch (error) {
+      console.error('Complete upload error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'File upload failed', error: errorMessage });
+    }
+  },
+
+  /**
+   * Abandon an upload and discard the bytes received so far
+   */
+  deleteUpload: async (req: Request, res: Response) => {
+    try {
+      // Check if user is authenticated
+      if (!req.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const session = await storage.getUploadSession(req.params.id);
+
+      // Check if upload exists and belongs to the user
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+      if (uploadService.isBusy(session.id)) {
+        return res.status(409).json({ message: 'Upload is still in progress' });
+      }
+
+      await uploadService.abortSession(session.id);
+
+      return res.status(200).json({ message: 'Upload cancelled' });
+    } catch (error) {
+      console.error('Delete upload error:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return res.status(500).json({ message: 'Failed to cancel upload', error: errorMessage });
+    }
+  },
+};
@@ -0,0 +1,11 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import ws from 'ws';
+import * as schema from '@shared/schema';
+
+neonConfig.webSocketConstructor = ws;
+
+// The pool only connects on the first query, so importing this module is
+// harmless when DATABASE_URL is unset and MemStorage is in use.
+export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+export const db = drizzle({ client: pool, schema });
@@ -0,0 +1,51 @@
+import 'dotenv/config';
+
+import { storage } from './storage';
+import { encryptionService } from './services/encryption.service';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// Re-wrap every file's data key with the active master key (STORAGE_ACTIVE_KEY_ID).
+// Only the wrapped keys change; the payloads on Telegram are left as they are.
+// Keep the old key in STORAGE_MASTER_KEYS until this has finished without failures.
+async function rotateKeys(): Promise<number> {
+  const activeKeyId = encryptionService.getActiveKeyId();
+  if (!activeKeyId) {
+    throw new Error('STORAGE_MASTER_KEYS is not set, there is nothing to rotate to');
+  }
+
+  const files = await storage.getFilesNotWrappedWith(activeKeyId);
+  logger.info(`Re-wrapping ${files.length} data key(s) with master key "${activeKeyId}"`);
+
+  let failed = 0;
+  for (const file of files) {
+    const encryption = encryptionService.getFileEncryption(file);
+    if (!encryption) {
+      continue;
+    }
+
+    try {
+      const rewrapped = encryptionService.rewrap(encryption);
+      await storage.updateFileDataKey(file.id, rewrapped.wrappedDataKey, rewrapped.masterKeyId);
+    } catch (error) {
+      failed++;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to re-wrap the data key of file ${file.id}: ${errorMessage}`);
+    }
+  }
+
+  logger.info(`Re-wrapped ${files.length - failed} data key(s), ${failed} failed`);
+  return failed;
+}
+
+rotateKeys()
+  .then((failed) => process.exit(failed > 0 ? 1 : 0))
+  .catch((error) => {
+    logger.error(error);
+    process.exit(1);
+  });
@@ -12,24 +12,33 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { authController } from "./controllers/auth.controller";
 import { filesController } from "./controllers/files.controller";
+import { foldersController } from "./controllers/folders.controller";
+import { uploadsController } from "./controllers/uploads.controller";
+import { jobsController } from "./controllers/jobs.controller";
+import { adminController } from "./controllers/admin.controller";
 import multer from "multer";
 import { z } from "zod";
-import { telegramService } from "./services/telegram.service";
+import { blobBackend } from "./backends";
 import { firebaseService } from "./services/firebase.service";
+import { trashService } from "./services/trash.service";
+import { uploadService, UPLOAD_DIR } from "./services/upload.service";
+import { jobService } from "./services/job.service";
+import { socketService } from "./services/socket.service";
+import { janitorService } from "./services/janitor.service";
 import fs from 'fs';
 
-// Initialize Firebase Admin and Telegram services
+// Initialize Firebase Admin and the storage backend
 const initializeServices = async () => {
   try {
     await firebaseService.initialize();
     console.log("Firebase service initialized successfully");
     
     // Skip Telegram service initialization in WebContainer environment
-    if (process.env.NODE_ENV === 'development') {
+    if (blobBackend.name === 'telegram' && process.env.NODE_ENV === 'development') {
       console.warn("Skipping Telegram service initialization in development environment due to native addon limitations");
     } else {
-      await telegramService.initialize();
-      console.log("Telegram service initialized successfully");
+      await blobBackend.initialize();
+      console.log(`Storage backend "${blobBackend.name}" initialized successfully`);
     }
   } catch (error) {
     const isDevelopment = process.env.NODE_ENV === 'development';
@@ -48,16 +57,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize services
   await initializeServices();
 
+  // Purge trashed files once their retention period is over
+  trashService.start();
+
+  // Drop resumable uploads that were abandoned
+  uploadService.start();
+
+  // Pick up the upload jobs a previous run left unfinished
+  await jobService.start();
+
+  // Remove abandoned temp files and keep TDLib's file cache in check
+  janitorService.start();
+
   // Setup multer for file uploads
   // Change from memory storage to disk storage
   const diskStorage = multer.diskStorage({
     destination: function (req, file, cb) {
       // Create a temp directory if it doesn't exist
-      const tmpDir = './temp_uploads';
-      if (!fs.existsSync(tmpDir)) {
-        fs.mkdirSync(tmpDir, { recursive: true });
+      if (!fs.existsSync(UPLOAD_DIR)) {
+        fs.mkdirSync(UPLOAD_DIR, { recursive: true });
       }
-      cb(null, tmpDir);
+      cb(null, UPLOAD_DIR);
     },
     filename: function (req, file, cb) {
       // Generate a unique filename
@@ -98,30 +118,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
+  // <video> and <audio> elements can't send headers, so media streams may pass the token as ?token=
+  const queryTokenAuthMiddleware = (req: Request, res: Response, next: Function) => {
+    if (!req.headers.authorization && typeof req.query.token === "string") {
+      req.headers.authorization = `Bearer ${req.query.token}`;
+    }
+    return authMiddleware(req, res, next);
+  };
+
   // API routes
   // Auth routes
   app.post("/api/auth/login", authController.login);
   app.post("/api/auth/register", authController.register);
   app.get("/api/auth/me", authMiddleware, authController.getCurrentUser);
+  app.patch("/api/auth/settings", authMiddleware, authController.updateSettings);
+  app.post("/api/auth/settings/channel-verification", authMiddleware, authController.startChannelVerification);
 
   // File routes
   app.get("/api/files", authMiddleware, filesController.getUserFiles);
   app.get("/api/files/recent", authMiddleware, filesController.getRecentFiles);
   app.get("/api/files/type/:type", authMiddleware, filesController.getFilesByType);
+  app.get("/api/files/trash", authMiddleware, filesController.getTrashedFiles);
+  app.get("/api/files/starred", authMiddleware, filesController.getStarredFiles);
+  app.get("/api/files/shared", authMiddleware, filesController.getIncomingSharedFiles);
+  app.get("/api/files/shared/outgoing", authMiddleware, filesController.getOutgoingSharedFiles);
+  app.patch("/api/files/star", authMiddleware, filesController.starFiles);
   app.get("/api/files/:id", authMiddleware, filesController.getFile);
   app.post("/api/files/save-temp", authMiddleware, upload.single("file"), filesController.saveTempFile); // New route for temporary saving
-  app.post("/api/files/upload", authMiddleware, upload.single("file"), filesController.uploadFile); // Keep upload.single for direct uploads or if tempPath is not used
+  app.post("/api/files/upload", authMiddleware, upload.single("file"), filesController.uploadFile); // Takes the file itself or a save-temp token
   app.get("/api/files/:id/download", authMiddleware, filesController.downloadFile);
+  app.get("/api/files/:id/stream", queryTokenAuthMiddleware, filesController.streamFile);
   app.delete("/api/files/:id", authMiddleware, filesController.deleteFile);
+  app.post("/api/files/:id/restore", authMiddleware, filesController.restoreFile);
+  app.delete("/api/files/:id/permanent", authMiddleware, filesController.permanentlyDeleteFile);
   app.patch("/api/files/:id/star", authMiddleware, filesController.starFile);
+  app.patch("/api/files/:id/move", authMiddleware, filesController.moveFile);
+
+  // Resumable upload routes
+  app.get("/api/uploads", authMiddleware, uploadsController.getUploads);
+  app.post("/api/uploads", authMiddleware, uploadsController.createUpload);
+  app.head("/api/uploads/:id", authMiddleware, uploadsController.getUploadOffset);
+  app.patch("/api/uploads/:id", authMiddleware, uploadsController.patchUpload);
+  app.post("/api/uploads/:id/complete", authMiddleware, uploadsController.completeUpload);
+  app.delete("/api/uploads/:id", authMiddleware, uploadsController.deleteUpload);
+
+  // Upload job routes
+  app.get("/api/jobs", authMiddleware, jobsController.getJobs);
+  app.get("/api/jobs/:id", authMiddleware, jobsController.getJob);
+  app.delete("/api/jobs/:id", authMiddleware, jobsController.cancelJob);
+
+  // Folder routes
+  app.get("/api/folders", authMiddleware, foldersController.getFolderContents);
+  app.get("/api/folders/:id", authMiddleware, foldersController.getFolderContents);
+  app.post("/api/folders", authMiddleware, foldersController.createFolder);
+  app.patch("/api/folders/:id/rename", authMiddleware, foldersController.renameFolder);
+  app.patch("/api/folders/:id/move", authMiddleware, foldersController.moveFolder);
+
+  // Admin routes
+  app.get("/api/admin/temp-files", authMiddleware, adminController.getTempFileStats);
 
   // Shared file routes
   app.post("/api/files/:id/share", authMiddleware, filesController.shareFile);
+  app.post("/api/folders/:id/share", authMiddleware, filesController.shareFolder);
+  app.get("/api/folders/:id/shared", authMiddleware, filesController.getFolderSharedLinks);
+  app.post("/api/files/:id/permissions", authMiddleware, filesController.shareWithUser);
+  app.delete("/api/files/:id/permissions/:permissionId", authMiddleware, filesController.revokeFilePermission);
+  app.patch("/api/shared/:id", authMiddleware, filesController.updateSharedLink);
   app.delete("/api/shared/:id", authMiddleware, filesController.deleteSharedLink);
   app.get("/api/shared/:shareLink", filesController.getSharedFile);
+  app.get("/api/shared/:shareLink/download", filesController.downloadSharedFile);
+  app.post("/api/shared/:shareLink/unlock", filesController.unlockSharedFile);
 
   // Setup HTTP server
   const httpServer = createServer(app);
 
+  // Push upload job progress to browsers over WebSocket
+  socketService.attach(httpServer);
+
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// Used when neither TELEGRAM_CHANNEL_IDS nor TELEGRAM_CHANNEL_ID is set (development)
+const FALLBACK_CHANNEL_ID = '-1002538087779';
+
+// How new files are spread over the pool
+export type ChannelPolicy = 'round-robin' | 'per-user' | 'size';
+
+const CHANNEL_POLICIES: ChannelPolicy[] = ['round-robin', 'per-user', 'size'];
+
+// How long a user has to post a verification code in their channel
+const VERIFICATION_TTL_MS = 30 * 60 * 1000;
+
+// A code a user was given to post in the channel they want to use, proving they run it
+export interface ChannelVerification {
+  channelId: string;
+  code: string;
+  expiresAt: Date;
+}
+
+/**
+ * Service for choosing which Telegram channel a new file goes to
+ *
+ * TELEGRAM_CHANNEL_IDS lists the pool as comma-separated chat IDs; TELEGRAM_CHANNEL_ID alone
+ * still works as a pool of one. TELEGRAM_CHANNEL_POLICY picks the spread:
+ * - round-robin: each new file goes to the next channel in turn (the default)
+ * - per-user: every file of a user goes to the same channel
+ * - size: each new file goes to the channel holding the fewest bytes
+ * A user who set up their own channel always gets it, whatever the policy.
+ * Files remember their channel, so the pool can grow without moving anything.
+ */
+class ChannelService {
+  private channels: string[];
+  private policy: ChannelPolicy;
+  private nextIndex: number = 0;
+  private usage: Map<string, number> | null = null;
+  private verifications: Map<number, ChannelVerification> = new Map(); // By user ID
+
+  constructor() {
+    const configured = (process.env.TELEGRAM_CHANNEL_IDS || process.env.TELEGRAM_CHANNEL_ID || '')
+      .split(',')
+      .map(value => value.trim())
+      .filter(Boolean);
+
+    if (configured.length === 0) {
+      logger.warn('TELEGRAM_CHANNEL_IDS not found in environment variables.');
+    }
+    this.channels = configured.length > 0 ? Array.from(new Set(configured)) : [FALLBACK_CHANNEL_ID];
+
+    const policy = (process.env.TELEGRAM_CHANNEL_POLICY || 'round-robin') as ChannelPolicy;
+    if (!CHANNEL_POLICIES.includes(policy)) {
+      throw new Error(`Unknown TELEGRAM_CHANNEL_POLICY "${policy}"; expected ${CHANNEL_POLICIES.join(', ')}`);
+    }
+    this.policy = policy;
+
+    logger.info(`Telegram channels: ${this.channels.join(', ')} (policy: ${this.policy})`);
+  }
+
+  /**
+   * Channels in the shared pool
+   */
+  getChannels(): string[] {
+    return [...this.channels];
+  }
+
+  /**
+   * Whether a channel is in the shared pool, and so can't become anyone's own
+   * @param channelId Channel to check
+   */
+  isPoolChannel(channelId: string): boolean {
+    return this.channels.includes(channelId);
+  }
+
+  /**
+   * Give a user a code to post in a channel, to prove they run it; replaces any earlier code
+   * @param userId The user
+   * @param channelId Channel they want to use
+   */
+  createVerification(userId: number, channelId: string): ChannelVerification {
+    const verification = {
+      channelId,
+      code: randomBytes(6).toString('hex'),
+      expiresAt: new Date(Date.now() + VERIFICATION_TTL_MS),
+    };
+    this.verifications.set(userId, verification);
+    return verification;
+  }
+
+  /**
+   * The code a user was given for a channel, while it is still valid
+   * @param userId The user
+   * @param channelId Channel they want to use
+   */
+  getVerification(userId: number, channelId: string): ChannelVerification | undefined {
+    const verification = this.verifications.get(userId);
+    if (!verification || verification.channelId !== channelId || verification.expiresAt.getTime() <= Date.now()) {
+      return undefined;
+    }
+    return verification;
+  }
+
+  /**
+   * Forget a user's code once it has been used
+   * @param userId The user
+   */
+  clearVerification(userId: number): void {
+    this.verifications.delete(userId);
+  }
+
+  /**
+   * Channel used when there is nothing to choose from, e.g. for files without an owner
+   */
+  getDefaultChannel(): string {
+    return this.channels[0];
+  }
+
+  /**
+   * Pick the channel for a new file
+   * @param userId Owner of the file, if known
+   * @param size Size of the file in bytes
+   */
+  async selectChannel(userId: number | null, size: number): Promise<string> {
+    if (userId !== null) {
+      const user = await storage.getUser(userId);
+      if (user?.telegramChannelId) {
+        return user.telegramChannelId;
+      }
+    }
+
+    if (this.channels.length === 1) {
+      return this.channels[0];
+    }
+
+    switch (this.policy) {
+      case 'per-user':
+        return userId !== null ? this.channels[userId % this.channels.length] : this.getDefaultChannel();
+      case 'size':
+        return this.getLeastUsedChannel();
+      default: {
+        const channelId = this.channels[this.nextIndex];
+        this.nextIndex = (this.nextIndex + 1) % this.channels.length;
+        return channelId;
+      }
+    }
+  }
+
+  /**
+   * Whether new files of a user may go to a channel
+   * A user's own channel is theirs alone; everyone else shares the pool.
+   * @param userId Owner of the new file, if known
+   * @param channelId Channel to check
+   */
+  async isChannelFor(userId: number | null, channelId: string): Promise<boolean> {
+    if (userId !== null) {
+      const user = await storage.getUser(userId);
+      if (user?.telegramChannelId) {
+        return channelId === user.telegramChannelId;
+      }
+    }
+    return this.channels.includes(channelId);
+  }
+
+  /**
+   * Count a stored file towards its channel, so the size policy sees it straight away
+   * @param channelId Channel the file went to
+   * @param size Size of the file in bytes
+   */
+  recordUsage(channelId: string, size: number): void {
+    if (this.usage) {
+      this.usage.set(channelId, (this.usage.get(channelId) ?? 0) + size);
+    }
+  }
+
+  private async getLeastUsedChannel(): Promise<string> {
+    // Load the totals once; recordUsage keeps them current from then on
+    if (!this.usage) {
+      this.usage = await storage.getChannelUsage();
+    }
+
+    let selected = this.channels[0];
+    for (const channelId of this.channels) {
+      if ((this.usage.get(channelId) ?? 0) < (this.usage.get(selected) ?? 0)) {
+        selected = channelId;
+      }
+    }
+    return selected;
+  }
+}
+
+// Export singleton instance
+export const channelService = new ChannelService();
@@ -0,0 +1,314 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { type File } from '@shared/schema';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// Payloads are sealed in fixed-size AES-256-GCM records so any byte range can be decrypted
+// without reading the whole file. Record i uses the file nonce with i mixed into its last four
+// bytes, and the additional data flags the final record so truncation is detected.
+const RECORD_SIZE = 1024 * 1024; // 1MB of plaintext per record
+const TAG_LENGTH = 16;
+const NONCE_LENGTH = 12;
+const ENCRYPTED_RECORD_SIZE = RECORD_SIZE + TAG_LENGTH;
+
+// How a file's payload was encrypted, as stored on its row
+export interface PayloadEncryption {
+  wrappedDataKey: string; // base64 of iv | tag | encrypted data key
+  masterKeyId: string;
+  nonce: string; // base64
+}
+
+const getRecordNonce = (nonce: Buffer, index: number): Buffer => {
+  const recordNonce = Buffer.from(nonce);
+  recordNonce.writeUInt32BE((recordNonce.readUInt32BE(NONCE_LENGTH - 4) ^ index) >>> 0, NONCE_LENGTH - 4);
+  return recordNonce;
+};
+
+const getRecordData = (isLast: boolean): Buffer => Buffer.from([isLast ? 1 : 0]);
+
+const sealRecord = (dataKey: Buffer, nonce: Buffer, index: number, isLast: boolean, plaintext: Buffer): Buffer => {
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, getRecordNonce(nonce, index));
+  cipher.setAAD(getRecordData(isLast));
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+};
+
+const openRecord = (dataKey: Buffer, nonce: Buffer, index: number, isLast: boolean, record: Buffer): Buffer => {
+  if (record.length < TAG_LENGTH) {
+    throw new Error(`Encrypted record ${index} is truncated`);
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, getRecordNonce(nonce, index));
+  decipher.setAAD(getRecordData(isLast));
+  decipher.setAuthTag(record.subarray(record.length - TAG_LENGTH));
+  return Buffer.concat([decipher.update(record.subarray(0, record.length - TAG_LENGTH)), decipher.final()]);
+};
+
+/**
+ * Service for encrypting Telegram payloads at rest with per-file data keys
+ * wrapped by a master key from the environment
+ *
+ * STORAGE_MASTER_KEYS lists the master keys as comma-separated `id:base64` pairs (32-byte keys).
+ * STORAGE_ACTIVE_KEY_ID picks the one that wraps new data keys and defaults to the first.
+ * Older keys stay in the list until `npm run keys:rotate` has re-wrapped everything under the active one.
+ */
+class EncryptionService {
+  private masterKeys: Map<string, Buffer> = new Map();
+  private activeKeyId: string | null = null;
+
+  constructor() {
+    const configured = process.env.STORAGE_MASTER_KEYS || '';
+
+    for (const entry of configured.split(',').map(value => value.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const keyId = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator <= 0 || key.length !== 32) {
+        throw new Error(`Invalid master key "${keyId || entry}" in STORAGE_MASTER_KEYS; expected id:base64 of 32 bytes`);
+      }
+      this.masterKeys.set(keyId, key);
+    }
+
+    if (this.masterKeys.size > 0) {
+      this.activeKeyId = process.env.STORAGE_ACTIVE_KEY_ID || Array.from(this.masterKeys.keys())[0];
+      if (!this.masterKeys.has(this.activeKeyId)) {
+        throw new Error(`STORAGE_ACTIVE_KEY_ID "${this.activeKeyId}" is not in STORAGE_MASTER_KEYS`);
+      }
+      logger.info(`At-rest encryption enabled with master key "${this.activeKeyId}"`);
+    }
+  }
+
+  /**
+   * Whether new uploads are encrypted
+   */
+  isEnabled(): boolean {
+    return this.activeKeyId !== null;
+  }
+
+  /**
+   * ID of the master key that wraps new data keys
+   */
+  getActiveKeyId(): string | null {
+    return this.activeKeyId;
+  }
+
+  /**
+   * Get the payload encryption stored on a file row, if it has any
+   * @param file The file
+   */
+  getFileEncryption(file: File): PayloadEncryption | null {
+    if (!file.wrappedDataKey || !file.masterKeyId || !file.dataNonce) {
+      return null;
+    }
+    return { wrappedDataKey: file.wrappedDataKey, masterKeyId: file.masterKeyId, nonce: file.dataNonce };
+  }
+
+  /**
+   * Size of a payload once encrypted
+   * @param size Plaintext size in bytes
+   */
+  getEncryptedSize(size: number): number {
+    return size + Math.max(1, Math.ceil(size / RECORD_SIZE)) * TAG_LENGTH;
+  }
+
+  /**
+   * Size of a payload once decrypted
+   * @param encryptedSize Ciphertext size in bytes
+   */
+  getPlaintextSize(encryptedSize: number): number {
+    const plaintextSize = encryptedSize - Math.max(1, Math.ceil(encryptedSize / ENCRYPTED_RECORD_SIZE)) * TAG_LENGTH;
+    if (plaintextSize < 0) {
+      throw new Error('Encrypted payload is truncated');
+    }
+    return plaintextSize;
+  }
+
+  /**
+   * Create a data key for a new file, wrapped with the active master key
+   */
+  createDataKey(): { dataKey: Buffer; encryption: PayloadEncryption } {
+    if (!this.activeKeyId) {
+      throw new Error('At-rest encryption is not configured');
+    }
+
+    const dataKey = crypto.randomBytes(32);
+    return {
+      dataKey,
+      encryption: {
+        wrappedDataKey: this.wrap(dataKey, this.activeKeyId),
+        masterKeyId: this.activeKeyId,
+        nonce: crypto.randomBytes(NONCE_LENGTH).toString('base64'),
+      },
+    };
+  }
+
+  /**
+   * Re-wrap a file's data key with the active master key; the payload itself is untouched
+   * @param encryption The file's current encryption
+   */
+  rewrap(encryption: PayloadEncryption): PayloadEncryption {
+    if (!this.activeKeyId) {
+      throw new Error('At-rest encryption is not configured');
+    }
+
+    const dataKey = this.unwrap(encryption);
+    return { ...encryption, wrappedDataKey: this.wrap(dataKey, this.activeKeyId), masterKeyId: this.activeKeyId };
+  }
+
+  /**
+   * Encrypt a file on disk
+   * @param inputPath Plaintext file
+   * @param outputPath Where to write the ciphertext
+   * @param dataKey The file's data key
+   * @param encryption The file's encryption parameters
+   */
+  async encryptFile(inputPath: string, outputPath: string, dataKey: Buffer, encryption: PayloadEncryption): Promise<void> {
+    const nonce = Buffer.from(encryption.nonce, 'base64');
+    const recordCount = Math.max(1, Math.ceil(fs.statSync(inputPath).size / RECORD_SIZE));
+
+    async function* sealRecords(source: AsyncIterable<Buffer>) {
+      let index = 0;
+      for await (const record of source) {
+        yield sealRecord(dataKey, nonce, index, index === recordCount - 1, record);
+        index++;
+      }
+      // An empty file still gets one (empty) record so its tag can be checked
+      if (index === 0) {
+        yield sealRecord(dataKey, nonce, 0, true, Buffer.alloc(0));
+      }
+    }
+
+    await pipeline(
+      fs.createReadStream(inputPath, { highWaterMark: RECORD_SIZE }),
+      this.rechunk(RECORD_SIZE),
+      sealRecords,
+      fs.createWriteStream(outputPath)
+    );
+  }
+
+  /**
+   * Decrypt a whole file on disk
+   * @param inputPath Ciphertext file
+   * @param outputPath Where to write the plaintext
+   * @param encryption The file's encryption parameters
+   */
+  async decryptFile(inputPath: string, outputPath: string, encryption: PayloadEncryption): Promise<void> {
+    const encryptedSize = fs.statSync(inputPath).size;
+    const plaintextSize = this.getPlaintextSize(encryptedSize);
+
+    await pipeline(
+      fs.createReadStream(inputPath),
+      this.createDecryptStream(encryption, encryptedSize, 0, plaintextSize - 1),
+      fs.createWriteStream(outputPath)
+    );
+  }
+
+  /**
+   * Map a plaintext byte range to the ciphertext range holding it
+   * @param start First plaintext byte
+   * @param end Last plaintext byte (inclusive)
+   * @param encryptedSize Total ciphertext size
+   */
+  getEncryptedRange(start: number, end: number, encryptedSize: number): { start: number; end: number } {
+    return {
+      start: Math.floor(start / RECORD_SIZE) * ENCRYPTED_RECORD_SIZE,
+      end: Math.min((Math.floor(end / RECORD_SIZE) + 1) * ENCRYPTED_RECORD_SIZE, encryptedSize) - 1,
+    };
+  }
+
+  /**
+   * Build a transform that turns the ciphertext range from getEncryptedRange back into
+   * exactly the requested plaintext bytes
+   * @param encryption The file's encryption parameters
+   * @param encryptedSize Total ciphertext size
+   * @param start First plaintext byte
+   * @param end Last plaintext byte (inclusive)
+   */
+  createDecryptStream(encryption: PayloadEncryption, encryptedSize: number, start: number, end: number) {
+    const dataKey = this.unwrap(encryption);
+    const nonce = Buffer.from(encryption.nonce, 'base64');
+    const recordCount = Math.max(1, Math.ceil(encryptedSize / ENCRYPTED_RECORD_SIZE));
+    const firstRecord = Math.floor(start / RECORD_SIZE);
+    const rechunk = this.rechunk(ENCRYPTED_RECORD_SIZE);
+
+    return async function* (source: AsyncIterable<Buffer>) {
+      let index = firstRecord;
+      let position = firstRecord * RECORD_SIZE; // plaintext offset of the current record
+
+      for await (const record of rechunk(source)) {
+        const plaintext = openRecord(dataKey, nonce, index, index === recordCount - 1, record);
+        const from = Math.max(start - position, 0);
+        const to = Math.min(end - position + 1, plaintext.length);
+        if (to > from) {
+          yield plaintext.subarray(from, to);
+        }
+
+        position += plaintext.length;
+        index++;
+        if (position > end) break;
+      }
+    };
+  }
+
+  /**
+   * Build a transform that regroups a byte stream into buffers of exactly `size` bytes (the last may be shorter)
+   * @param size Size of each buffer
+   */
+  private rechunk(size: number) {
+    return async function* (source: AsyncIterable<Buffer>) {
+      let pending: Buffer[] = [];
+      let pendingLength = 0;
+
+      for await (const data of source) {
+        pending.push(data);
+        pendingLength += data.length;
+
+        while (pendingLength >= size) {
+          const joined = Buffer.concat(pending, pendingLength);
+          yield joined.subarray(0, size);
+          pending = [joined.subarray(size)];
+          pendingLength -= size;
+        }
+      }
+
+      if (pendingLength > 0) {
+        yield Buffer.concat(pending, pendingLength);
+      }
+    };
+  }
+
+  private wrap(dataKey: Buffer, keyId: string): string {
+    const masterKey = this.getMasterKey(keyId);
+    const iv = crypto.randomBytes(NONCE_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', masterKey, iv);
+    cipher.setAAD(Buffer.from(keyId));
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+  }
+
+  private unwrap(encryption: PayloadEncryption): Buffer {
+    const masterKey = this.getMasterKey(encryption.masterKeyId);
+    const wrapped = Buffer.from(encryption.wrappedDataKey, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey, wrapped.subarray(0, NONCE_LENGTH));
+    decipher.setAAD(Buffer.from(encryption.masterKeyId));
+    decipher.setAuthTag(wrapped.subarray(NONCE_LENGTH, NONCE_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(wrapped.subarray(NONCE_LENGTH + TAG_LENGTH)), decipher.final()]);
+  }
+
+  private getMasterKey(keyId: string): Buffer {
+    const masterKey = this.masterKeys.get(keyId);
+    if (!masterKey) {
+      throw new Error(`Master key "${keyId}" is not configured`);
+    }
+    return masterKey;
+  }
+}
+
+// Export singleton instance
+export const encryptionService = new EncryptionService();
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { storage } from '../storage';
+import { JanitorService } from './janitor.service';
+
+const TTL_MS = 60 * 60 * 1000;
+const MAX_TDLIB_BYTES = 3000;
+
+let workDir: string;
+let tempDir: string;
+let tdlibFilesDir: string;
+let janitor: JanitorService;
+
+// Write a file that was last modified ageMs ago
+const writeFile = (filePath: string, size: number, ageMs: number = 0): string => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, Buffer.alloc(size));
+  const modifiedAt = new Date(Date.now() - ageMs);
+  fs.utimesSync(filePath, modifiedAt, modifiedAt);
+  return path.resolve(filePath);
+};
+
+describe('JanitorService', () => {
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'janitor-test-'));
+    tempDir = path.join(workDir, 'temp');
+    tdlibFilesDir = path.join(workDir, 'tdlib_files');
+    janitor = new JanitorService({ tempDirs: [tempDir], tdlibFilesDir, ttlMs: TTL_MS, tdlibFilesMaxBytes: MAX_TDLIB_BYTES });
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('removes temp files older than the TTL and keeps fresh ones', async () => {
+    const abandoned = writeFile(path.join(tempDir, 'abandoned.bin'), 100, TTL_MS + 1000);
+    const fresh = writeFile(path.join(tempDir, 'fresh.bin'), 100);
+
+    expect(await janitor.sweep()).toEqual({ files: 1, bytes: 100 });
+
+    expect(fs.existsSync(abandoned)).toBe(false);
+    expect(fs.existsSync(fresh)).toBe(true);
+  });
+
+  it('leaves the bytes of upload jobs that are still pending', async () => {
+    const filePath = writeFile(path.join(tempDir, 'queued.bin'), 100, TTL_MS + 1000);
+    const chunkPath = writeFile(`${filePath}.part1`, 50, TTL_MS + 1000);
+    const job = await storage.createUploadJob({
+      id: uuidv4(),
+      userId: 1,
+      filePath,
+      fileName: 'queued.bin',
+      mimeType: null,
+      fileSize: 100,
+      folderId: null,
+      wrappedKey: null,
+      encryptionIv: null,
+      encryptionSalt: null,
+    });
+
+    try {
+      await janitor.sweep();
+
+      expect(fs.existsSync(filePath)).toBe(true);
+      expect(fs.existsSync(chunkPath)).toBe(true);
+    } finally {
+      await storage.updateUploadJob(job.id, { status: 'failed' });
+    }
+  });
+
+  it('leaves the bytes of upload sessions that have not expired, however long they sit paused', async () => {
+    const createSession = (expiresAt: Date) => storage.createUploadSession({
+      id: uuidv4(),
+      userId: 1,
+      fileName: 'paused.mov',
+      fileSize: 1000,
+      expiresAt,
+    });
+    const live = await createSession(new Date(Date.now() + TTL_MS));
+    const expired = await createSession(new Date(Date.now() - 1000));
+    const livePath = writeFile(path.join(tempDir, `session-${live.id}`), 100, TTL_MS + 1000);
+    const expiredPath = writeFile(path.join(tempDir, `session-${expired.id}`), 100, TTL_MS + 1000);
+
+    try {
+      await janitor.sweep();
+
+      expect(fs.existsSync(livePath)).toBe(true);
+      expect(fs.existsSync(expiredPath)).toBe(false);
+    } finally {
+      await storage.deleteUploadSession(live.id);
+      await storage.deleteUploadSession(expired.id);
+    }
+  });
+
+  it('removes a tracked file once its TTL is up', async () => {
+    const saved = writeFile(path.join(tempDir, 'saved.bin'), 100);
+    janitor.track(saved);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(Date.now() + TTL_MS + 1000);
+      await janitor.sweep();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(fs.existsSync(saved)).toBe(false);
+    expect(janitor.isTracked(saved)).toBe(false);
+  });
+
+  it('keeps a tracked file until its TTL is up, however old the file is', async () => {
+    const saved = writeFile(path.join(tempDir, 'saved.bin'), 100, TTL_MS + 1000);
+
+    janitor.track(saved);
+    await janitor.sweep();
+
+    expect(fs.existsSync(saved)).toBe(true);
+  });
+
+  it("trims TDLib's file cache to its cap, oldest files first and recent ones never", async () => {
+    const oldest = writeFile(path.join(tdlibFilesDir, 'main', 'documents', 'oldest'), 1000, 3 * TTL_MS);
+    const older = writeFile(path.join(tdlibFilesDir, 'backup', 'documents', 'older'), 1000, 2 * TTL_MS);
+    const old = writeFile(path.join(tdlibFilesDir, 'main', 'documents', 'old'), 1000, TTL_MS);
+    const recent = writeFile(path.join(tdlibFilesDir, 'main', 'temp', 'recent'), 1500);
+
+    await janitor.sweep();
+
+    expect([oldest, older, old, recent].map(file => fs.existsSync(file))).toEqual([false, false, true, true]);
+  });
+
+  it('reports the size of what it looks after and what it removed', async () => {
+    writeFile(path.join(tempDir, 'abandoned.bin'), 100, TTL_MS + 1000);
+    writeFile(path.join(tempDir, 'saved.bin'), 200);
+    writeFile(path.join(tdlibFilesDir, 'main', 'documents', 'cached'), 500);
+    janitor.track(path.join(tempDir, 'saved.bin'));
+
+    await janitor.sweep();
+    const stats = await janitor.getStats();
+
+    expect(stats).toMatchObject({
+      ttlMs: TTL_MS,
+      trackedFiles: 1,
+      tempDirs: [{ path: tempDir, files: 1, bytes: 200 }],
+      tdlibFiles: { path: tdlibFilesDir, files: 1, bytes: 500, maxBytes: MAX_TDLIB_BYTES },
+      removedFiles: 1,
+      removedBytes: 100,
+    });
+    expect(stats.lastRunAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,267 @@
+import { storage } from '../storage';
+import { UPLOAD_DIR, SESSION_FILE_PREFIX } from './upload.service';
+import { TEMP_DIR } from './telegram.service';
+import { PeriodicTask } from './periodic-task';
+import { TDLIB_FILES_DIR, TDLIB_DOWNLOADS_DIR } from '../tdlib';
+import * as fs from 'fs';
+import * as path from 'path';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// TDLib files touched this recently may still be downloading or being read, so the cap leaves them be
+const RECENT_FILE_MS = 10 * 60 * 1000;
+
+// Where temp files live and how long they may
+export interface JanitorOptions {
+  tempDirs: string[]; // Directories holding nothing but temp files
+  tdlibFilesDir: string; // TDLib's file cache, kept under tdlibFilesMaxBytes
+  ttlMs: number; // Age at which a temp file nobody claims is abandoned
+  tdlibFilesMaxBytes: number;
+}
+
+// Size of a directory as of the last look
+export interface DirectoryStats {
+  path: string;
+  files: number;
+  bytes: number;
+}
+
+// What the janitor sees and has done, for admins
+export interface JanitorStats {
+  ttlMs: number;
+  trackedFiles: number;
+  tempDirs: DirectoryStats[];
+  tdlibFiles: DirectoryStats & { maxBytes: number };
+  lastRunAt: Date | null;
+  removedFiles: number; // Since the server started
+  removedBytes: number;
+}
+
+interface FileEntry {
+  path: string;
+  size: number;
+  modifiedAt: number;
+}
+
+/**
+ * Read the janitor settings from the environment
+ * TEMP_FILE_TTL_HOURS is how long temp files are kept (default 24); TDLIB_FILES_MAX_BYTES caps
+ * TDLib's file cache (default 10GB).
+ */
+export function getJanitorOptions(): JanitorOptions {
+  return {
+    tempDirs: [UPLOAD_DIR, TEMP_DIR, TDLIB_DOWNLOADS_DIR],
+    tdlibFilesDir: TDLIB_FILES_DIR,
+    ttlMs: Math.max(1, parseInt(process.env.TEMP_FILE_TTL_HOURS || '') || 24) * 60 * 60 * 1000,
+    tdlibFilesMaxBytes: parseInt(process.env.TDLIB_FILES_MAX_BYTES || '') || 10 * 1024 * 1024 * 1024,
+  };
+}
+
+/**
+ * Service for removing temp files that were left behind
+ *
+ * Files handed out for a later request (e.g. by save-temp) are tracked and removed once their TTL
+ * is up unless someone claims them first. Anything else in the temp directories that is older than
+ * the TTL is abandoned too, such as files a crash or a restart left behind, except the bytes of
+ * upload jobs still waiting to be stored and of resumable upload sessions that haven't expired. TDLib's file cache is trimmed, oldest first, whenever it
+ * grows past its cap; TDLib downloads a file again if it needs it.
+ */
+export class JanitorService {
+  private sweepTask = new PeriodicTask('Temp file sweep', () => this.sweep());
+  private sweeping: boolean = false;
+  // Tracked temp files and when they expire
+  private tracked: Map<string, number> = new Map();
+  private lastRunAt: Date | null = null;
+  private removedFiles: number = 0;
+  private removedBytes: number = 0;
+
+  constructor(private options: JanitorOptions = getJanitorOptions()) {}
+
+  /**
+   * Start sweeping periodically
+   * @param intervalMs How often to sweep
+   */
+  start(intervalMs: number = 15 * 60 * 1000): void {
+    this.sweepTask.start(intervalMs);
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  stop(): void {
+    this.sweepTask.stop();
+  }
+
+  /**
+   * Take charge of a temp file; it is removed once it expires unless released before
+   * @param filePath The temp file
+   * @param expiresAt When to remove it; the TTL from now by default
+   */
+  track(filePath: string, expiresAt: Date = new Date(Date.now() + this.options.ttlMs)): void {
+    this.tracked.set(path.resolve(filePath), expiresAt.getTime());
+  }
+
+  /**
+   * Hand a tracked temp file over to whoever uses it now, e.g. an upload job
+   * @param filePath The temp file
+   */
+  release(filePath: string): void {
+    this.tracked.delete(path.resolve(filePath));
+  }
+
+  /**
+   * Whether a file is one the janitor is in charge of
+   * @param filePath The temp file
+   */
+  isTracked(filePath: string): boolean {
+    return this.tracked.has(path.resolve(filePath));
+  }
+
+  /**
+   * Remove abandoned temp files and bring TDLib's file cache under its cap
+   * @returns Number of files removed and the bytes they took
+   */
+  async sweep(): Promise<{ files: number; bytes: number }> {
+    if (this.sweeping) {
+      return { files: 0, bytes: 0 };
+    }
+    this.sweeping = true;
+
+    try {
+      const removed = { files: 0, bytes: 0 };
+      const remove = (file: FileEntry) => {
+        fs.rmSync(file.path, { force: true });
+        this.tracked.delete(file.path);
+        removed.files++;
+        removed.bytes += file.size;
+      };
+
+      // A job's file and what is derived from it (.enc, .partN) stay until the job is over
+      const pendingJobs = await storage.getUploadJobsByStatus(['queued', 'uploading']);
+      const pendingPaths = pendingJobs.map(job => path.resolve(job.filePath));
+      const isPending = (filePath: string) =>
+        pendingPaths.some(jobPath => filePath === jobPath || filePath.startsWith(`${jobPath}.`));
+
+      const now = Date.now();
+
+      // A paused upload session keeps its bytes until the session expires, however long that is
+      const isLiveSession = async (filePath: string) => {
+        const name = path.basename(filePath);
+        if (!name.startsWith(SESSION_FILE_PREFIX)) {
+          return false;
+        }
+        const session = await storage.getUploadSession(name.slice(SESSION_FILE_PREFIX.length));
+        return !!session && session.expiresAt.getTime() > now;
+      };
+
+      for (const dir of this.options.tempDirs) {
+        for (const file of await listFiles(dir, false)) {
+          const expiresAt = this.tracked.get(file.path) ?? file.modifiedAt + this.options.ttlMs;
+          if (expiresAt <= now && !isPending(file.path) && !(await isLiveSession(file.path))) {
+            remove(file);
+          }
+        }
+      }
+
+      // Tracked files that are gone already need no more watching
+      for (const filePath of Array.from(this.tracked.keys())) {
+        if (!fs.existsSync(filePath)) {
+          this.tracked.delete(filePath);
+        }
+      }
+
+      const tdlibFiles = await listFiles(this.options.tdlibFilesDir, true);
+      let tdlibBytes = tdlibFiles.reduce((total, file) => total + file.size, 0);
+      if (tdlibBytes > this.options.tdlibFilesMaxBytes) {
+        const evictable = tdlibFiles
+          .filter(file => file.modifiedAt < now - RECENT_FILE_MS)
+          .sort((a, b) => a.modifiedAt - b.modifiedAt);
+        for (const file of evictable) {
+          if (tdlibBytes <= this.options.tdlibFilesMaxBytes) {
+            break;
+          }
+          remove(file);
+          tdlibBytes -= file.size;
+        }
+      }
+
+      this.lastRunAt = new Date(now);
+      this.removedFiles += removed.files;
+      this.removedBytes += removed.bytes;
+      if (removed.files > 0) {
+        logger.info(`Removed ${removed.files} temp file(s), ${removed.bytes} bytes`);
+      }
+      return removed;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Get the size of the temp directories and TDLib's file cache, and what the janitor has removed
+   */
+  async getStats(): Promise<JanitorStats> {
+    const tempDirs = await Promise.all(this.options.tempDirs.map(dir => getDirectoryStats(dir, false)));
+    const tdlibFiles = await getDirectoryStats(this.options.tdlibFilesDir, true);
+
+    return {
+      ttlMs: this.options.ttlMs,
+      trackedFiles: this.tracked.size,
+      tempDirs,
+      tdlibFiles: { ...tdlibFiles, maxBytes: this.options.tdlibFilesMaxBytes },
+      lastRunAt: this.lastRunAt,
+      removedFiles: this.removedFiles,
+      removedBytes: this.removedBytes,
+    };
+  }
+}
+
+// The files in a directory, if it exists
+async function listFiles(dir: string, recursive: boolean): Promise<FileEntry[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: FileEntry[] = [];
+  for (const entry of entries) {
+    const entryPath = path.resolve(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) {
+        files.push(...await listFiles(entryPath, true));
+      }
+      continue;
+    }
+    if (!entry.isFile()) {
+      continue;
+    }
+    // Files can go away between listing and looking at them
+    const stats = await fs.promises.stat(entryPath).catch(() => null);
+    if (stats) {
+      files.push({ path: entryPath, size: stats.size, modifiedAt: stats.mtimeMs });
+    }
+  }
+  return files;
+}
+
+async function getDirectoryStats(dir: string, recursive: boolean): Promise<DirectoryStats> {
+  const files = await listFiles(dir, recursive);
+  return {
+    path: path.resolve(dir),
+    files: files.length,
+    bytes: files.reduce((total, file) => total + file.size, 0),
+  };
+}
+
+// Export singleton instance
+export const janitorService = new JanitorService();
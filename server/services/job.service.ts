@@ -0,0 +1,272 @@
+import { storage, type UploadJobChanges } from '../storage';
+import { uploadService, type ReceivedFile } from './upload.service';
+import { PeriodicTask } from './periodic-task';
+import { type UploadJob, type UploadJobStatus } from '@shared/schema';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// How long finished jobs stay listed, so a browser that reconnects can still see how they ended
+const FINISHED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Jobs holding bytes that still have to be stored
+const PENDING_STATUSES: UploadJobStatus[] = ['queued', 'uploading'];
+
+/**
+ * Service for moving received files to the storage backend in the background
+ *
+ * An upload request ends as soon as the server has the bytes; the transfer to the backend
+ * (Telegram, usually) runs as a job that goes queued -> uploading -> done, failed or cancelled.
+ * Jobs are persisted, so a restart picks up where it left off, and every change, including the
+ * backend's progress, is announced to listeners such as the WebSocket server.
+ * UPLOAD_JOB_CONCURRENCY caps how many jobs transfer at once.
+ */
+class JobService {
+  private cleanupTask = new PeriodicTask('Upload job cleanup run', () =>
+    storage.deleteFinishedUploadJobs(new Date(Date.now() - FINISHED_JOB_TTL_MS)));
+  private events: EventEmitter = new EventEmitter();
+  private queue: string[] = [];
+  private running: number = 0;
+  private concurrency: number;
+  // Live progress of running jobs; only status changes are written to storage
+  private progress: Map<string, number> = new Map();
+  // Cancels a started job's transfer
+  private controllers: Map<string, AbortController> = new Map();
+
+  constructor() {
+    this.concurrency = Math.max(1, parseInt(process.env.UPLOAD_JOB_CONCURRENCY || '') || 2);
+  }
+
+  /**
+   * Resume the jobs a previous run left behind and start removing old finished jobs periodically
+   * @param intervalMs How often to look for old finished jobs
+   */
+  async start(intervalMs: number = 60 * 60 * 1000): Promise<void> {
+    if (this.cleanupTask.isRunning()) {
+      return;
+    }
+    this.cleanupTask.start(intervalMs);
+
+    // A job that was uploading when the server stopped starts over from its bytes on disk
+    for (const job of await storage.getUploadJobsByStatus(PENDING_STATUSES)) {
+      if (!fs.existsSync(job.filePath)) {
+        await this.finish(job.id, { status: 'failed', error: 'The uploaded bytes were lost in a server restart' });
+        continue;
+      }
+      if (job.status === 'uploading') {
+        await storage.updateUploadJob(job.id, { status: 'queued', bytesStored: 0 });
+      }
+      this.queue.push(job.id);
+    }
+
+    if (this.queue.length > 0) {
+      logger.info(`Resuming ${this.queue.length} upload job(s)`);
+    }
+    this.drain();
+  }
+
+  /**
+   * Stop the periodic cleanup; running jobs carry on
+   */
+  stop(): void {
+    this.cleanupTask.stop();
+  }
+
+  /**
+   * Queue a received file for storing
+   * @param userId Uploading user
+   * @param received The file on disk; the job owns it from now on and removes it when it is over
+   */
+  async enqueue(userId: number, received: ReceivedFile): Promise<UploadJob> {
+    const job = await storage.createUploadJob({
+      id: uuidv4(),
+      userId,
+      filePath: received.filePath,
+      fileName: received.originalName,
+      mimeType: received.mimeType || null,
+      fileSize: received.size,
+      folderId: received.folderId,
+      wrappedKey: received.encryption?.wrappedKey ?? null,
+      encryptionIv: received.encryption?.iv ?? null,
+      encryptionSalt: received.encryption?.salt ?? null,
+    });
+
+    this.emit(job);
+    this.queue.push(job.id);
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Cancel a job that hasn't finished
+   * A queued job is dropped straight away; a running one stops its transfer, takes back what
+   * already reached the backend and ends as cancelled shortly after. Either way nothing is
+   * stored and no quota is charged.
+   * @param jobId Upload job ID
+   * @returns The job as it stands, or undefined if it doesn't exist
+   */
+  async cancel(jobId: string): Promise<UploadJob | undefined> {
+    const job = await storage.getUploadJob(jobId);
+    if (!job) {
+      return undefined;
+    }
+
+    const controller = this.controllers.get(jobId);
+    if (controller) {
+      logger.info(`Cancelling upload job ${jobId}`);
+      controller.abort();
+      return this.withProgress(job);
+    }
+
+    if (job.status !== 'queued') {
+      return job;
+    }
+
+    this.queue = this.queue.filter(queuedId => queuedId !== jobId);
+    fs.rmSync(job.filePath, { force: true });
+    return this.finish(jobId, { status: 'cancelled' });
+  }
+
+  /**
+   * Get a job with its live progress
+   * @param jobId Upload job ID
+   */
+  async getJob(jobId: string): Promise<UploadJob | undefined> {
+    const job = await storage.getUploadJob(jobId);
+    return job && this.withProgress(job);
+  }
+
+  /**
+   * Get a user's jobs with their live progress, newest first
+   * @param userId Uploading user
+   */
+  async getUserJobs(userId: number): Promise<UploadJob[]> {
+    const jobs = await storage.getUserUploadJobs(userId);
+    return jobs.map(job => this.withProgress(job));
+  }
+
+  /**
+   * Bytes a user has waiting in the queue, which the quota has to leave room for
+   * @param userId Uploading user
+   */
+  async getPendingBytes(userId: number): Promise<number> {
+    const jobs = await storage.getUserUploadJobs(userId);
+    return jobs
+      .filter(job => PENDING_STATUSES.includes(job.status as UploadJobStatus))
+      .reduce((total, job) => total + job.fileSize, 0);
+  }
+
+  /**
+   * Listen to job changes: status changes and progress of running jobs
+   * @returns Function that stops listening
+   */
+  onUpdate(listener: (job: UploadJob) => void): () => void {
+    this.events.on('update', listener);
+    return () => this.events.off('update', listener);
+  }
+
+  // Start queued jobs while there is room
+  private drain(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      const controller = new AbortController();
+      this.controllers.set(jobId, controller);
+      this.running++;
+      this.run(jobId, controller.signal)
+        .catch((error) => logger.error({ err: error }, `Upload job ${jobId} crashed`))
+        .finally(() => {
+          this.controllers.delete(jobId);
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private async run(jobId: string, signal: AbortSignal): Promise<void> {
+    const queued = await storage.getUploadJob(jobId);
+    if (!queued || queued.status !== 'queued') {
+      return;
+    }
+
+    const job = await storage.updateUploadJob(jobId, { status: 'uploading' });
+    if (!job) {
+      return;
+    }
+    this.emit(job);
+    this.progress.set(jobId, 0);
+
+    let outcome: UploadJobChanges;
+    try {
+      let lastPercent = 0;
+      const file = await uploadService.storeFile(job.userId, {
+        filePath: job.filePath,
+        originalName: job.fileName,
+        mimeType: job.mimeType ?? '',
+        size: job.fileSize,
+        folderId: job.folderId,
+        encryption: job.wrappedKey && job.encryptionIv && job.encryptionSalt
+          ? { wrappedKey: job.wrappedKey, iv: job.encryptionIv, salt: job.encryptionSalt }
+          : null,
+      }, {
+        onProgress: (storedBytes, totalBytes) => {
+          // The backend counts payload bytes, which may include encryption overhead
+          const bytesStored = Math.min(job.fileSize, Math.round(job.fileSize * storedBytes / totalBytes));
+          this.progress.set(jobId, bytesStored);
+
+          // Announce whole percents only; TDLib reports far more often than anyone needs
+          const percent = Math.floor(storedBytes * 100 / totalBytes);
+          if (percent > lastPercent) {
+            lastPercent = percent;
+            this.emit({ ...job, bytesStored });
+          }
+        },
+        signal,
+      });
+
+      outcome = { status: 'done', bytesStored: job.fileSize, storedFileId: file?.id ?? null };
+      logger.info(`Upload job ${jobId} stored ${job.fileName}`);
+    } catch (error) {
+      if (signal.aborted) {
+        logger.info(`Upload job ${jobId} was cancelled`);
+        outcome = { status: 'cancelled', bytesStored: 0 };
+      } else {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`Upload job ${jobId} failed: ${errorMessage}`);
+        outcome = { status: 'failed', error: errorMessage };
+      }
+    }
+
+    // The received bytes are gone by the time anyone hears the job is over
+    this.progress.delete(jobId);
+    fs.rmSync(job.filePath, { force: true });
+    await this.finish(jobId, outcome);
+  }
+
+  // Record how a job ended and announce it
+  private async finish(jobId: string, changes: UploadJobChanges): Promise<UploadJob | undefined> {
+    const job = await storage.updateUploadJob(jobId, changes);
+    if (job) {
+      this.emit(job);
+    }
+    return job;
+  }
+
+  private withProgress(job: UploadJob): UploadJob {
+    const bytesStored = this.progress.get(job.id);
+    return bytesStored === undefined ? job : { ...job, bytesStored };
+  }
+
+  private emit(job: UploadJob): void {
+    this.events.emit('update', job);
+  }
+}
+
+// Export singleton instance
+export const jobService = new JobService();
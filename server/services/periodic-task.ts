@@ -0,0 +1,57 @@
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+/**
+ * Runs a task on an interval for a service's background upkeep
+ *
+ * A failed run is logged and the next one goes ahead as planned. The timer doesn't keep the
+ * process alive, so upkeep never holds up a shutdown.
+ */
+export class PeriodicTask {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param name What a run does, for logs, e.g. 'Trash purge run'
+   * @param task The work of one run
+   */
+  constructor(private name: string, private task: () => Promise<unknown> | void) {}
+
+  /**
+   * Start running the task periodically; does nothing if it is running already
+   * @param intervalMs Time between runs
+   */
+  start(intervalMs: number): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      Promise.resolve().then(this.task).catch((error) => {
+        logger.error({ err: error }, `${this.name} failed`);
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop running the task; a run in progress carries on
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Whether the task is running periodically
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
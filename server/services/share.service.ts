@@ -0,0 +1,216 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import { type SharedFile } from '@shared/schema';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Password hashes read `scrypt:<salt>:<hash>`, both base64
+const SALT_LENGTH = 16;
+const HASH_LENGTH = 64;
+
+// How long an unlocked link stays unlocked
+const ACCESS_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+// Wrong passwords allowed per window, from one address and for a link as a whole
+const UNLOCK_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_ADDRESS = 5;
+const MAX_FAILURES_PER_LINK = 20;
+
+// How long after a counted download the rest of it (resumes, seeks) can be fetched without
+// counting again; every range fetched extends it
+const DOWNLOAD_GRANT_TTL_MS = 60 * 60 * 1000;
+
+interface AccessToken {
+  sharedFileId: number;
+  expiresAt: number;
+}
+
+interface FailureWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Service for the rules around share links: passwords and the access tokens that unlock them
+ *
+ * A password-protected link is unlocked by posting the password once, which hands out an access
+ * token that opens the link until it expires. Wrong passwords are counted per address and per link,
+ * so guessing is cut off whether it comes from one place or many. Each attempt is counted before
+ * its password is checked, so guesses sent all at once can't slip past the limit.
+ * A download counted against a link's limit lets the same address fetch the rest of that file in
+ * ranges for a while, so one resumed or seeking download counts once.
+ */
+class ShareService {
+  private accessTokens: Map<string, AccessToken> = new Map();
+  private failures: Map<string, FailureWindow> = new Map();
+  // When each counted download stops covering later ranges, by link, file and address
+  private downloadGrants: Map<string, number> = new Map();
+
+  /**
+   * Hash a share password with a fresh salt
+   * @param password The password as typed
+   */
+  async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const hash = await scrypt(password, salt, HASH_LENGTH);
+    return `scrypt:${salt.toString('base64')}:${hash.toString('base64')}`;
+  }
+
+  /**
+   * Check a password against a link's hash
+   * @param sharedFile The share link
+   * @param password The password as typed
+   */
+  async verifyPassword(sharedFile: SharedFile, password: string): Promise<boolean> {
+    const [scheme, salt, hash] = (sharedFile.passwordHash ?? '').split(':');
+    if (scheme !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Whether a link can be opened with the access token given, if any
+   * @param sharedFile The share link
+   * @param token Access token from an unlock
+   */
+  hasAccess(sharedFile: SharedFile, token: string | undefined): boolean {
+    if (!sharedFile.passwordHash) {
+      return true;
+    }
+
+    const accessToken = token ? this.accessTokens.get(token) : undefined;
+    return !!accessToken && accessToken.sharedFileId === sharedFile.id && accessToken.expiresAt > Date.now();
+  }
+
+  /**
+   * Hand out a token that opens a link for a while
+   * @param sharedFile The share link that was unlocked
+   */
+  issueAccessToken(sharedFile: SharedFile): { accessToken: string; expiresAt: Date } {
+    // Forget tokens that have run out
+    const now = Date.now();
+    for (const [token, accessToken] of Array.from(this.accessTokens)) {
+      if (accessToken.expiresAt <= now) {
+        this.accessTokens.delete(token);
+      }
+    }
+
+    const accessToken = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = now + ACCESS_TOKEN_TTL_MS;
+    this.accessTokens.set(accessToken, { sharedFileId: sharedFile.id, expiresAt });
+    return { accessToken, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Withdraw every access token of a link, e.g. when its password changes
+   * @param sharedFileId Share link ID
+   */
+  revokeAccessTokens(sharedFileId: number): void {
+    for (const [token, accessToken] of Array.from(this.accessTokens)) {
+      if (accessToken.sharedFileId === sharedFileId) {
+        this.accessTokens.delete(token);
+      }
+    }
+  }
+
+  /**
+   * Count a password attempt against the address and the link, unless they have run out
+   * The attempt counts as wrong until forgiveUnlockAttempt says otherwise.
+   * @param sharedFileId Share link ID
+   * @param address Client IP address
+   * @returns Seconds to wait before trying again, or null when the attempt may go ahead
+   */
+  beginUnlockAttempt(sharedFileId: number, address: string): number | null {
+    const now = Date.now();
+    const keys = [`address:${sharedFileId}:${address}`, `link:${sharedFileId}`];
+    const blocked = [
+      this.getFailureWindow(keys[0], now, MAX_FAILURES_PER_ADDRESS),
+      this.getFailureWindow(keys[1], now, MAX_FAILURES_PER_LINK),
+    ].filter((resetAt): resetAt is number => resetAt !== null);
+
+    if (blocked.length > 0) {
+      return Math.ceil((Math.max(...blocked) - now) / 1000);
+    }
+
+    for (const [key, window] of Array.from(this.failures)) {
+      if (window.resetAt <= now) {
+        this.failures.delete(key);
+      }
+    }
+
+    for (const key of keys) {
+      const window = this.failures.get(key);
+      if (!window) {
+        this.failures.set(key, { count: 1, resetAt: now + UNLOCK_WINDOW_MS });
+      } else {
+        window.count++;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Take back the count of an attempt that had the right password
+   * @param sharedFileId Share link ID
+   * @param address Client IP address
+   */
+  forgiveUnlockAttempt(sharedFileId: number, address: string): void {
+    for (const key of [`address:${sharedFileId}:${address}`, `link:${sharedFileId}`]) {
+      const window = this.failures.get(key);
+      if (window && --window.count <= 0) {
+        this.failures.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Note a download that was counted against a link, so later ranges of it don't count again
+   * @param sharedFileId Share link ID
+   * @param fileId The file downloaded; folder links hand out many
+   * @param address Client IP address
+   */
+  grantDownload(sharedFileId: number, fileId: number, address: string): void {
+    const now = Date.now();
+    for (const [key, expiresAt] of Array.from(this.downloadGrants)) {
+      if (expiresAt <= now) {
+        this.downloadGrants.delete(key);
+      }
+    }
+    this.downloadGrants.set(`${sharedFileId}:${fileId}:${address}`, now + DOWNLOAD_GRANT_TTL_MS);
+  }
+
+  /**
+   * Whether a range continues a download already counted against the link, extending it if so
+   * @param sharedFileId Share link ID
+   * @param fileId The file requested
+   * @param address Client IP address
+   */
+  continuesDownload(sharedFileId: number, fileId: number, address: string): boolean {
+    const key = `${sharedFileId}:${fileId}:${address}`;
+    const expiresAt = this.downloadGrants.get(key);
+    const now = Date.now();
+    if (expiresAt === undefined || expiresAt <= now) {
+      this.downloadGrants.delete(key);
+      return false;
+    }
+    this.downloadGrants.set(key, now + DOWNLOAD_GRANT_TTL_MS);
+    return true;
+  }
+
+  // When a window that has run out of attempts resets, or null if attempts are left
+  private getFailureWindow(key: string, now: number, maxFailures: number): number | null {
+    const window = this.failures.get(key);
+    if (!window || window.resetAt <= now) {
+      this.failures.delete(key);
+      return null;
+    }
+    return window.count >= maxFailures ? window.resetAt : null;
+  }
+}
+
+// Export singleton instance
+export const shareService = new ShareService();
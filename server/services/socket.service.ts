@@ -0,0 +1,132 @@
+import { type Server, type IncomingMessage } from 'http';
+import { type Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { storage } from '../storage';
+import { firebaseService } from './firebase.service';
+import { jobService } from './job.service';
+import { PeriodicTask } from './periodic-task';
+import { type UploadJob } from '@shared/schema';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// Where browsers connect; other upgrade requests (e.g. Vite's HMR) are left alone
+export const SOCKET_PATH = '/api/ws';
+
+// How often connections are pinged, so dead ones are noticed and dropped
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// What the server pushes to browsers
+export type SocketMessage = { type: 'upload-job'; job: UploadJob };
+
+/**
+ * Service for pushing live updates, such as upload job progress, to signed-in browsers
+ *
+ * Browsers can't send headers with a WebSocket handshake, so the Firebase ID token comes
+ * as ?token= on the connection URL. Each user only ever hears about their own jobs.
+ */
+class SocketService {
+  private server: WebSocketServer | null = null;
+  private heartbeat = new PeriodicTask('WebSocket heartbeat', () => this.checkConnections());
+  private connections: Map<number, Set<WebSocket>> = new Map();
+  private alive: WeakSet<WebSocket> = new WeakSet();
+
+  /**
+   * Accept WebSocket connections on the HTTP server and start forwarding job updates
+   * @param httpServer The server the API runs on
+   */
+  attach(httpServer: Server): void {
+    if (this.server) {
+      return;
+    }
+
+    this.server = new WebSocketServer({ noServer: true });
+    httpServer.on('upgrade', (req, socket, head) => {
+      if (new URL(req.url ?? '', 'http://localhost').pathname === SOCKET_PATH) {
+        this.handleUpgrade(req, socket, head).catch((error) => {
+          logger.error({ err: error }, 'WebSocket upgrade failed');
+          socket.destroy();
+        });
+      }
+    });
+
+    jobService.onUpdate((job) => this.send(job.userId, { type: 'upload-job', job }));
+
+    this.heartbeat.start(HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Stop accepting connections and close the open ones
+   */
+  close(): void {
+    this.heartbeat.stop();
+    this.server?.clients.forEach(socket => socket.terminate());
+    this.server?.close();
+    this.server = null;
+    this.connections.clear();
+  }
+
+  /**
+   * Push a message to every connection of a user
+   * @param userId Receiving user
+   * @param message What to push
+   */
+  send(userId: number, message: SocketMessage): void {
+    const data = JSON.stringify(message);
+    for (const socket of Array.from(this.connections.get(userId) ?? [])) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      }
+    }
+  }
+
+  // Drop connections that didn't answer the last ping, and ping the rest
+  private checkConnections(): void {
+    for (const socket of Array.from(this.server?.clients ?? [])) {
+      if (!this.alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      this.alive.delete(socket);
+      socket.ping();
+    }
+  }
+
+  // Authenticate the handshake, then hand the socket to the user's set of connections
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const token = new URL(req.url ?? '', 'http://localhost').searchParams.get('token');
+    const user = token
+      ? await firebaseService.verifyToken(token)
+        .then(decodedToken => storage.getUserByUid(decodedToken.uid))
+        .catch(() => undefined)
+      : undefined;
+
+    if (!user || !this.server) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    this.server.handleUpgrade(req, socket, head, (ws) => {
+      const userConnections = this.connections.get(user.id) ?? new Set();
+      userConnections.add(ws);
+      this.connections.set(user.id, userConnections);
+      this.alive.add(ws);
+
+      ws.on('pong', () => this.alive.add(ws));
+      ws.on('close', () => {
+        userConnections.delete(ws);
+        if (userConnections.size === 0 && this.connections.get(user.id) === userConnections) {
+          this.connections.delete(user.id);
+        }
+      });
+    });
+  }
+}
+
+// Export singleton instance
+export const socketService = new SocketService();
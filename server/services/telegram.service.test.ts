@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import { setTDLibClient, TDLibError } from '../tdlib';
+import { FakeTDLibClient } from '../tdlib/fake';
+import { getStoredBlobRef } from '../backends';
+import { telegramService } from './telegram.service';
+
+const CHANNEL_ID = process.env.TELEGRAM_CHANNEL_ID!;
+const CHUNK_SIZE = parseInt(process.env.TELEGRAM_CHUNK_SIZE!);
+
+const fake = new FakeTDLibClient();
+let workDir: string;
+
+const writeTempFile = (name: string, data: Buffer): string => {
+  const filePath = path.join(workDir, name);
+  fs.writeFileSync(filePath, data);
+  return filePath;
+};
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const parts: Buffer[] = [];
+  for await (const data of stream) {
+    parts.push(data);
+  }
+  return Buffer.concat(parts);
+};
+
+const sha256 = (data: Buffer): string => createHash('sha256').update(data).digest('hex');
+
+describe('TelegramService', () => {
+  beforeAll(async () => {
+    setTDLibClient(fake);
+    await telegramService.initialize();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'telegram-service-test-'));
+  });
+
+  beforeEach(() => {
+    fake.reset();
+  });
+
+  afterAll(async () => {
+    await fake.destroy();
+    fs.rmSync(workDir, { recursive: true, force: true });
+    fs.rmSync(fake.rootDir, { recursive: true, force: true });
+  });
+
+  it('sends a small file as a single message and downloads it back', async () => {
+    const data = randomBytes(10 * 1024);
+    const result = await telegramService.sendFile(writeTempFile('notes.txt', data), 'notes.txt');
+
+    expect(result.chunks).toBeUndefined();
+    expect(result.channelId).toBe(CHANNEL_ID);
+
+    const messages = fake.getChatMessages(CHANNEL_ID);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].content.caption.text).toBe('notes.txt');
+
+    const downloadedPath = await telegramService.downloadFile(result.messageId, result.channelId, 1);
+    expect(fs.readFileSync(downloadedPath).equals(data)).toBe(true);
+  });
+
+  it('reports upload progress across chunks', async () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1000);
+    const progress: number[] = [];
+
+    await telegramService.sendFile(writeTempFile('progress.bin', data), 'progress.bin', CHANNEL_ID, (sentBytes, totalBytes) => {
+      expect(totalBytes).toBe(data.length);
+      progress.push(sentBytes);
+    });
+
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(data.length);
+  });
+
+  it('sends every chunk to the channel it is given', async () => {
+    const otherChannelId = '-1009999999999';
+    const data = randomBytes(CHUNK_SIZE + 500);
+
+    const result = await telegramService.sendFile(writeTempFile('elsewhere.bin', data), 'elsewhere.bin', otherChannelId);
+
+    expect(result.channelId).toBe(otherChannelId);
+    expect(fake.getChatMessages(otherChannelId)).toHaveLength(2);
+    expect(fake.getChatMessages(CHANNEL_ID)).toEqual([]);
+  });
+
+  it('only takes a channel that it can post to and that has the verification code in it', async () => {
+    fake.addChat('-1008888888888');
+    fake.addChat('-1006666666666', 'member');
+    fake.postText('-1006666666666', 'abc123');
+
+    await expect(telegramService.verifyChannel('-1007777777777', 'abc123')).rejects.toThrow('is not accessible');
+    await expect(telegramService.verifyChannel('-1006666666666', 'abc123')).rejects.toThrow('can post messages');
+    await expect(telegramService.verifyChannel('-1008888888888', 'abc123')).rejects.toThrow('code was not found');
+
+    fake.postText('-1008888888888', 'Verifying: abc123');
+    await expect(telegramService.verifyChannel('-1008888888888', 'abc123')).resolves.toBeUndefined();
+  });
+
+  it('splits files larger than the chunk size and reassembles them from the manifest', async () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1000);
+    const result = await telegramService.sendFile(writeTempFile('big.bin', data), 'big.bin');
+
+    expect(result.chunks).toHaveLength(3);
+    result.chunks!.forEach((chunk, index) => {
+      expect(chunk.checksum).toBe(sha256(data.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)));
+    });
+    expect(fake.getChatMessages(CHANNEL_ID).map(message => message.content.caption.text))
+      .toEqual(['big.bin.part1/3', 'big.bin.part2/3', 'big.bin.part3/3']);
+
+    // Chunk files only exist while they upload
+    expect(fs.readdirSync(workDir).filter(name => name.startsWith('big.bin.part'))).toEqual([]);
+
+    const { chunks } = getStoredBlobRef(result);
+    const downloadedPath = await telegramService.downloadFile(result.messageId, result.channelId, 2, chunks);
+    expect(fs.readFileSync(downloadedPath).equals(data)).toBe(true);
+  });
+
+  it('streams a byte range that crosses a chunk boundary', async () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1000);
+    const result = await telegramService.sendFile(writeTempFile('video.mp4', data), 'video.mp4');
+    const { chunks } = getStoredBlobRef(result);
+
+    const start = CHUNK_SIZE - 10;
+    const end = CHUNK_SIZE * 2 + 20;
+    const stream = await telegramService.streamFile(result.messageId, result.channelId, start, end, chunks);
+
+    expect((await readAll(stream)).equals(data.subarray(start, end + 1))).toBe(true);
+  });
+
+  it('holds its account while streaming and picks up where it was after a FLOOD_WAIT', async () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1000);
+    const result = await telegramService.sendFile(writeTempFile('movie.mkv', data), 'movie.mkv');
+    const { chunks } = getStoredBlobRef(result);
+
+    const stream = await telegramService.streamFile(result.messageId, result.channelId, 0, data.length - 1, chunks);
+    expect(telegramService.getStatus().accounts[0].activeTasks).toBe(1);
+
+    fake.failNext('readFilePart', 1, new TDLibError('Too Many Requests: retry after 1', 429));
+    expect((await readAll(stream)).equals(data)).toBe(true);
+    expect(telegramService.getStatus().accounts[0].activeTasks).toBe(0);
+  });
+
+  it('finds the parts of split files without a manifest by their captions', async () => {
+    const data = randomBytes(CHUNK_SIZE + 500);
+    const result = await telegramService.sendFile(writeTempFile('legacy.bin', data), 'legacy.bin');
+
+    const stream = await telegramService.streamFile(result.messageId, result.channelId, 0, data.length - 1);
+
+    expect((await readAll(stream)).equals(data)).toBe(true);
+  });
+
+  it('retries a chunk that fails to send', async () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1000);
+    fake.failNext('sendMessage');
+
+    const result = await telegramService.sendFile(writeTempFile('flaky.bin', data), 'flaky.bin');
+
+    expect(result.chunks).toHaveLength(3);
+    expect(fake.getChatMessages(CHANNEL_ID)).toHaveLength(3);
+  });
+
+  it('removes the chunks already sent when a chunk keeps failing', async () => {
+    const data = randomBytes(CHUNK_SIZE * 2 + 1000);
+
+    // Once the first chunk is up, fail every attempt at the second one
+    const stopListening = fake.onUpdate((update) => {
+      if (update.file.remote.is_uploading_completed) {
+        fake.failNext('sendMessage', 3);
+        stopListening();
+      }
+    });
+
+    await expect(telegramService.sendFile(writeTempFile('broken.bin', data), 'broken.bin'))
+      .rejects.toThrow('Failed to send file to Telegram');
+    expect(fake.getChatMessages(CHANNEL_ID)).toEqual([]);
+  });
+
+  it('cancels an upload in flight and removes the chunks already sent', async () => {
+    const data = randomBytes(CHUNK_SIZE * 3);
+    const controller = new AbortController();
+
+    // Call it off while the second chunk is going up
+    const sending = telegramService.sendFile(writeTempFile('cancelled.bin', data), 'cancelled.bin', CHANNEL_ID, (sentBytes) => {
+      if (sentBytes > CHUNK_SIZE) {
+        controller.abort();
+      }
+    }, controller.signal);
+
+    await expect(sending).rejects.toThrow('cancelled');
+    expect(fake.getChatMessages(CHANNEL_ID)).toEqual([]);
+    expect(fs.readdirSync(workDir).filter(name => name.startsWith('cancelled.bin.part'))).toEqual([]);
+  });
+
+  it('reports the stored size until the messages are deleted', async () => {
+    const data = randomBytes(CHUNK_SIZE + 500);
+    const result = await telegramService.sendFile(writeTempFile('sized.bin', data), 'sized.bin');
+    const { chunks } = getStoredBlobRef(result);
+
+    expect(await telegramService.getStoredSize(result.messageId, result.channelId, chunks)).toBe(data.length);
+
+    await telegramService.deleteMessages(chunks.map(chunk => chunk.telegramMessageId), result.channelId);
+
+    expect(fake.getChatMessages(CHANNEL_ID)).toEqual([]);
+    expect(await telegramService.getStoredSize(result.messageId, result.channelId, chunks)).toBeNull();
+  });
+});
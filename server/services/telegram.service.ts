@@ -1,7 +1,21 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { getTDLibClient, TDLibError, splitFile, joinChunks } from '../tdlib';
+import { Readable } from 'stream';
+import {
+  getTDLibAccounts,
+  TDLibError,
+  type TDLibClient,
+  writeChunk,
+  joinChunks,
+  sha256File,
+  DEFAULT_CHUNK_SIZE,
+  TELEGRAM_MAX_FILE_SIZE
+} from '../tdlib';
+import { TDLibClientPool, type TDLibAccountStatus } from '../tdlib/pool';
+import { type ChunkRef } from '../backends/types';
+import { encryptionService, type PayloadEncryption } from './encryption.service';
+import { channelService } from './channel.service';
 import pino from 'pino';
 import { configDotenv } from 'dotenv';
 
@@ -11,19 +25,111 @@ const logger = pino({
   }
 });
 
+// Where downloaded and decrypted copies of stored files are put
+export const TEMP_DIR = path.join(os.tmpdir(), 'telestore_temp');
+
+// How much to read from TDLib per step when streaming
+const STREAM_PART_SIZE = 1024 * 1024; // 1MB
+
+// The parts of TDLib's chatMember and message objects that verifyChannel reads
+interface ChatMember {
+  status: {
+    _: string; // e.g. 'chatMemberStatusAdministrator'
+    rights?: { can_post_messages?: boolean };
+  };
+}
+
+interface ChannelMessage {
+  content?: {
+    text?: { text?: string };
+    caption?: { text?: string };
+  };
+}
+
+// A Telegram document holding all or part of a stored file
+interface FilePart {
+  fileId: number;
+  size: number;
+}
+
+// Run tasks 0..count-1 with at most `limit` in flight; stops scheduling after the first failure
+async function runWithConcurrency(count: number, limit: number, task: (index: number) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  const worker = async () => {
+    while (!failed && next < count) {
+      const index = next++;
+      try {
+        await task(index);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          firstError = error;
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, worker));
+  if (failed) {
+    throw firstError;
+  }
+}
+
+// A chunk of a split file as sent to Telegram
+export interface SentChunk {
+  messageId: string;
+  size: number;
+  checksum: string; // SHA-256, hex encoded
+}
+
+// What sendFile reports about a stored file
+export interface SendFileResult {
+  messageId: string;
+  channelId: string;
+  fileId?: string;
+  filePath?: string;
+  fileName?: string;
+  fileSize?: number;
+  mimeType?: string;
+  isUploadingCompleted?: boolean;
+  isUploadingActive?: boolean;
+  isDownloadingCompleted?: boolean;
+  isDownloadingActive?: boolean;
+  isDownloadingFailed?: boolean;
+  isUploadingFailed?: boolean;
+  isUploadingCanceled?: boolean;
+  chunks?: SentChunk[]; // Set when the file was split across several messages
+  encryption?: PayloadEncryption; // Set when the payload was encrypted at rest
+}
+
 /**
  * Service for interacting with Telegram via TDLib
+ * Work is spread over every configured Telegram account; see TDLibClientPool
  */
 class TelegramService {
-  private client: any;
-  private channelId: string;
+  private pool!: TDLibClientPool;
   private initialized: boolean = false;
   private tempDir: string;
+  private chunkSize: number;
+  private uploadConcurrency: number;
+  private chunkRetries: number;
+  private maxFloodWaitMs: number;
 
   constructor() {
-    this.channelId = process.env.TELEGRAM_CHANNEL_ID || '-1002538087779';
-    logger.info(`Telegram channel ID: ${this.channelId}`);
-    this.tempDir = path.join(os.tmpdir(), 'telestore_temp');
+    // Files larger than the chunk size are split and their chunks uploaded in parallel
+    this.chunkSize = Math.min(
+      parseInt(process.env.TELEGRAM_CHUNK_SIZE || '') || DEFAULT_CHUNK_SIZE,
+      TELEGRAM_MAX_FILE_SIZE
+    );
+    this.uploadConcurrency = Math.max(1, parseInt(process.env.TELEGRAM_UPLOAD_CONCURRENCY || '') || 3);
+    this.chunkRetries = Math.max(0, parseInt(process.env.TELEGRAM_CHUNK_RETRIES || '') || 2);
+    // Longest FLOOD_WAIT worth sitting out when every account is limited, in seconds
+    this.maxFloodWaitMs = Math.max(0, parseInt(process.env.TELEGRAM_MAX_FLOOD_WAIT || '') || 300) * 1000;
+    logger.info(`Telegram chunk size: ${this.chunkSize} bytes, upload concurrency: ${this.uploadConcurrency}`);
+    this.tempDir = TEMP_DIR;
     
     // Create temp directory if it doesn't exist
     if (!fs.existsSync(this.tempDir)) {
@@ -32,7 +138,7 @@ class TelegramService {
   }
 
   /**
-   * Initialize the TDLib client and authenticate
+   * Initialize the TDLib clients of every account and authenticate
    */
   async initialize(): Promise<void> {
     try {
@@ -41,23 +147,13 @@ class TelegramService {
         return;
       }
 
-      // Check if channel ID is set
-      if (!this.channelId) {
-        logger.warn('TELEGRAM_CHANNEL_ID not found in environment variables.');
-        this.channelId = '-1002538087779'; // Fallback for development
-      }
-
-      // Initialize TDLib client
-      this.client = getTDLibClient();
-      await this.client.initialize();
-
-      // Check if authenticated
-      if (!this.client.isAuthenticated()) {
-        logger.error('TDLib client is not authenticated. Please check your configuration.');
-        throw new Error('TDLib authentication failed');
-      }
+      // Initialize the accounts; the pool only needs one of them to come up
+      const pool = new TDLibClientPool(getTDLibAccounts(), this.maxFloodWaitMs);
+      await pool.initialize();
+      this.pool = pool;
 
-      logger.info('TDLib client initialized and authenticated successfully');
+      const ready = pool.getStatus().filter(account => account.authenticated).length;
+      logger.info(`TDLib initialized with ${ready} of ${pool.getStatus().length} Telegram accounts authenticated`);
       this.initialized = true;
     } catch (error) {
       logger.error('Failed to initialize TDLib client:', error);
@@ -66,85 +162,89 @@ class TelegramService {
   }
 
   /**
-   * Send a file to the configured Telegram channel
+   * Send a file to a Telegram channel
+   * The payload is encrypted with a fresh data key first when at-rest encryption is configured
    * @param filePath Path to the file to send
    * @param caption Optional caption for the file
+   * @param channelId Channel to send to; the pool's default channel if not given
+   * @param onProgress Called with the payload bytes Telegram has received so far, out of the payload size
+   * @param signal Cancels the upload; whatever already reached the channel is removed
    * @returns Object containing messageId and channelId
    */
-  async sendFile(filePath: string, fileName: string): Promise<{
-    messageId: string;
-    channelId: string;
-    fileId?: string;
-    filePath?: string;
-    fileName?: string;
-    fileSize?: number;
-    mimeType?: string;
-    isUploadingCompleted?: boolean;
-    isUploadingActive?: boolean;
-    isDownloadingCompleted?: boolean;
-    isDownloadingActive?: boolean;
-    isDownloadingFailed?: boolean;
-    isUploadingFailed?: boolean;
-    isUploadingCanceled?: boolean;
-  }> {
+  async sendFile(
+    filePath: string,
+    fileName: string,
+    channelId: string = channelService.getDefaultChannel(),
+    onProgress?: (sentBytes: number, totalBytes: number) => void,
+    signal?: AbortSignal
+  ): Promise<SendFileResult> {
     // Ensure TDLib is initialized
     if (!this.initialized) {
       await this.initialize();
     }
     
+    let payloadPath = filePath;
     try {
       // Check if file exists
       if (!fs.existsSync(filePath)) {
         throw new Error(`File not found: ${filePath}`);
       }
       
-      // Get file size
-      const stats = fs.statSync(filePath);
+      // Encrypt the payload so the channel only ever holds ciphertext
+      let encryption: PayloadEncryption | undefined;
+      if (encryptionService.isEnabled()) {
+        const { dataKey, encryption: fileEncryption } = encryptionService.createDataKey();
+        payloadPath = `${filePath}.enc`;
+        await encryptionService.encryptFile(filePath, payloadPath, dataKey, fileEncryption);
+        encryption = fileEncryption;
+      }
       
-      // Check if file exceeds Telegram's 2GB limit
-      const maxSize = 2 * 1024 * 1024 * 1024; // 2GB
+      // Get file size
+      const stats = fs.statSync(payloadPath);
       
-      if (stats.size > maxSize) {
+      if (stats.size > this.chunkSize) {
         // Split file into chunks
-        logger.info(`File size (${stats.size} bytes) exceeds 2GB limit. Splitting file...`);
-        const chunkPaths = await splitFile(filePath);
-        
-        // Send each chunk
-        const results = [];
-        for (let i = 0; i < chunkPaths.length; i++) {
-          const chunkPath = chunkPaths[i];
-          const chunkCaption = `${fileName}.part${i + 1}/${chunkPaths.length}`;
-          
-          logger.info(`Sending chunk ${i + 1}/${chunkPaths.length}: ${chunkPath}`);
-          const result = await this.client.sendMessageWithFile(
-            this.channelId,
-            chunkPath,
-            chunkCaption
-          );
+        const numChunks = Math.ceil(stats.size / this.chunkSize);
+        logger.info(`File size (${stats.size} bytes) exceeds chunk size. Sending ${numChunks} chunks...`);
 
-          logger.info(`Chunk sent successfully: ${result.messageId}`);
-          
-          results.push(result);
-          
-          // Cleanup chunk file
-          fs.unlinkSync(chunkPath);
+        // Send the chunks through a bounded pool; each chunk is only on disk while it uploads
+        const chunks: SentChunk[] = new Array(numChunks);
+        const sentBytes: number[] = new Array(numChunks).fill(0);
+        try {
+          await runWithConcurrency(numChunks, this.uploadConcurrency, async (index) => {
+            chunks[index] = await this.sendChunk(channelId, payloadPath, fileName, index, numChunks, (chunkBytes) => {
+              sentBytes[index] = chunkBytes;
+              onProgress?.(sentBytes.reduce((total, bytes) => total + bytes, 0), stats.size);
+            }, signal);
+          });
+        } catch (error) {
+          // Don't leave the chunks that did make it orphaned in the channel
+          const sentMessageIds = chunks.filter(Boolean).map(chunk => chunk.messageId);
+          if (sentMessageIds.length > 0) {
+            await this.deleteMessages(sentMessageIds, channelId).catch((cleanupError) => {
+              logger.error({ err: cleanupError }, 'Failed to clean up sent chunks');
+            });
+          }
+          throw error;
         }
-
         
-        
-        // Return the first chunk's message ID (we'll use this as the reference)
+        // Return the first chunk's message ID (we'll use this as the reference) plus the full manifest
         return {
-          messageId: results[0].messageId,
-          channelId: this.channelId
+          messageId: chunks[0].messageId,
+          channelId,
+          chunks,
+          encryption
         };
       } else {
         // Send file normally
-        logger.info(`Sending file: ${filePath}`);
-        const result = await this.client.sendMessageWithFile(
-          this.channelId,
-          filePath,
-          fileName
-        );
+        logger.info(`Sending file: ${payloadPath}`);
+        const result = await this.pool.run('upload', client => client.sendMessageWithFile(
+          channelId,
+          payloadPath,
+          fileName,
+          (uploadedBytes) => onProgress?.(uploadedBytes, stats.size),
+          signal
+        ));
 
         logger.info(`File sent successfully result is: ${JSON.stringify(result)}`);
         logger.info(`File sent successfully: ${result.messageId}`);
@@ -154,19 +254,73 @@ class TelegramService {
         return {
           messageId: result.messageId,
           fileId: result.fileId,
-          channelId: this.channelId,
+          channelId,
           filePath: result.filePath,
           fileName: result.fileName,
           fileSize: result.fileSize,
           mimeType: result.mimeType,
+          encryption,
         };
       }
     } catch (error) {
       logger.error('Failed to send file:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      const channelID = this.channelId;
+      const channelID = channelId;
       const error_result = {errorMessage, channelID, filePath};
       throw new Error(`Failed to send file to Telegram: ${JSON.stringify(error_result)}`);
+    } finally {
+      // The encrypted copy is only needed while it uploads
+      if (payloadPath !== filePath) {
+        fs.rmSync(payloadPath, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Send one chunk of a file, retrying just that chunk if it fails
+   * @param channelId Channel to send to
+   * @param filePath Path to the whole file
+   * @param fileName Original name of the file
+   * @param index 0-based chunk index
+   * @param total Number of chunks in the file
+   * @param onProgress Called with the bytes of this chunk Telegram has received; starts over on a retry
+   * @param signal Cancels the chunk; a cancelled chunk is not retried
+   */
+  private async sendChunk(
+    channelId: string,
+    filePath: string,
+    fileName: string,
+    index: number,
+    total: number,
+    onProgress?: (uploadedBytes: number) => void,
+    signal?: AbortSignal
+  ): Promise<SentChunk> {
+    signal?.throwIfAborted();
+    const chunkPath = await writeChunk(filePath, index, this.chunkSize);
+
+    try {
+      const size = fs.statSync(chunkPath).size;
+      const checksum = await sha256File(chunkPath);
+      const chunkCaption = `${fileName}.part${index + 1}/${total}`;
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          logger.info(`Sending chunk ${index + 1}/${total} (attempt ${attempt}): ${chunkPath}`);
+          onProgress?.(0);
+          const result = await this.pool.run('upload', client => client.sendMessageWithFile(channelId, chunkPath, chunkCaption, onProgress, signal));
+          logger.info(`Chunk sent successfully: ${result.messageId}`);
+          return { messageId: String(result.messageId), size, checksum };
+        } catch (error) {
+          if (attempt > this.chunkRetries || signal?.aborted) {
+            throw error;
+          }
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.warn(`Chunk ${index + 1}/${total} failed, retrying: ${errorMessage}`);
+        }
+      }
+    } finally {
+      // Cleanup chunk file
+      fs.rmSync(chunkPath, { force: true });
     }
   }
 
@@ -174,175 +328,548 @@ class TelegramService {
    * Download a file from Telegram
    * @param messageId ID of the message containing the file
    * @param channelId ID of the channel containing the message
-   * @returns Path to the downloaded file
+   * @param chunks Chunk manifest for files split across several messages
+   * @param encryption At-rest encryption of the payload, if any
+   * @returns Path to the downloaded (and decrypted) file
+   */
+  async downloadFile(
+    messageId: string,
+    channelId: string,
+    fileId: number,
+    chunks: ChunkRef[] = [],
+    encryption: PayloadEncryption | null = null
+  ): Promise<string> {
+    const downloadedPath = await this.downloadPayload(messageId, channelId, fileId, chunks);
+    if (!encryption) {
+      return downloadedPath;
+    }
+
+    const outputPath = path.join(this.tempDir, `file-${fileId}.dec`);
+    try {
+      await encryptionService.decryptFile(downloadedPath, outputPath, encryption);
+    } catch (error) {
+      fs.rmSync(outputPath, { force: true });
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to decrypt file ${fileId}: ${errorMessage}`);
+    }
+    return outputPath;
+  }
+
+  /**
+   * Download a file's payload from Telegram as stored
+   * @param messageId ID of the message containing the file
+   * @param channelId ID of the channel containing the message
+   * @param chunks Chunk manifest for files split across several messages
+   * @returns Path to the downloaded payload
    */
-  async downloadFile(messageId: string, channelId: string, fileId: number): Promise<string> {
+  private async downloadPayload(messageId: string, channelId: string, fileId: number, chunks: ChunkRef[] = []): Promise<string> {
     // Ensure TDLib is initialized
     if (!this.initialized) {
       await this.initialize();
     }
     
     try {
-      // Get the message
-      logger.info(`Downloading file with message ID: ${messageId} from channel ID: ${channelId}`);
-      let messages;
-      let message;
-      try {
-        messages = await this.client.send({
-          _: 'getMessages',
-          chat_id: channelId,
-          message_ids: [messageId]
-        });
-        message = messages.messages[0];
-        logger.info(`Message: ${JSON.stringify(messages)}`);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error(`Error fetching message: ${errorMessage}`);
-        logger.error(`Error details: ${JSON.stringify(error)}`);
-        if (error instanceof TDLibError && error.message.includes('Not Found')) {
-          logger.warn(`Message with ID ${messageId} not found in channel ${channelId}. It might have been deleted.`);
-          throw new Error('File message not found on Telegram.');
+      // One task for the whole download, since the file IDs it resolves only mean something to that account
+      return await this.pool.run('download', client => this.downloadPayloadWith(client, messageId, channelId, fileId, chunks));
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to download file');
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Error details: ${JSON.stringify(error)}`);
+      throw Error(`Failed to download file from Telegram: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Download a file's payload through one account
+   * @param client TDLib client of the account doing the download
+   * @param messageId ID of the message containing the file
+   * @param channelId ID of the channel containing the message
+   * @param chunks Chunk manifest for files split across several messages
+   * @returns Path to the downloaded payload
+   */
+  private async downloadPayloadWith(
+    client: TDLibClient,
+    messageId: string,
+    channelId: string,
+    fileId: number,
+    chunks: ChunkRef[]
+  ): Promise<string> {
+    if (chunks.length > 0) {
+      // Reassemble the file from its manifest, verifying each chunk
+      logger.info(`File ${fileId} is split into ${chunks.length} chunks. Downloading from manifest...`);
+      const chunkPaths: string[] = [];
+
+      for (const chunk of chunks) {
+        const { document } = await this.getMessageDocument(client, chunk.telegramMessageId, chunk.channelId);
+        if (document.size !== chunk.size) {
+          throw new Error(`Chunk ${chunk.chunkIndex + 1} size mismatch. Expected: ${chunk.size}, Got: ${document.size}`);
         }
-        throw error; // Re-throw other errors
+        chunkPaths.push(await client.downloadFile(document.id));
       }
 
-      logger.info(`Fetched message: ${JSON.stringify(message)}`);
-      // Check if the message contains a file
-      if (!message || !message.content || !message.content.document) {
-        throw new Error('Message does not contain a file');
+      if (!fs.existsSync(this.tempDir)) {
+        fs.mkdirSync(this.tempDir, { recursive: true });
       }
 
-      logger.info(`Message content: ${JSON.stringify(message.content)}`);
-      
-      // Check if the file is a chunk (part of a larger file)
-      const caption = message.content.caption?.text || '';
-      const partMatch = caption.match(/\.part(\d+)\/(\d+)$/);
-      logger.info(`Caption: ${caption}`);
+      const outputPath = path.join(this.tempDir, `file-${fileId}`);
+      await joinChunks(chunkPaths, outputPath, chunks.map(chunk => chunk.checksum));
 
+      return outputPath;
+    }
+
+    // Get the message
+    logger.info(`Downloading file with message ID: ${messageId} from channel ID: ${channelId}`);
+    let messages;
+    let message;
+    try {
+      messages = await client.send({
+        _: 'getMessages',
+        chat_id: channelId,
+        message_ids: [messageId]
+      });
+      message = messages.messages[0];
+      logger.info(`Message: ${JSON.stringify(messages)}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Error fetching message: ${errorMessage}`);
+      logger.error(`Error details: ${JSON.stringify(error)}`);
+      if (error instanceof TDLibError && error.message.includes('Not Found')) {
+        logger.warn(`Message with ID ${messageId} not found in channel ${channelId}. It might have been deleted.`);
+        throw new Error('File message not found on Telegram.');
+      }
+      throw error; // Re-throw other errors
+    }
+
+    logger.info(`Fetched message: ${JSON.stringify(message)}`);
+    // Check if the message contains a file
+    if (!message || !message.content || !message.content.document) {
+      throw new Error('Message does not contain a file');
+    }
+
+    logger.info(`Message content: ${JSON.stringify(message.content)}`);
+    
+    // Check if the file is a chunk (part of a larger file)
+    const caption = message.content.caption?.text || '';
+    const partMatch = caption.match(/\.part(\d+)\/(\d+)$/);
+    logger.info(`Caption: ${caption}`);
+
+    
+    if (partMatch) {
+      logger.info('File is split into multiple parts');
+      // This is a chunk of a larger file
+      const partNumber = parseInt(partMatch[1]);
+      const totalParts = parseInt(partMatch[2]);
+      
+      logger.info(`File is split into ${totalParts} parts. Downloading part ${partNumber}...`);
+      
+      // We need to download all parts
+      const chunkPaths = [];
+      
+      // Generate the base name (without the .partX/Y suffix)
+      const baseName = caption.replace(/\.part\d+\/\d+$/, '');
       
-      if (partMatch) {
-        logger.info('File is split into multiple parts');
-        // This is a chunk of a larger file
-        const partNumber = parseInt(partMatch[1]);
-        const totalParts = parseInt(partMatch[2]);
+      // Download the current chunk
+      const fileId = message.content.document.document.id;
+      const chunkPath = await client.downloadFile(fileId);
+      chunkPaths[partNumber - 1] = chunkPath;
+      
+      // Find and download the other chunks
+      for (let i = 1; i <= totalParts; i++) {
+        if (i === partNumber) continue; // Skip the part we already downloaded
         
-        logger.info(`File is split into ${totalParts} parts. Downloading part ${partNumber}...`);
+        // Search for the other parts
+        const otherPartCaption = `${baseName}.part${i}/${totalParts}`;
+        const search = await client.send({
+          _: 'searchChatMessages',
+          chat_id: parseInt(channelId),
+          query: otherPartCaption,
+          from_message_id: 0,
+          offset: 0,
+          limit: 1
+        });
         
-        // We need to download all parts
-        const chunkPaths = [];
+        if (!search.messages || search.messages.length === 0) {
+          throw new Error(`Could not find part ${i} of the file`);
+        }
         
-        // Generate the base name (without the .partX/Y suffix)
-        const baseName = caption.replace(/\.part\d+\/\d+$/, '');
+        const otherPartMessage = search.messages[0];
+        const otherFileId = otherPartMessage.content.document.document.id;
+        const otherChunkPath = await client.downloadFile(otherFileId);
+        chunkPaths[i - 1] = otherChunkPath;
+      }
+      
+      // Join the chunks
+      const outputPath = path.join(this.tempDir, baseName);
+      await joinChunks(chunkPaths, outputPath);
+      
+      return outputPath;
+    } else {
+      // This is a single file
+      logger.info('Downloading single file...');
+      const fileId = message.content.document.document.id;
+      let downloadedPath;
+      logger.info(`Downloading file with ID: ${fileId}`);
+      try {
+        // Get the original filename from the message or use a default
+        const originalFilename = message.content.document.file_name || 
+                               message.content.caption?.text || 
+                               'downloaded_file';
         
-        // Download the current chunk
-        const fileId = message.content.document.document.id;
-        const chunkPath = await this.client.downloadFile(fileId);
-        chunkPaths[partNumber - 1] = chunkPath;
+        // Ensure temp directory exists
+        if (!fs.existsSync(this.tempDir)) {
+          fs.mkdirSync(this.tempDir, { recursive: true });
+        }
         
-        // Find and download the other chunks
-        for (let i = 1; i <= totalParts; i++) {
-          if (i === partNumber) continue; // Skip the part we already downloaded
-          
-          // Search for the other parts
-          const otherPartCaption = `${baseName}.part${i}/${totalParts}`;
-          const search = await this.client.send('searchChatMessages', {
-            chat_id: channelId,
-            query: otherPartCaption,
-            limit: 1
-          });
-          
-          if (!search.messages || search.messages.length === 0) {
-            throw new Error(`Could not find part ${i} of the file`);
-          }
-          
-          const otherPartMessage = search.messages[0];
-          const otherFileId = otherPartMessage.content.document.document.id;
-          const otherChunkPath = await this.client.downloadFile(otherFileId);
-          chunkPaths[i - 1] = otherChunkPath;
+        // Download the file
+        downloadedPath = await client.downloadFile(fileId).then((path: string) => {
+          logger.info(`File downloaded to: ${path}`);
+          return path;
+        }).catch((error: Error) => {
+          logger.error({ err: error }, 'Error downloading file from TDLib');
+          // throw new Error(`Failed to download file from Telegram: ${error.message}`);
+        });
+        logger.info(`File downloaded successfully to: ${downloadedPath}`);
+
+        if (!downloadedPath || !fs.existsSync(downloadedPath)) {
+          throw new Error(`Downloaded file not found at path: ${downloadedPath}`);
+        }
+
+        // Get file stats to verify size
+        const stats = fs.statSync(downloadedPath);
+        const expectedSize = message.content.document.document.size;
+        
+        if (stats.size !== expectedSize) {
+          throw new Error(`File size mismatch. Expected: ${expectedSize}, Got: ${stats.size}`);
         }
         
-        // Join the chunks
-        const outputPath = path.join(this.tempDir, baseName);
-        await joinChunks(chunkPaths, outputPath);
+        // Copy to our temp directory with the original filename
+        const outputPath = path.join(this.tempDir, originalFilename);
+        logger.info(`Copying file from ${downloadedPath} to ${outputPath}`);
+        await fs.promises.copyFile(downloadedPath, outputPath);
         
         return outputPath;
-      } else {
-        // This is a single file
-        logger.info('Downloading single file...');
-        const fileId = message.content.document.document.id;
-        let downloadedPath;
-        logger.info(`Downloading file with ID: ${fileId}`);
+      } catch (error) {
+        logger.error({ err: error, downloadedPath }, 'Error downloading file');
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to download file from Telegram: ${errorMessage}`);
+      }
+    }
+  }
+
+  /**
+   * Get the document attached to a message
+   * @param client TDLib client of the account that will use the document
+   * @param messageId ID of the message containing the file
+   * @param channelId ID of the channel containing the message
+   */
+  private async getMessageDocument(client: TDLibClient, messageId: string, channelId: string): Promise<{ document: any; caption: string }> {
+    const messages = await client.send({
+      _: 'getMessages',
+      chat_id: parseInt(channelId),
+      message_ids: [parseInt(messageId)]
+    });
+    const message = messages.messages[0];
+
+    if (!message || !message.content || !message.content.document) {
+      throw new Error('Message does not contain a file');
+    }
+
+    return {
+      document: message.content.document.document,
+      caption: message.content.caption?.text || ''
+    };
+  }
+
+  /**
+   * Find the Telegram documents that make up a stored file, in order
+   * @param client TDLib client of the account that will read the documents
+   * @param messageId ID of the message containing the file (or its first part)
+   * @param channelId ID of the channel containing the message
+   * @param chunks Chunk manifest for files split across several messages
+   */
+  private async getFileParts(client: TDLibClient, messageId: string, channelId: string, chunks: ChunkRef[] = []): Promise<FilePart[]> {
+    if (chunks.length > 0) {
+      const parts: FilePart[] = [];
+      for (const chunk of chunks) {
+        const { document } = await this.getMessageDocument(client, chunk.telegramMessageId, chunk.channelId);
+        parts.push({ fileId: document.id, size: chunk.size });
+      }
+      return parts;
+    }
+
+    const { document, caption } = await this.getMessageDocument(client, messageId, channelId);
+
+    // Files split before the chunk manifest existed are found by their captions
+    const partMatch = caption.match(/\.part(\d+)\/(\d+)$/);
+
+    if (!partMatch) {
+      return [{ fileId: document.id, size: document.size }];
+    }
+
+    // Split file: look up the other parts by their captions
+    const partNumber = parseInt(partMatch[1]);
+    const totalParts = parseInt(partMatch[2]);
+    const baseName = caption.replace(/\.part\d+\/\d+$/, '');
+    const parts: FilePart[] = [];
+    parts[partNumber - 1] = { fileId: document.id, size: document.size };
+
+    for (let i = 1; i <= totalParts; i++) {
+      if (i === partNumber) continue;
+
+      const search = await client.send({
+        _: 'searchChatMessages',
+        chat_id: parseInt(channelId),
+        query: `${baseName}.part${i}/${totalParts}`,
+        from_message_id: 0,
+        offset: 0,
+        limit: 1
+      });
+
+      if (!search.messages || search.messages.length === 0) {
+        throw new Error(`Could not find part ${i} of the file`);
+      }
+
+      const partDocument = search.messages[0].content.document.document;
+      parts[i - 1] = { fileId: partDocument.id, size: partDocument.size };
+    }
+
+    return parts;
+  }
+
+  /**
+   * Stream a byte range of a file from Telegram without downloading it first
+   * @param messageId ID of the message containing the file
+   * @param channelId ID of the channel containing the message
+   * @param start First byte to read
+   * @param end Last byte to read (inclusive)
+   * @param chunks Chunk manifest for files split across several messages
+   * @param encryption At-rest encryption of the payload; the range is then in plaintext bytes
+   * @returns Readable stream of the requested bytes
+   */
+  async streamFile(
+    messageId: string,
+    channelId: string,
+    start: number,
+    end: number,
+    chunks: ChunkRef[] = [],
+    encryption: PayloadEncryption | null = null
+  ): Promise<Readable> {
+    // Ensure TDLib is initialized
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    logger.info(`Streaming bytes ${start}-${end} of message ID: ${messageId} from channel ID: ${channelId}`);
+    // The stream holds its account until it closes, so it counts against the account's load
+    const lease = await this.pool.lease('download');
+
+    // Reads stay on the account that resolved the parts, since file IDs are local to its session;
+    // after failing over, the new account has to find the parts again
+    const resolveParts = async (): Promise<FilePart[]> => {
+      for (;;) {
         try {
-          // Get the original filename from the message or use a default
-          const originalFilename = message.content.document.file_name || 
-                                 message.content.caption?.text || 
-                                 'downloaded_file';
-          
-          // Ensure temp directory exists
-          if (!fs.existsSync(this.tempDir)) {
-            fs.mkdirSync(this.tempDir, { recursive: true });
+          return await this.getFileParts(lease.client, messageId, channelId, chunks);
+        } catch (error) {
+          if (!(await lease.failover(error))) {
+            throw error;
           }
-          
-          // Download the file
-          downloadedPath = await this.client.downloadFile(fileId).then((path: string) => {
-            logger.info(`File downloaded to: ${path}`);
-            return path;
-          }).catch((error: Error) => {
-            logger.error('Error downloading file: from tg service', error);
-            // throw new Error(`Failed to download file from Telegram: ${error.message}`);
-          });
-          logger.info(`File downloaded successfully to: ${downloadedPath}`);
+        }
+      }
+    };
 
-          if (!downloadedPath || !fs.existsSync(downloadedPath)) {
-            throw new Error(`Downloaded file not found at path: ${downloadedPath}`);
-          }
+    let parts: FilePart[];
+    try {
+      parts = await resolveParts();
+    } catch (error) {
+      lease.release();
+      throw error;
+    }
+
+    // The part being read, whose download TDLib has to be told to drop if the reader goes away
+    let reading: number | null = null;
+
+    async function* readRange(from: number, to: number) {
+      let partStart = 0;
+      for (let index = 0; index < parts.length; index++) {
+        const partEnd = partStart + parts[index].size - 1;
+
+        if (partEnd >= from && partStart <= to) {
+          // Translate the requested range into this part's offsets
+          let offset = Math.max(from, partStart) - partStart;
+          const last = Math.min(to, partEnd) - partStart;
 
-          // Get file stats to verify size
-          const stats = fs.statSync(downloadedPath);
-          const expectedSize = message.content.document.document.size;
-          
-          if (stats.size !== expectedSize) {
-            throw new Error(`File size mismatch. Expected: ${expectedSize}, Got: ${stats.size}`);
+          while (offset <= last) {
+            const count = Math.min(STREAM_PART_SIZE, last - offset + 1);
+            reading = parts[index].fileId;
+            let data: Buffer;
+            try {
+              data = await lease.client.readFilePart(parts[index].fileId, offset, count);
+            } catch (error) {
+              // Nothing is left to cancel on an account that failed the read
+              reading = null;
+              if (!(await lease.failover(error))) {
+                throw error;
+              }
+              parts = await resolveParts();
+              continue;
+            }
+            if (data.length === 0) {
+              throw new Error(`No data returned for file ID ${parts[index].fileId} at offset ${offset}`);
+            }
+            yield data;
+            offset += data.length;
           }
-          
-          // Copy to our temp directory with the original filename
-          const outputPath = path.join(this.tempDir, originalFilename);
-          logger.info(`Copying file from ${downloadedPath} to ${outputPath}`);
-          await fs.promises.copyFile(downloadedPath, outputPath);
-          
-          return outputPath;
-        } catch (error) {
-          logger.error('Error downloading file:', error);
-          logger.error('Download path:', downloadedPath);
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          throw new Error(`Failed to download file from Telegram: ${errorMessage}`);
         }
+
+        partStart += parts[index].size;
+        if (partStart > to) break;
       }
+      reading = null;
+    }
+
+    let stream: Readable;
+    if (encryption) {
+      // Read the whole records covering the range and decrypt them on the way out
+      const encryptedSize = parts.reduce((total, part) => total + part.size, 0);
+      const encryptedRange = encryptionService.getEncryptedRange(start, end, encryptedSize);
+      const decrypt = encryptionService.createDecryptStream(encryption, encryptedSize, start, end);
+      stream = Readable.from(decrypt(readRange(encryptedRange.start, encryptedRange.end)));
+    } else {
+      stream = Readable.from(readRange(start, end));
+    }
+
+    // A reader that leaves early (e.g. a video seek) shouldn't leave TDLib downloading for nobody
+    stream.on('close', () => {
+      if (reading !== null) {
+        const fileId = reading;
+        lease.client.send({ _: 'cancelDownloadFile', file_id: fileId, only_if_pending: false }).catch((error) => {
+          logger.warn({ err: error }, `Failed to cancel download of file ID ${fileId}`);
+        });
+      }
+      lease.release();
+    });
+
+    return stream;
+  }
+
+  /**
+   * Check that a user's files can go to a channel, and that the user runs it
+   * Uploads may go through any account in the pool, so every one of them has to be an administrator
+   * that can post there. The user proves the channel is theirs by posting the code in it.
+   * @param channelId ID of the channel
+   * @param code One-time code the user was asked to post in the channel
+   * @throws When an account can't post to the channel, or the code is not in it
+   */
+  async verifyChannel(channelId: string, code: string): Promise<void> {
+    // Ensure TDLib is initialized
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const chatId = parseInt(channelId);
+    let members: ChatMember[];
+    try {
+      members = await this.pool.runOnEach('manage', async (client): Promise<ChatMember> => {
+        await client.send({ _: 'getChat', chat_id: chatId });
+        const me = await client.send({ _: 'getMe' });
+        return client.send({ _: 'getChatMember', chat_id: chatId, member_id: { _: 'messageSenderUser', user_id: me.id } });
+      });
     } catch (error) {
-      logger.error('Failed to download file:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Telegram channel ${channelId} is not accessible: ${errorMessage}`);
+    }
 
+    const canPost = (status: ChatMember['status']): boolean => status._ === 'chatMemberStatusCreator' ||
+      (status._ === 'chatMemberStatusAdministrator' && status.rights?.can_post_messages === true);
+    if (!members.every(member => canPost(member.status))) {
+      throw new Error(`Every storage account has to be an administrator of Telegram channel ${channelId} that can post messages`);
+    }
+
+    const search = await this.pool.run('manage', client => client.send({
+      _: 'searchChatMessages',
+      chat_id: chatId,
+      query: code,
+      from_message_id: 0,
+      offset: 0,
+      limit: 10
+    }));
+    const messages: ChannelMessage[] = search.messages ?? [];
+    const posted = messages.some(message =>
+      (message.content?.text?.text ?? message.content?.caption?.text ?? '').includes(code));
+    if (!posted) {
+      throw new Error(`The verification code was not found in Telegram channel ${channelId}`);
+    }
+  }
+
+  /**
+   * Get the size of a file's payload as stored on Telegram
+   * @param messageId ID of the message containing the file (or its first part)
+   * @param channelId ID of the channel containing the message
+   * @param chunks Chunk manifest for files split across several messages
+   * @returns Size in bytes, or null when a message is gone
+   */
+  async getStoredSize(messageId: string, channelId: string, chunks: ChunkRef[] = []): Promise<number | null> {
+    // Ensure TDLib is initialized
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    let parts: FilePart[];
+    try {
+      parts = await this.pool.run('manage', client => this.getFileParts(client, messageId, channelId, chunks));
+    } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Error details: ${JSON.stringify(error)}`);
-      throw Error(`Failed to download file from Telegram: ${errorMessage}`);
+      logger.warn(`Could not find stored file for message ID ${messageId}: ${errorMessage}`);
+      return null;
+    }
+
+    return parts.reduce((total, part) => total + part.size, 0);
+  }
+
+  /**
+   * Delete a file's messages from a Telegram channel
+   * @param messageIds IDs of the messages containing the file (or its chunks)
+   * @param channelId ID of the channel containing the messages
+   */
+  async deleteMessages(messageIds: string[], channelId: string): Promise<void> {
+    // Ensure TDLib is initialized
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      logger.info(`Deleting message IDs: ${messageIds.join(', ')} from channel ID: ${channelId}`);
+      await this.pool.run('manage', client => client.send({
+        _: 'deleteMessages',
+        chat_id: parseInt(channelId),
+        message_ids: messageIds.map(id => parseInt(id)),
+        revoke: true
+      }));
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to delete message');
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to delete message from Telegram: ${errorMessage}`);
     }
   }
 
   /**
-   * Check if the TDLib client is authenticated
+   * Check if any Telegram account is authenticated
    * @returns Boolean indicating authentication status
    */
   isAuthenticated(): boolean {
-    return this.initialized && this.client.isAuthenticated();
+    return this.initialized && this.pool.isAuthenticated();
   }
 
   /**
-   * Get the status of the TDLib client
-   * @returns Object containing status information
+   * Get the status of the TDLib clients
+   * @returns Object containing status information, per account once initialized
    */
-  getStatus(): { initialized: boolean, authenticated: boolean } {
+  getStatus(): { initialized: boolean, authenticated: boolean, accounts: TDLibAccountStatus[] } {
     return {
       initialized: this.initialized,
-      authenticated: this.isAuthenticated()
+      authenticated: this.isAuthenticated(),
+      accounts: this.initialized ? this.pool.getStatus() : []
     };
   }
 }
@@ -0,0 +1,97 @@
+import { storage } from '../storage';
+import { blobBackend, getFileBlobRef } from '../backends';
+import { type File } from '@shared/schema';
+import { PeriodicTask } from './periodic-task';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+/**
+ * Service for permanently removing trashed files, on request or once their retention period is over
+ */
+class TrashService {
+  private purgeTask = new PeriodicTask('Trash purge run', () => this.purgeExpired());
+  private purging: boolean = false;
+
+  /**
+   * Start purging expired trash periodically
+   * @param intervalMs How often to look for expired files
+   */
+  start(intervalMs: number = 60 * 60 * 1000): void {
+    this.purgeTask.start(intervalMs);
+  }
+
+  /**
+   * Stop the periodic purge
+   */
+  stop(): void {
+    this.purgeTask.stop();
+  }
+
+  /**
+   * Remove a file's metadata for good, and its stored payload once no other file shares it
+   * @param file The file to purge
+   */
+  async purgeFile(file: File): Promise<void> {
+    // The chunk manifest goes with the file, so find the payload first
+    const blobRef = await getFileBlobRef(file);
+
+    // Deduplicated content keeps its payload until the last reference goes. The file and its
+    // reference go in one step, and the payload only after, so a failure can leave a payload
+    // behind but never take one another file still uses
+    const remainingReferences = await storage.purgeFile(file.id);
+    if (remainingReferences === null) {
+      return;
+    }
+
+    // Trashed files were already subtracted from the quota when they were deleted,
+    // and a live copy of the same content keeps carrying the charge
+    if (!file.isDeleted && !(await storage.hasOtherLiveCopy(file))) {
+      await storage.updateUserStorage(file.uploaderId, -file.fileSize);
+    }
+
+    if (remainingReferences === 0) {
+      await blobBackend.delete(blobRef);
+    }
+  }
+
+  /**
+   * Purge every trashed file whose owner's retention period has passed
+   * @returns Number of files purged
+   */
+  async purgeExpired(): Promise<number> {
+    if (this.purging) {
+      return 0;
+    }
+
+    this.purging = true;
+    try {
+      const expired = await storage.getExpiredTrashedFiles(new Date());
+      let purged = 0;
+
+      for (const file of expired) {
+        try {
+          await this.purgeFile(file);
+          purged++;
+        } catch (error) {
+          // Leave the file in the trash so the next run retries it
+          logger.error({ err: error }, `Failed to purge file ${file.id}`);
+        }
+      }
+
+      if (purged > 0) {
+        logger.info(`Purged ${purged} expired file(s) from trash`);
+      }
+      return purged;
+    } finally {
+      this.purging = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const trashService = new TrashService();
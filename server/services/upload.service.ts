@@ -0,0 +1,518 @@
+import { storage } from '../storage';
+import { blobBackend, getStoredBlobRef, type PutOptions, type StoredBlob } from '../backends';
+import { firebaseService } from './firebase.service';
+import { encryptionService } from './encryption.service';
+import { PeriodicTask } from './periodic-task';
+import { sha256File } from '../tdlib';
+import { type FileEncryption, type FileWithShareInfo, type UploadSession } from '@shared/schema';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { randomBytes } from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// Where the bytes of resumable uploads are collected before they are stored
+export const UPLOAD_DIR = './temp_uploads';
+
+// A session's bytes are collected in UPLOAD_DIR as this prefix followed by the session ID
+export const SESSION_FILE_PREFIX = 'session-';
+
+// How long an unfinished upload can be resumed
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How long a file saved ahead of its upload request can be claimed
+const HELD_FILE_TTL_MS = 60 * 60 * 1000;
+
+// How a file is stored: who hears about progress, and how to call it off
+export type StoreOptions = Omit<PutOptions, 'userId'>;
+
+// A file that has been fully received and is ready to be stored
+export interface ReceivedFile {
+  filePath: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  folderId: number | null;
+  encryption?: FileEncryption | null; // Set when the browser already encrypted the bytes
+}
+
+// A file saved ahead of the request that uploads it; the browser only knows its token
+interface HeldFile {
+  userId: number;
+  filePath: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  expiresAt: Date;
+}
+
+// Helper function to determine file type from mimetype or extension
+export const getFileType = (originalname: string, mimetype: string): string => {
+  // Get file extension
+  const ext = path.extname(originalname).toLowerCase();
+
+  // Common document formats
+  const documentTypes = ['.pdf', '.doc', '.docx', '.txt', '.rtf', '.odt'];
+  const spreadsheetTypes = ['.xls', '.xlsx', '.csv', '.ods'];
+  const presentationTypes = ['.ppt', '.pptx', '.odp'];
+
+  // Image formats
+  const imageTypes = ['.jpg', '.jpeg', '.png', '.gif', '.svg', '.webp'];
+
+  // Audio formats
+  const audioTypes = ['.mp3', '.wav', '.ogg', '.flac', '.m4a'];
+
+  // Video formats
+  const videoTypes = ['.mp4', '.webm', '.avi', '.mov', '.wmv'];
+
+  // Archive formats
+  const archiveTypes = ['.zip', '.rar', '.7z', '.tar', '.gz'];
+
+  // Check by MIME type first
+  if (mimetype.startsWith('image/')) return 'image';
+  if (mimetype.startsWith('audio/')) return 'audio';
+  if (mimetype.startsWith('video/')) return 'video';
+
+  // Check by extension
+  if (documentTypes.includes(ext)) return 'document';
+  if (spreadsheetTypes.includes(ext)) return 'spreadsheet';
+  if (presentationTypes.includes(ext)) return 'presentation';
+  if (imageTypes.includes(ext)) return 'image';
+  if (audioTypes.includes(ext)) return 'audio';
+  if (videoTypes.includes(ext)) return 'video';
+  if (archiveTypes.includes(ext)) return 'archive';
+
+  // Default
+  return 'other';
+};
+
+/**
+ * Service for receiving uploads, either in one request or resumably in byte ranges,
+ * and handing finished files to the storage backend
+ */
+class UploadService {
+  private purgeTask = new PeriodicTask('Upload session purge run', () => this.purgeExpired());
+  // Sessions with a PATCH in flight; a session only accepts one writer at a time
+  private activeSessions: Set<string> = new Set();
+  // Stores in progress per content hash, so identical uploads racing each other store only one payload
+  private contentLocks: Map<string, Promise<unknown>> = new Map();
+  // Files saved for a later upload request, by token
+  private heldFiles: Map<string, HeldFile> = new Map();
+
+  constructor() {
+    if (!fs.existsSync(UPLOAD_DIR)) {
+      fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+    }
+  }
+
+  /**
+   * Start removing expired upload sessions periodically
+   * @param intervalMs How often to look for expired sessions
+   */
+  start(intervalMs: number = 60 * 60 * 1000): void {
+    this.purgeTask.start(intervalMs);
+  }
+
+  /**
+   * Stop the periodic purge
+   */
+  stop(): void {
+    this.purgeTask.stop();
+  }
+
+  /**
+   * Path of the temp file holding a session's bytes
+   * @param sessionId Upload session ID
+   */
+  getSessionPath(sessionId: string): string {
+    return path.join(UPLOAD_DIR, `${SESSION_FILE_PREFIX}${sessionId}`);
+  }
+
+  /**
+   * Start a resumable upload
+   * @param userId Uploading user
+   * @param fileName Original name of the file
+   * @param fileSize Total size of the file in bytes
+   * @param mimeType MIME type reported by the browser
+   * @param folderId Destination folder (null for the root folder)
+   * @param encryption Parameters of a client-side encrypted file
+   */
+  async createSession(
+    userId: number,
+    fileName: string,
+    fileSize: number,
+    mimeType: string | null,
+    folderId: number | null,
+    encryption: FileEncryption | null = null
+  ): Promise<UploadSession> {
+    const id = uuidv4();
+    fs.writeFileSync(this.getSessionPath(id), '');
+
+    return storage.createUploadSession({
+      id,
+      userId,
+      fileName,
+      fileSize,
+      mimeType,
+      folderId,
+      wrappedKey: encryption?.wrappedKey ?? null,
+      encryptionIv: encryption?.iv ?? null,
+      encryptionSalt: encryption?.salt ?? null,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    });
+  }
+
+  /**
+   * Whether a session is currently receiving bytes
+   * @param sessionId Upload session ID
+   */
+  isBusy(sessionId: string): boolean {
+    return this.activeSessions.has(sessionId);
+  }
+
+  /**
+   * Append bytes to a session, starting at its current offset
+   * The offset is updated to whatever made it to disk, even if the request is cut off midway
+   * @param session The upload session
+   * @param body Request body carrying the bytes
+   * @returns The session with its new offset
+   */
+  async appendBytes(session: UploadSession, body: Readable): Promise<UploadSession> {
+    this.activeSessions.add(session.id);
+    const sessionPath = this.getSessionPath(session.id);
+
+    try {
+      let received = 0;
+      const remaining = session.fileSize - session.uploadOffset;
+
+      try {
+        await pipeline(
+          body,
+          async function* (source: AsyncIterable<Buffer>) {
+            for await (const chunk of source) {
+              received += chunk.length;
+              if (received > remaining) {
+                throw new Error('Upload exceeds the declared file size');
+              }
+              yield chunk;
+            }
+          },
+          fs.createWriteStream(sessionPath, { flags: 'r+', start: session.uploadOffset })
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn(`Upload ${session.id} interrupted: ${errorMessage}`);
+      }
+
+      // Trust the file on disk rather than the byte count; a partial write still counts
+      const uploadOffset = Math.min(fs.statSync(sessionPath).size, session.fileSize);
+      fs.truncateSync(sessionPath, uploadOffset);
+      const updatedSession = await storage.updateUploadOffset(session.id, uploadOffset);
+      return updatedSession ?? { ...session, uploadOffset };
+    } finally {
+      this.activeSessions.delete(session.id);
+    }
+  }
+
+  /**
+   * Close a fully received session and hand over its bytes, e.g. to the upload queue
+   * The bytes are moved out of the session first, so closing it doesn't remove them
+   * @param session The upload session, which must have all its bytes
+   * @returns The received file; the caller owns it from now on
+   */
+  async completeSession(session: UploadSession): Promise<ReceivedFile> {
+    // Hold the session so it can't be patched or completed twice while it is being handed over
+    this.activeSessions.add(session.id);
+
+    try {
+      const filePath = path.join(UPLOAD_DIR, `received-${session.id}`);
+      fs.renameSync(this.getSessionPath(session.id), filePath);
+      await this.abortSession(session.id);
+
+      return {
+        filePath,
+        originalName: session.fileName,
+        mimeType: session.mimeType ?? '',
+        size: session.fileSize,
+        folderId: session.folderId,
+        encryption: session.wrappedKey && session.encryptionIv && session.encryptionSalt
+          ? { wrappedKey: session.wrappedKey, iv: session.encryptionIv, salt: session.encryptionSalt }
+          : null,
+      };
+    } finally {
+      this.activeSessions.delete(session.id);
+    }
+  }
+
+  /**
+   * Drop a session and the bytes received for it
+   * @param sessionId Upload session ID
+   */
+  async abortSession(sessionId: string): Promise<void> {
+    fs.rmSync(this.getSessionPath(sessionId), { force: true });
+    await storage.deleteUploadSession(sessionId);
+  }
+
+  /**
+   * Keep a received file for a later upload request
+   * The browser gets an opaque token rather than the file's path; the token only works for the
+   * same user and until it expires. Removing the file is up to the caller, e.g. the janitor.
+   * @param userId Uploading user
+   * @param file The file on disk, with the name and MIME type the browser sent
+   */
+  holdFile(userId: number, file: Omit<ReceivedFile, 'folderId' | 'encryption'>): { token: string; expiresAt: Date } {
+    // Forget tokens nobody claimed in time
+    const now = Date.now();
+    for (const [token, held] of Array.from(this.heldFiles)) {
+      if (held.expiresAt.getTime() <= now) {
+        this.heldFiles.delete(token);
+      }
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now + HELD_FILE_TTL_MS);
+    this.heldFiles.set(token, { ...file, userId, expiresAt });
+    return { token, expiresAt };
+  }
+
+  /**
+   * Take a held file for an upload; a token can only be claimed once
+   * @param userId Uploading user
+   * @param token Token handed out by holdFile
+   * @returns The file, or undefined if the token is unknown, expired or another user's
+   */
+  claimHeldFile(userId: number, token: string): Omit<ReceivedFile, 'folderId' | 'encryption'> | undefined {
+    const held = this.heldFiles.get(token);
+    if (!held || held.userId !== userId || held.expiresAt.getTime() <= Date.now()) {
+      return undefined;
+    }
+
+    this.heldFiles.delete(token);
+    return {
+      filePath: held.filePath,
+      originalName: held.originalName,
+      mimeType: held.mimeType,
+      size: held.size,
+    };
+  }
+
+  /**
+   * Store a received file in the storage backend and record its metadata
+   * @param userId Uploading user
+   * @param received The file on disk
+   * @param options Progress callback, which isn't called when existing content is reused, and a
+   * cancellation signal; once cancelled, nothing is stored and no quota is charged
+   */
+  async storeFile(
+    userId: number,
+    received: ReceivedFile,
+    options: StoreOptions = {}
+  ): Promise<FileWithShareInfo | undefined> {
+    const { filePath, originalName, mimeType, size, folderId, encryption } = received;
+
+    // Determine file type (using mimetype if available, otherwise fallback to originalname)
+    const fileType = getFileType(originalName, mimeType || originalName);
+
+    const contentHash = await sha256File(filePath);
+    return this.withContentLock(contentHash, async () => {
+      options.signal?.throwIfAborted();
+
+      // Store the file, unless the same content is already there
+      const result = await this.sendOrReuse(userId, filePath, originalName, contentHash, size, options);
+
+      // Store file metadata
+      const fileData = {
+        fileName: originalName,
+        fileType: fileType,
+        fileSize: size,
+        fileLink: '', // Would be set for certain file types like images in a real implementation
+        uploaderId: userId,
+        folderId,
+        isEncrypted: !!encryption,
+        wrappedKey: encryption?.wrappedKey ?? null,
+        encryptionIv: encryption?.iv ?? null,
+        encryptionSalt: encryption?.salt ?? null,
+        wrappedDataKey: result.encryption?.wrappedDataKey ?? null,
+        masterKeyId: result.encryption?.masterKeyId ?? null,
+        dataNonce: result.encryption?.nonce ?? null,
+        contentHash,
+        telegramMessageId: result.messageId,
+        channelId: result.channelId,
+        fileId: result.fileId,
+        mimeType: result.mimeType,
+      };
+
+      // save file metadata to the firestore database
+      //
+      firebaseService.setDatabaseData(`files/${result.fileId}`, {
+        fileName: originalName,
+        fileType: fileType,
+        fileSize: size,
+        fileLink: '', // Would be set for certain file types like images in a real implementation
+        uploaderId: userId,
+        telegramMessageId: result.messageId,
+        channelId: result.channelId,
+        fileId: result.fileId,
+        mimeType: result.mimeType,
+      }).catch((error) => {
+        // The mirror is best effort; without Firebase (e.g. offline) the upload still succeeds
+        logger.warn({ err: error }, 'Failed to mirror file metadata to Firebase');
+      });
+
+      // Memorize file metadata
+      let file;
+      try {
+        file = await storage.createFile(fileData);
+      } catch (error) {
+        // Give back the reference taken above; a payload nobody points at is removed
+        if (await storage.releaseContentBlob(contentHash, result.channelId) === 0) {
+          await blobBackend.delete(getStoredBlobRef(result))
+            .catch((cleanupError) => logger.error({ err: cleanupError }, 'Failed to clean up unreferenced payload'));
+        }
+        throw error;
+      }
+
+      // Keep the ordered chunk manifest for files split across several messages
+      if (result.chunks) {
+        await storage.createFileChunks(result.chunks.map((chunk, index) => ({
+          fileId: file.id,
+          chunkIndex: index,
+          telegramMessageId: chunk.messageId,
+          channelId: result.channelId,
+          size: chunk.size,
+          checksum: chunk.checksum,
+        })));
+      }
+
+      // Update user storage usage; copies of content the user already has are not charged again
+      if (!(await storage.hasOtherLiveCopy(file))) {
+        await storage.updateUserStorage(userId, size);
+      }
+
+      // Return file metadata
+      return storage.getFileWithShareInfo(file.id);
+    });
+  }
+
+  /**
+   * Store a file, or point at the existing payload when the same content was stored before
+   * Either way the caller ends up holding one reference on the content index entry
+   * @param userId Uploading user, whose channel settings decide where new content goes
+   * @param filePath Path to the file
+   * @param originalName Original name of the file
+   * @param contentHash SHA-256 of the file
+   * @param size Size of the file in bytes
+   * @param options Progress callback and cancellation signal for storing new content
+   */
+  private async sendOrReuse(
+    userId: number,
+    filePath: string,
+    originalName: string,
+    contentHash: string,
+    size: number,
+    options: StoreOptions
+  ) {
+    for (const blob of await storage.getContentBlobs(contentHash)) {
+      // Copies in channels this user's uploads don't go to are left alone
+      if (!(await blobBackend.canReuse(blob.channelId, userId))) {
+        continue;
+      }
+
+      // An index entry no file points at any more is stale
+      const source = await storage.getFileByContentHash(contentHash, blob.channelId);
+      if (!source) {
+        await storage.deleteContentBlob(contentHash, blob.channelId);
+        continue;
+      }
+
+      logger.info(`Content ${contentHash} is already stored as ${blob.telegramMessageId}, reusing it`);
+      await storage.retainContentBlob(contentHash, blob.channelId);
+
+      // The new file reads the same payload, so it needs the same manifest and data key
+      const chunks = await storage.getFileChunks(source.id);
+      const result: StoredBlob = {
+        messageId: blob.telegramMessageId,
+        channelId: blob.channelId,
+        chunks: chunks.length > 0
+          ? chunks.map(chunk => ({ messageId: chunk.telegramMessageId, size: chunk.size, checksum: chunk.checksum }))
+          : undefined,
+        encryption: encryptionService.getFileEncryption(source) ?? undefined,
+      };
+      return result;
+    }
+
+    const result = await blobBackend.put(filePath, originalName, { ...options, userId });
+
+    // Cancelled too late to stop the transfer, so drop what was stored
+    if (options.signal?.aborted) {
+      await blobBackend.delete(getStoredBlobRef(result))
+        .catch((cleanupError) => logger.error({ err: cleanupError }, 'Failed to clean up a cancelled payload'));
+      options.signal.throwIfAborted();
+    }
+
+    await storage.createContentBlob({
+      contentHash,
+      telegramMessageId: result.messageId,
+      channelId: result.channelId,
+      size,
+    });
+    return result;
+  }
+
+  /**
+   * Run a task once every earlier task for the same content hash has finished
+   * @param contentHash SHA-256 of the content
+   * @param task The work to serialize
+   */
+  private async withContentLock<T>(contentHash: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.contentLocks.get(contentHash) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.contentLocks.set(contentHash, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.contentLocks.get(contentHash) === current) {
+        this.contentLocks.delete(contentHash);
+      }
+    }
+  }
+
+  /**
+   * Remove every upload session that was not finished in time
+   * @returns Number of sessions removed
+   */
+  async purgeExpired(): Promise<number> {
+    const expired = await storage.getExpiredUploadSessions(new Date());
+    let purged = 0;
+
+    for (const session of expired) {
+      // Leave sessions that are still receiving bytes for the next run
+      if (this.isBusy(session.id)) {
+        continue;
+      }
+      try {
+        await this.abortSession(session.id);
+        purged++;
+      } catch (error) {
+        logger.error({ err: error }, `Failed to remove upload session ${session.id}`);
+      }
+    }
+
+    if (purged > 0) {
+      logger.info(`Removed ${purged} expired upload session(s)`);
+    }
+    return purged;
+  }
+}
+
+// Export singleton instance
+export const uploadService = new UploadService();
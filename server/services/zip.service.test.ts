@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { randomBytes } from 'crypto';
+import { zipService, ZipService, type ZipEntry } from './zip.service';
+
+const entry = (name: string, data: Buffer, chunkSize: number = 1000): ZipEntry => ({
+  name,
+  size: data.length,
+  modifiedAt: new Date(2024, 5, 1, 12, 30, 10),
+  open: async () => {
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      chunks.push(data.subarray(offset, offset + chunkSize));
+    }
+    return Readable.from(chunks);
+  },
+});
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Read the central directory back, following ZIP64 records: what an unzip tool sees
+const readCentralDirectory = (zip: Buffer) => {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+
+  let count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const zip64End = count === 0xffff;
+  if (zip64End) {
+    const locator = end - 20;
+    expect(zip.readUInt32LE(locator)).toBe(0x07064b50);
+    const record = Number(zip.readBigUInt64LE(locator + 8));
+    expect(zip.readUInt32LE(record)).toBe(0x06064b50);
+    count = Number(zip.readBigUInt64LE(record + 32));
+    offset = Number(zip.readBigUInt64LE(record + 48));
+  }
+
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(offset)).toBe(0x02014b50);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    let size = zip.readUInt32LE(offset + 24);
+    let localOffset = zip.readUInt32LE(offset + 42);
+    const zip64 = size === 0xffffffff;
+    if (zip64) {
+      const extra = offset + 46 + nameLength;
+      expect(zip.readUInt16LE(extra)).toBe(0x0001);
+      size = Number(zip.readBigUInt64LE(extra + 12));
+      localOffset = Number(zip.readBigUInt64LE(extra + 20));
+    }
+    const dataOffset = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    entries.push({
+      name: zip.subarray(offset + 46, offset + 46 + nameLength).toString(),
+      crc: zip.readUInt32LE(offset + 16),
+      data: zip.subarray(dataOffset, dataOffset + size),
+      zip64,
+    });
+    offset += 46 + nameLength + extraLength;
+  }
+  return { entries, zip64End };
+};
+
+describe('zipService', () => {
+  it('packs files under their paths with their bytes and checksums', async () => {
+    const big = randomBytes(10_000);
+    const entries = [entry('hello.txt', Buffer.from('hello')), entry('Sub folder/données.bin', big)];
+
+    const zip = await readAll(zipService.stream(entries));
+    const { entries: read, zip64End } = readCentralDirectory(zip);
+
+    expect(zip64End).toBe(false);
+    expect(read.map(({ name, zip64 }) => ({ name, zip64 }))).toEqual([
+      { name: 'hello.txt', zip64: false },
+      { name: 'Sub folder/données.bin', zip64: false },
+    ]);
+    expect(read[0].crc).toBe(0x3610a686);
+    expect(read[0].data.toString()).toBe('hello');
+    expect(read[1].data.equals(big)).toBe(true);
+  });
+
+  it('knows the size of an archive before making it', async () => {
+    const entries = [entry('a', randomBytes(123)), entry('empty', Buffer.alloc(0)), entry('dir/b', randomBytes(4567))];
+
+    const zip = await readAll(zipService.stream(entries));
+
+    expect(zip.length).toBe(zipService.getSize(entries));
+  });
+
+  it('switches to ZIP64 for whatever does not fit in 32 bits', async () => {
+    // Limits lowered so a few kilobytes cross them
+    const zip64Service = new ZipService({ maxBytes: 2000, maxEntries: 3 });
+    const big = randomBytes(2500);
+    const small = randomBytes(100);
+    const entries = [entry('small.bin', small), entry('big.bin', big), entry('after.bin', small), entry('last.bin', small)];
+
+    const zip = await readAll(zip64Service.stream(entries));
+    const { entries: read, zip64End } = readCentralDirectory(zip);
+
+    expect(zip.length).toBe(zip64Service.getSize(entries));
+    expect(zip64End).toBe(true);
+    // Too large, and starting too far in, respectively
+    expect(read.map(({ name, zip64 }) => ({ name, zip64 }))).toEqual([
+      { name: 'small.bin', zip64: false },
+      { name: 'big.bin', zip64: true },
+      { name: 'after.bin', zip64: true },
+      { name: 'last.bin', zip64: true },
+    ]);
+    expect(read[1].data.equals(big)).toBe(true);
+    expect(read[3].data.equals(small)).toBe(true);
+  });
+
+  it('knows the size of archives past 4 GB without reading them', () => {
+    const huge: ZipEntry = { ...entry('huge.bin', Buffer.alloc(0)), size: 3 * 1024 * 1024 * 1024 };
+
+    // Both entries fit in 32 bits, but the central directory starts past them, so the end is ZIP64
+    const expected = (30 + 8 + huge.size + 16) + (30 + 9 + huge.size + 16) + (46 + 8) + (46 + 9) + 56 + 20 + 22;
+    expect(zipService.getSize([huge, { ...huge, name: 'huge2.bin' }])).toBe(expected);
+  });
+
+  it('fails when a file turns out shorter than promised', async () => {
+    const short: ZipEntry = { ...entry('short.bin', randomBytes(100)), size: 200 };
+
+    await expect(readAll(zipService.stream([short]))).rejects.toThrow('100 bytes instead of 200');
+  });
+});
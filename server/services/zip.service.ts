@@ -0,0 +1,242 @@
+import { Readable } from 'stream';
+
+// Plain ZIP keeps every size and offset in 32 bits and counts entries in 16; the all-ones value
+// means "see the ZIP64 records"
+const MAX_ZIP_BYTES = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+const LOCAL_HEADER_SIZE = 30;
+const DATA_DESCRIPTOR_SIZE = 16;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+// ZIP64 extra fields hold original size and compressed size (and, in the central directory, the
+// local header's offset) as 64-bit values
+const ZIP64_LOCAL_EXTRA_SIZE = 4 + 16;
+const ZIP64_CENTRAL_EXTRA_SIZE = 4 + 24;
+const ZIP64_DATA_DESCRIPTOR_SIZE = 24;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE = 56;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE = 20;
+
+// Sizes and CRCs follow each entry's data, and names are UTF-8
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const VERSION = 20;
+const ZIP64_VERSION = 45;
+
+// One file in an archive; its bytes are only fetched when the archive gets to it
+export interface ZipEntry {
+  name: string; // Path inside the archive, folders separated by '/'
+  size: number;
+  modifiedAt: Date;
+  open: () => Promise<Readable>;
+}
+
+// Where plain ZIP runs out and ZIP64 takes over; only lowered in tests
+export interface ZipLimits {
+  maxBytes: number;
+  maxEntries: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Carry a CRC-32 over another piece of data; start from 0
+const updateCrc32 = (crc: number, data: Buffer): number => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date, which is what ZIP keeps; local time, to the nearest two seconds
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/**
+ * Service for packing files into a ZIP archive as they are read
+ *
+ * Entries are stored, not compressed: most of what people keep is compressed already, and stored
+ * entries make the archive's size known up front. Each entry's CRC follows its data, so nothing
+ * is buffered beyond the chunk in flight. Entries that are too large, or start too far in, for
+ * 32 bits get ZIP64 records, and so does an archive with too many entries or a central directory
+ * too far in.
+ */
+export class ZipService {
+  constructor(private limits: ZipLimits = { maxBytes: MAX_ZIP_BYTES, maxEntries: MAX_ZIP_ENTRIES }) {}
+
+  /**
+   * Work out the exact size of an archive of these entries
+   * @param entries Files to pack
+   */
+  getSize(entries: ZipEntry[]): number {
+    let offset = 0;
+    let centralDirectorySize = 0;
+    for (const entry of entries) {
+      const nameLength = Buffer.byteLength(entry.name);
+      const zip64 = this.needsZip64(entry.size, offset);
+      offset += LOCAL_HEADER_SIZE + nameLength + entry.size +
+        (zip64 ? ZIP64_LOCAL_EXTRA_SIZE + ZIP64_DATA_DESCRIPTOR_SIZE : DATA_DESCRIPTOR_SIZE);
+      centralDirectorySize += CENTRAL_HEADER_SIZE + nameLength + (zip64 ? ZIP64_CENTRAL_EXTRA_SIZE : 0);
+    }
+
+    const zip64End = this.needsZip64End(entries.length, offset, centralDirectorySize);
+    return offset + centralDirectorySize + END_OF_CENTRAL_DIRECTORY_SIZE +
+      (zip64End ? ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE + ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE : 0);
+  }
+
+  /**
+   * Stream an archive of the entries, in order
+   * @param entries Files to pack; names should be unique
+   */
+  stream(entries: ZipEntry[]): Readable {
+    return Readable.from(this.generate(entries));
+  }
+
+  // Whether an entry of this size starting at this offset needs ZIP64 records
+  private needsZip64(size: number, offset: number): boolean {
+    return size >= this.limits.maxBytes || offset >= this.limits.maxBytes;
+  }
+
+  // Whether the end of the archive needs the ZIP64 end of central directory records
+  private needsZip64End(entryCount: number, centralDirectoryOffset: number, centralDirectorySize: number): boolean {
+    return entryCount >= this.limits.maxEntries ||
+      centralDirectoryOffset >= this.limits.maxBytes ||
+      centralDirectorySize >= this.limits.maxBytes;
+  }
+
+  private async *generate(entries: ZipEntry[]): AsyncGenerator<Buffer> {
+    const centralHeaders: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name);
+      const { time, date } = toDosDateTime(entry.modifiedAt);
+      const zip64 = this.needsZip64(entry.size, offset);
+
+      const localHeader = Buffer.alloc(LOCAL_HEADER_SIZE);
+      localHeader.writeUInt32LE(0x04034b50, 0);
+      localHeader.writeUInt16LE(zip64 ? ZIP64_VERSION : VERSION, 4);
+      localHeader.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 6);
+      localHeader.writeUInt16LE(0, 8); // Stored
+      localHeader.writeUInt16LE(time, 10);
+      localHeader.writeUInt16LE(date, 12);
+      // CRC and sizes are left 0 here and given in the data descriptor; a ZIP64 entry points its
+      // sizes at the extra field, which says 0 as well
+      if (zip64) {
+        localHeader.writeUInt32LE(0xffffffff, 18);
+        localHeader.writeUInt32LE(0xffffffff, 22);
+      }
+      localHeader.writeUInt16LE(name.length, 26);
+      localHeader.writeUInt16LE(zip64 ? ZIP64_LOCAL_EXTRA_SIZE : 0, 28);
+
+      const localExtra = Buffer.alloc(zip64 ? ZIP64_LOCAL_EXTRA_SIZE : 0);
+      if (zip64) {
+        localExtra.writeUInt16LE(0x0001, 0);
+        localExtra.writeUInt16LE(ZIP64_LOCAL_EXTRA_SIZE - 4, 2);
+      }
+      yield Buffer.concat([localHeader, name, localExtra]);
+
+      let crc = 0;
+      let size = 0;
+      for await (const chunk of await entry.open()) {
+        const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        crc = updateCrc32(crc, data);
+        size += data.length;
+        yield data;
+      }
+      if (size !== entry.size) {
+        throw new Error(`${entry.name} was ${size} bytes instead of ${entry.size}`);
+      }
+
+      const descriptor = Buffer.alloc(zip64 ? ZIP64_DATA_DESCRIPTOR_SIZE : DATA_DESCRIPTOR_SIZE);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      if (zip64) {
+        descriptor.writeBigUInt64LE(BigInt(size), 8);
+        descriptor.writeBigUInt64LE(BigInt(size), 16);
+      } else {
+        descriptor.writeUInt32LE(size, 8);
+        descriptor.writeUInt32LE(size, 12);
+      }
+      yield descriptor;
+
+      const centralHeader = Buffer.alloc(CENTRAL_HEADER_SIZE);
+      centralHeader.writeUInt32LE(0x02014b50, 0);
+      centralHeader.writeUInt16LE(zip64 ? ZIP64_VERSION : VERSION, 4);
+      centralHeader.writeUInt16LE(zip64 ? ZIP64_VERSION : VERSION, 6);
+      centralHeader.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 8);
+      centralHeader.writeUInt16LE(0, 10);
+      centralHeader.writeUInt16LE(time, 12);
+      centralHeader.writeUInt16LE(date, 14);
+      centralHeader.writeUInt32LE(crc, 16);
+      centralHeader.writeUInt32LE(zip64 ? 0xffffffff : size, 20);
+      centralHeader.writeUInt32LE(zip64 ? 0xffffffff : size, 24);
+      centralHeader.writeUInt16LE(name.length, 28);
+      centralHeader.writeUInt16LE(zip64 ? ZIP64_CENTRAL_EXTRA_SIZE : 0, 30);
+      centralHeader.writeUInt32LE(zip64 ? 0xffffffff : offset, 42);
+      centralHeaders.push(centralHeader, name);
+
+      if (zip64) {
+        const centralExtra = Buffer.alloc(ZIP64_CENTRAL_EXTRA_SIZE);
+        centralExtra.writeUInt16LE(0x0001, 0);
+        centralExtra.writeUInt16LE(ZIP64_CENTRAL_EXTRA_SIZE - 4, 2);
+        centralExtra.writeBigUInt64LE(BigInt(size), 4);
+        centralExtra.writeBigUInt64LE(BigInt(size), 12);
+        centralExtra.writeBigUInt64LE(BigInt(offset), 20);
+        centralHeaders.push(centralExtra);
+      }
+
+      offset += localHeader.length + name.length + localExtra.length + size + descriptor.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralHeaders);
+    yield centralDirectory;
+
+    const zip64End = this.needsZip64End(entries.length, offset, centralDirectory.length);
+    if (zip64End) {
+      const zip64EndOffset = offset + centralDirectory.length;
+
+      const record = Buffer.alloc(ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE);
+      record.writeUInt32LE(0x06064b50, 0);
+      record.writeBigUInt64LE(BigInt(ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE - 12), 4);
+      record.writeUInt16LE(ZIP64_VERSION, 12);
+      record.writeUInt16LE(ZIP64_VERSION, 14);
+      record.writeBigUInt64LE(BigInt(entries.length), 24);
+      record.writeBigUInt64LE(BigInt(entries.length), 32);
+      record.writeBigUInt64LE(BigInt(centralDirectory.length), 40);
+      record.writeBigUInt64LE(BigInt(offset), 48);
+
+      const locator = Buffer.alloc(ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE);
+      locator.writeUInt32LE(0x07064b50, 0);
+      locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+      locator.writeUInt32LE(1, 16); // Total number of disks
+      yield Buffer.concat([record, locator]);
+    }
+
+    const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(zip64End ? 0xffff : entries.length, 8);
+    end.writeUInt16LE(zip64End ? 0xffff : entries.length, 10);
+    end.writeUInt32LE(zip64End ? 0xffffffff : centralDirectory.length, 12);
+    end.writeUInt32LE(zip64End ? 0xffffffff : offset, 16);
+    yield end;
+  }
+}
+
+// Export singleton instance
+export const zipService = new ZipService();
@@ -1,9 +1,111 @@
 import { 
   users, type User, type InsertUser, 
   files, type File, type InsertFile,
+  fileChunks, type FileChunk, type InsertFileChunk,
+  contentBlobs, type ContentBlob, type InsertContentBlob,
+  folders, type Folder, type InsertFolder,
+  uploadSessions, type UploadSession, type InsertUploadSession,
+  uploadJobs, type UploadJob, type InsertUploadJob, type UploadJobStatus,
   sharedFiles, type SharedFile, type InsertSharedFile,
-  FileWithShareInfo, UserWithStorage
+  filePermissions, type FilePermission, type InsertFilePermission, type FilePermissionRole,
+  FileWithShareInfo, UserWithStorage, UserSummary, FileGrant, IncomingSharedFile
 } from "@shared/schema";
+import { db } from "./db";
+import { and, asc, desc, eq, inArray, isNotNull, isNull, like, lt, lte, ne, or, sql } from "drizzle-orm";
+
+export type UserSettings = Partial<Pick<User, "trashRetentionDays" | "telegramChannelId">>;
+
+export type UploadJobChanges = Partial<Pick<UploadJob, "status" | "bytesStored" | "storedFileId" | "error">>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upload jobs that are over, one way or another
+const FINISHED_UPLOAD_JOB_STATUSES: UploadJobStatus[] = ['done', 'failed', 'cancelled'];
+
+// A file the user shared, with its links and who it was shared with
+export interface OutgoingShare {
+  file: File;
+  links: SharedFile[];
+  grants: FileGrant[];
+}
+
+// A folder the user shared, with its links
+export interface OutgoingFolderShare {
+  folder: Folder;
+  links: SharedFile[];
+}
+
+export interface OutgoingShares {
+  files: OutgoingShare[];
+  folders: OutgoingFolderShare[];
+}
+
+const toUserSummary = (user: User): UserSummary => ({
+  id: user.id,
+  email: user.email,
+  displayName: user.displayName,
+  photoURL: user.photoURL,
+});
+
+const toFileGrant = (permission: FilePermission, user: User): FileGrant => ({
+  id: permission.id,
+  role: permission.role as FilePermissionRole,
+  user: toUserSummary(user),
+  grantedBy: permission.grantedBy,
+  createdAt: permission.createdAt,
+});
+
+const toIncomingSharedFile = (permission: FilePermission, file: File, sharedBy: User): IncomingSharedFile => ({
+  ...file,
+  permissionId: permission.id,
+  role: permission.role as FilePermissionRole,
+  sharedBy: toUserSummary(sharedBy),
+  sharedAt: permission.createdAt,
+});
+
+// Gather links and grants by file or folder, most recently shared first
+function groupOutgoingShares(
+  links: { link: SharedFile; file: File | null; folder: Folder | null }[],
+  grants: { permission: FilePermission; file: File; user: User }[]
+): OutgoingShares {
+  const shares = new Map<number, OutgoingShare & { lastSharedAt: number }>();
+  const getShare = (file: File) => {
+    let share = shares.get(file.id);
+    if (!share) {
+      share = { file, links: [], grants: [], lastSharedAt: 0 };
+      shares.set(file.id, share);
+    }
+    return share;
+  };
+  const folderShares = new Map<number, OutgoingFolderShare & { lastSharedAt: number }>();
+
+  for (const { link, file, folder } of links) {
+    if (file) {
+      const share = getShare(file);
+      share.links.push(link);
+      share.lastSharedAt = Math.max(share.lastSharedAt, link.createdAt?.getTime() ?? 0);
+    } else if (folder) {
+      const share = folderShares.get(folder.id) ?? { folder, links: [], lastSharedAt: 0 };
+      share.links.push(link);
+      share.lastSharedAt = Math.max(share.lastSharedAt, link.createdAt?.getTime() ?? 0);
+      folderShares.set(folder.id, share);
+    }
+  }
+  for (const { permission, file, user } of grants) {
+    const share = getShare(file);
+    share.grants.push(toFileGrant(permission, user));
+    share.lastSharedAt = Math.max(share.lastSharedAt, permission.createdAt?.getTime() ?? 0);
+  }
+
+  return {
+    files: Array.from(shares.values())
+      .sort((a, b) => b.lastSharedAt - a.lastSharedAt)
+      .map(({ file, links, grants }) => ({ file, links, grants })),
+    folders: Array.from(folderShares.values())
+      .sort((a, b) => b.lastSharedAt - a.lastSharedAt)
+      .map(({ folder, links }) => ({ folder, links })),
+  };
+}
 
 export interface IStorage {
   // User operations
@@ -13,40 +115,125 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUserStorage(userId: number, bytesAdded: number): Promise<User>;
   getUserWithStorageInfo(userId: number): Promise<UserWithStorage | undefined>;
+  updateUserSettings(userId: number, settings: UserSettings): Promise<User | undefined>;
   
   // File operations
   createFile(file: InsertFile): Promise<File>;
   getFile(id: number): Promise<File | undefined>;
-  getUserFiles(userId: number): Promise<File[]>;
+  getUserFiles(userId: number, folderId?: number | null): Promise<File[]>;
   getRecentUserFiles(userId: number, limit: number): Promise<File[]>;
   getFilesByType(userId: number, fileType: string): Promise<File[]>;
   deleteFile(id: number): Promise<boolean>;
   starFile(id: number, starred: boolean): Promise<File | undefined>;
+  starFiles(ids: number[], starred: boolean): Promise<File[]>;
+  getStarredFiles(userId: number): Promise<File[]>;
   getFileWithShareInfo(id: number): Promise<FileWithShareInfo | undefined>;
+  moveFile(id: number, folderId: number | null): Promise<File | undefined>;
+  createFileChunks(chunks: InsertFileChunk[]): Promise<FileChunk[]>;
+  getFileChunks(fileId: number): Promise<FileChunk[]>;
+  getFilesNotWrappedWith(masterKeyId: string): Promise<File[]>;
+  updateFileDataKey(id: number, wrappedDataKey: string, masterKeyId: string): Promise<File | undefined>;
+  getFileByContentHash(contentHash: string, channelId: string): Promise<File | undefined>;
+  hasOtherLiveCopy(file: File): Promise<boolean>;
+
+  // Content index operations; the same content may be stored once per channel
+  getContentBlobs(contentHash: string): Promise<ContentBlob[]>;
+  createContentBlob(blob: InsertContentBlob): Promise<ContentBlob>;
+  retainContentBlob(contentHash: string, channelId: string): Promise<ContentBlob | undefined>;
+  releaseContentBlob(contentHash: string, channelId: string): Promise<number>;
+  deleteContentBlob(contentHash: string, channelId: string): Promise<boolean>;
+  getChannelUsage(): Promise<Map<string, number>>;
+
+  // Trash operations
+  getTrashedFiles(userId: number): Promise<File[]>;
+  restoreFile(id: number): Promise<File | undefined>;
+  // Also releases the file's hold on its content; resolves to the references left to it (0 once
+  // the payload can go), or null when the file was already gone
+  purgeFile(id: number): Promise<number | null>;
+  getExpiredTrashedFiles(now: Date): Promise<File[]>;
+
+  // Folder operations
+  createFolder(folder: InsertFolder): Promise<Folder>;
+  getFolder(id: number): Promise<Folder | undefined>;
+  getUserFolders(userId: number, parentId: number | null): Promise<Folder[]>;
+  renameFolder(id: number, name: string): Promise<Folder | undefined>;
+  moveFolder(id: number, parentId: number | null): Promise<Folder | undefined>;
+  getFolderPath(id: number): Promise<Folder[]>;
+
+  // Resumable upload operations
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  getUserUploadSessions(userId: number): Promise<UploadSession[]>;
+  updateUploadOffset(id: string, uploadOffset: number): Promise<UploadSession | undefined>;
+  deleteUploadSession(id: string): Promise<boolean>;
+  getExpiredUploadSessions(now: Date): Promise<UploadSession[]>;
+
+  // Upload job operations
+  createUploadJob(job: InsertUploadJob): Promise<UploadJob>;
+  getUploadJob(id: string): Promise<UploadJob | undefined>;
+  getUserUploadJobs(userId: number): Promise<UploadJob[]>;
+  getUploadJobsByStatus(statuses: UploadJobStatus[]): Promise<UploadJob[]>;
+  updateUploadJob(id: string, changes: UploadJobChanges): Promise<UploadJob | undefined>;
+  deleteFinishedUploadJobs(before: Date): Promise<number>;
   
   // Shared file operations
   createSharedFile(sharedFile: InsertSharedFile): Promise<SharedFile>;
   getSharedFile(id: number): Promise<SharedFile | undefined>;
   getSharedFileByLink(shareLink: string): Promise<SharedFile | undefined>;
+  getFolderSharedFiles(folderId: number): Promise<SharedFile[]>;
   deleteSharedFile(id: number): Promise<boolean>;
   incrementAccessCount(id: number): Promise<SharedFile | undefined>;
+  updateSharedFilePassword(id: number, passwordHash: string | null): Promise<SharedFile | undefined>;
+  // Count a download against the link's limit; undefined when the limit was already reached
+  claimSharedDownload(id: number): Promise<SharedFile | undefined>;
+
+  // File permission operations
+  createFilePermission(permission: InsertFilePermission): Promise<FilePermission>;
+  getFilePermission(id: number): Promise<FilePermission | undefined>;
+  getFilePermissionForUser(fileId: number, userId: number): Promise<FilePermission | undefined>;
+  updateFilePermissionRole(id: number, role: FilePermissionRole): Promise<FilePermission | undefined>;
+  deleteFilePermission(id: number): Promise<boolean>;
+  // Files shared with the user, leaving out those in the trash
+  getIncomingSharedFiles(userId: number): Promise<IncomingSharedFile[]>;
+  // Links to the user's files and the grants the user made, leaving out files in the trash
+  getOutgoingShares(userId: number): Promise<OutgoingShares>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private files: Map<number, File>;
+  private folders: Map<number, Folder>;
+  private fileChunks: Map<number, FileChunk>;
+  private contentBlobs: Map<string, ContentBlob>;
+  private uploadSessions: Map<string, UploadSession>;
+  private uploadJobs: Map<string, UploadJob>;
   private sharedFiles: Map<number, SharedFile>;
+  private filePermissions: Map<number, FilePermission>;
   private userIdCounter: number;
   private fileIdCounter: number;
+  private folderIdCounter: number;
+  private fileChunkIdCounter: number;
+  private contentBlobIdCounter: number;
   private sharedFileIdCounter: number;
+  private filePermissionIdCounter: number;
 
   constructor() {
     this.users = new Map();
     this.files = new Map();
+    this.folders = new Map();
+    this.fileChunks = new Map();
+    this.contentBlobs = new Map();
+    this.uploadSessions = new Map();
+    this.uploadJobs = new Map();
     this.sharedFiles = new Map();
+    this.filePermissions = new Map();
     this.userIdCounter = 1;
     this.fileIdCounter = 1;
+    this.folderIdCounter = 1;
+    this.fileChunkIdCounter = 1;
+    this.contentBlobIdCounter = 1;
     this.sharedFileIdCounter = 1;
+    this.filePermissionIdCounter = 1;
   }
 
   // User operations
@@ -71,6 +258,8 @@ export class MemStorage implements IStorage {
       createdAt: now, 
       quota: 5368709120, // 5GB in bytes
       usedStorage: 0,
+      trashRetentionDays: 30,
+      telegramChannelId: null,
       displayName: userData.displayName ?? null,
       photoURL: userData.photoURL ?? null
     };
@@ -107,6 +296,17 @@ export class MemStorage implements IStorage {
     };
   }
 
+  async updateUserSettings(userId: number, settings: UserSettings): Promise<User | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      return undefined;
+    }
+
+    const updatedUser = { ...user, ...settings };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
   // File operations
   async createFile(fileData: InsertFile): Promise<File> {
     const id = this.fileIdCounter++;
@@ -116,8 +316,19 @@ export class MemStorage implements IStorage {
       id,
       uploadTimestamp: now,
       isDeleted: false,
+      deletedAt: null,
       isStarred: false,
-      fileLink: fileData.fileLink ?? null
+      starredAt: null,
+      fileLink: fileData.fileLink ?? null,
+      folderId: fileData.folderId ?? null,
+      isEncrypted: fileData.isEncrypted ?? false,
+      wrappedKey: fileData.wrappedKey ?? null,
+      encryptionIv: fileData.encryptionIv ?? null,
+      encryptionSalt: fileData.encryptionSalt ?? null,
+      wrappedDataKey: fileData.wrappedDataKey ?? null,
+      masterKeyId: fileData.masterKeyId ?? null,
+      dataNonce: fileData.dataNonce ?? null,
+      contentHash: fileData.contentHash ?? null
     };
     this.files.set(id, file);
     return file;
@@ -127,9 +338,10 @@ export class MemStorage implements IStorage {
     return this.files.get(id);
   }
 
-  async getUserFiles(userId: number): Promise<File[]> {
+  async getUserFiles(userId: number, folderId?: number | null): Promise<File[]> {
     return Array.from(this.files.values())
       .filter(file => file.uploaderId === userId && !file.isDeleted)
+      .filter(file => folderId === undefined || file.folderId === folderId)
       .sort((a, b) => (b.uploadTimestamp ?? new Date()).getTime() - (a.uploadTimestamp ?? new Date()).getTime());
   }
 
@@ -150,7 +362,7 @@ export class MemStorage implements IStorage {
     }
     
     // Mark as deleted instead of removing
-    const updatedFile = { ...file, isDeleted: true };
+    const updatedFile = { ...file, isDeleted: true, deletedAt: new Date() };
     this.files.set(id, updatedFile);
     return true;
   }
@@ -161,11 +373,29 @@ export class MemStorage implements IStorage {
       return undefined;
     }
 
-    const updatedFile = { ...file, isStarred: starred };
+    const updatedFile = { ...file, isStarred: starred, starredAt: starred ? new Date() : null };
     this.files.set(id, updatedFile);
     return updatedFile;
   }
 
+  async starFiles(ids: number[], starred: boolean): Promise<File[]> {
+    const updated: File[] = [];
+    for (const id of ids) {
+      const file = await this.starFile(id, starred);
+      if (file) {
+        updated.push(file);
+      }
+    }
+    return updated;
+  }
+
+  async getStarredFiles(userId: number): Promise<File[]> {
+    // Most recently starred first
+    return Array.from(this.files.values())
+      .filter(file => file.uploaderId === userId && !file.isDeleted && file.isStarred)
+      .sort((a, b) => (b.starredAt ?? new Date(0)).getTime() - (a.starredAt ?? new Date(0)).getTime());
+  }
+
   async getFileWithShareInfo(id: number): Promise<FileWithShareInfo | undefined> {
     const file = await this.getFile(id);
     if (!file) {
@@ -183,12 +413,345 @@ export class MemStorage implements IStorage {
     return {
       ...file,
       shareInfo: {
+        id: shareInfo.id,
         shareLink: shareInfo.shareLink,
-        expiryDate: shareInfo.expiryDate ?? undefined
+        expiryDate: shareInfo.expiryDate ?? undefined,
+        hasPassword: shareInfo.passwordHash !== null,
+        maxDownloads: shareInfo.maxDownloads,
+        downloadCount: shareInfo.downloadCount
       }
     };
   }
 
+  async moveFile(id: number, folderId: number | null): Promise<File | undefined> {
+    const file = await this.getFile(id);
+    if (!file) {
+      return undefined;
+    }
+
+    const updatedFile = { ...file, folderId };
+    this.files.set(id, updatedFile);
+    return updatedFile;
+  }
+
+  async createFileChunks(chunks: InsertFileChunk[]): Promise<FileChunk[]> {
+    return chunks.map(chunkData => {
+      const chunk: FileChunk = { ...chunkData, id: this.fileChunkIdCounter++ };
+      this.fileChunks.set(chunk.id, chunk);
+      return chunk;
+    });
+  }
+
+  async getFileChunks(fileId: number): Promise<FileChunk[]> {
+    return Array.from(this.fileChunks.values())
+      .filter(chunk => chunk.fileId === fileId)
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  async getFilesNotWrappedWith(masterKeyId: string): Promise<File[]> {
+    return Array.from(this.files.values())
+      .filter(file => file.masterKeyId !== null && file.masterKeyId !== masterKeyId);
+  }
+
+  async updateFileDataKey(id: number, wrappedDataKey: string, masterKeyId: string): Promise<File | undefined> {
+    const file = await this.getFile(id);
+    if (!file) {
+      return undefined;
+    }
+
+    const updatedFile = { ...file, wrappedDataKey, masterKeyId };
+    this.files.set(id, updatedFile);
+    return updatedFile;
+  }
+
+  async getFileByContentHash(contentHash: string, channelId: string): Promise<File | undefined> {
+    return Array.from(this.files.values()).find(file => file.contentHash === contentHash && file.channelId === channelId);
+  }
+
+  async hasOtherLiveCopy(file: File): Promise<boolean> {
+    if (!file.contentHash) {
+      return false;
+    }
+    return Array.from(this.files.values()).some(other =>
+      other.id !== file.id &&
+      other.uploaderId === file.uploaderId &&
+      other.contentHash === file.contentHash &&
+      !other.isDeleted
+    );
+  }
+
+  // Content index operations
+  private getContentBlobKey(contentHash: string, channelId: string): string {
+    return `${contentHash}:${channelId}`;
+  }
+
+  async getContentBlobs(contentHash: string): Promise<ContentBlob[]> {
+    return Array.from(this.contentBlobs.values())
+      .filter(blob => blob.contentHash === contentHash)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createContentBlob(blobData: InsertContentBlob): Promise<ContentBlob> {
+    const blob: ContentBlob = {
+      ...blobData,
+      id: this.contentBlobIdCounter++,
+      refCount: 1,
+      createdAt: new Date()
+    };
+    this.contentBlobs.set(this.getContentBlobKey(blob.contentHash, blob.channelId), blob);
+    return blob;
+  }
+
+  async retainContentBlob(contentHash: string, channelId: string): Promise<ContentBlob | undefined> {
+    const key = this.getContentBlobKey(contentHash, channelId);
+    const blob = this.contentBlobs.get(key);
+    if (!blob) {
+      return undefined;
+    }
+
+    const updatedBlob = { ...blob, refCount: blob.refCount + 1 };
+    this.contentBlobs.set(key, updatedBlob);
+    return updatedBlob;
+  }
+
+  async releaseContentBlob(contentHash: string, channelId: string): Promise<number> {
+    const key = this.getContentBlobKey(contentHash, channelId);
+    const blob = this.contentBlobs.get(key);
+    if (!blob) {
+      return 0;
+    }
+
+    // The last reference takes the index entry with it
+    const refCount = blob.refCount - 1;
+    if (refCount <= 0) {
+      this.contentBlobs.delete(key);
+      return 0;
+    }
+    this.contentBlobs.set(key, { ...blob, refCount });
+    return refCount;
+  }
+
+  async deleteContentBlob(contentHash: string, channelId: string): Promise<boolean> {
+    return this.contentBlobs.delete(this.getContentBlobKey(contentHash, channelId));
+  }
+  async getChannelUsage(): Promise<Map<string, number>> {
+    const usage = new Map<string, number>();
+    for (const blob of Array.from(this.contentBlobs.values())) {
+      usage.set(blob.channelId, (usage.get(blob.channelId) ?? 0) + blob.size);
+    }
+    return usage;
+  }
+
+
+  // Trash operations
+  async getTrashedFiles(userId: number): Promise<File[]> {
+    return Array.from(this.files.values())
+      .filter(file => file.uploaderId === userId && file.isDeleted)
+      .sort((a, b) => (b.deletedAt ?? new Date()).getTime() - (a.deletedAt ?? new Date()).getTime());
+  }
+
+  async restoreFile(id: number): Promise<File | undefined> {
+    const file = await this.getFile(id);
+    if (!file) {
+      return undefined;
+    }
+
+    const updatedFile = { ...file, isDeleted: false, deletedAt: null };
+    this.files.set(id, updatedFile);
+    return updatedFile;
+  }
+
+  async purgeFile(id: number): Promise<number | null> {
+    const file = this.files.get(id);
+    if (!file) {
+      return null;
+    }
+
+    // Share links and grants of a purged file are useless, so drop them too
+    Array.from(this.sharedFiles.values())
+      .filter(sf => sf.fileId === id)
+      .forEach(sf => this.sharedFiles.delete(sf.id));
+    Array.from(this.filePermissions.values())
+      .filter(permission => permission.fileId === id)
+      .forEach(permission => this.filePermissions.delete(permission.id));
+    Array.from(this.fileChunks.values())
+      .filter(chunk => chunk.fileId === id)
+      .forEach(chunk => this.fileChunks.delete(chunk.id));
+    this.files.delete(id);
+
+    return file.contentHash ? this.releaseContentBlob(file.contentHash, file.channelId) : 0;
+  }
+
+  async getExpiredTrashedFiles(now: Date): Promise<File[]> {
+    return Array.from(this.files.values()).filter(file => {
+      if (!file.isDeleted || !file.deletedAt) {
+        return false;
+      }
+      const retentionDays = this.users.get(file.uploaderId)?.trashRetentionDays ?? 30;
+      return file.deletedAt.getTime() + retentionDays * DAY_MS <= now.getTime();
+    });
+  }
+
+  // Folder operations
+  async createFolder(folderData: InsertFolder): Promise<Folder> {
+    const id = this.folderIdCounter++;
+    const folder: Folder = {
+      ...folderData,
+      id,
+      createdAt: new Date(),
+      parentId: folderData.parentId ?? null
+    };
+    this.folders.set(id, folder);
+    return folder;
+  }
+
+  async getFolder(id: number): Promise<Folder | undefined> {
+    return this.folders.get(id);
+  }
+
+  async getUserFolders(userId: number, parentId: number | null): Promise<Folder[]> {
+    return Array.from(this.folders.values())
+      .filter(folder => folder.ownerId === userId && folder.parentId === parentId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async renameFolder(id: number, name: string): Promise<Folder | undefined> {
+    const folder = await this.getFolder(id);
+    if (!folder) {
+      return undefined;
+    }
+
+    const updatedFolder = { ...folder, name };
+    this.folders.set(id, updatedFolder);
+    return updatedFolder;
+  }
+
+  async moveFolder(id: number, parentId: number | null): Promise<Folder | undefined> {
+    const folder = await this.getFolder(id);
+    if (!folder) {
+      return undefined;
+    }
+
+    const updatedFolder = { ...folder, parentId };
+    this.folders.set(id, updatedFolder);
+    return updatedFolder;
+  }
+
+  async getFolderPath(id: number): Promise<Folder[]> {
+    const path: Folder[] = [];
+    let folder = this.folders.get(id);
+    while (folder) {
+      path.unshift(folder);
+      folder = folder.parentId !== null ? this.folders.get(folder.parentId) : undefined;
+    }
+    return path;
+  }
+
+  // Resumable upload operations
+  async createUploadSession(sessionData: InsertUploadSession): Promise<UploadSession> {
+    const session: UploadSession = {
+      ...sessionData,
+      createdAt: new Date(),
+      uploadOffset: 0,
+      mimeType: sessionData.mimeType ?? null,
+      folderId: sessionData.folderId ?? null,
+      wrappedKey: sessionData.wrappedKey ?? null,
+      encryptionIv: sessionData.encryptionIv ?? null,
+      encryptionSalt: sessionData.encryptionSalt ?? null
+    };
+    this.uploadSessions.set(session.id, session);
+    return session;
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    return this.uploadSessions.get(id);
+  }
+
+  async getUserUploadSessions(userId: number): Promise<UploadSession[]> {
+    return Array.from(this.uploadSessions.values())
+      .filter(session => session.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async updateUploadOffset(id: string, uploadOffset: number): Promise<UploadSession | undefined> {
+    const session = await this.getUploadSession(id);
+    if (!session) {
+      return undefined;
+    }
+
+    const updatedSession = { ...session, uploadOffset };
+    this.uploadSessions.set(id, updatedSession);
+    return updatedSession;
+  }
+
+  async deleteUploadSession(id: string): Promise<boolean> {
+    return this.uploadSessions.delete(id);
+  }
+
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return Array.from(this.uploadSessions.values())
+      .filter(session => session.expiresAt.getTime() <= now.getTime());
+  }
+
+  // Upload job operations
+  async createUploadJob(jobData: InsertUploadJob): Promise<UploadJob> {
+    const now = new Date();
+    const job: UploadJob = {
+      ...jobData,
+      status: 'queued',
+      mimeType: jobData.mimeType ?? null,
+      folderId: jobData.folderId ?? null,
+      wrappedKey: jobData.wrappedKey ?? null,
+      encryptionIv: jobData.encryptionIv ?? null,
+      encryptionSalt: jobData.encryptionSalt ?? null,
+      bytesStored: 0,
+      storedFileId: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.uploadJobs.set(job.id, job);
+    return job;
+  }
+
+  async getUploadJob(id: string): Promise<UploadJob | undefined> {
+    return this.uploadJobs.get(id);
+  }
+
+  async getUserUploadJobs(userId: number): Promise<UploadJob[]> {
+    return Array.from(this.uploadJobs.values())
+      .filter(job => job.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getUploadJobsByStatus(statuses: UploadJobStatus[]): Promise<UploadJob[]> {
+    return Array.from(this.uploadJobs.values())
+      .filter(job => statuses.includes(job.status as UploadJobStatus))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async updateUploadJob(id: string, changes: UploadJobChanges): Promise<UploadJob | undefined> {
+    const job = await this.getUploadJob(id);
+    if (!job) {
+      return undefined;
+    }
+
+    const updatedJob = { ...job, ...changes, updatedAt: new Date() };
+    this.uploadJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async deleteFinishedUploadJobs(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const job of Array.from(this.uploadJobs.values())) {
+      if (FINISHED_UPLOAD_JOB_STATUSES.includes(job.status as UploadJobStatus) && (job.updatedAt?.getTime() ?? 0) <= before.getTime()) {
+        this.uploadJobs.delete(job.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   // Shared file operations
   async createSharedFile(sharedFileData: InsertSharedFile): Promise<SharedFile> {
     const id = this.sharedFileIdCounter++;
@@ -198,7 +761,12 @@ export class MemStorage implements IStorage {
       id,
       createdAt: now,
       accessCount: 0,
-      expiryDate: sharedFileData.expiryDate ?? null
+      fileId: sharedFileData.fileId ?? null,
+      folderId: sharedFileData.folderId ?? null,
+      expiryDate: sharedFileData.expiryDate ?? null,
+      passwordHash: sharedFileData.passwordHash ?? null,
+      maxDownloads: sharedFileData.maxDownloads ?? null,
+      downloadCount: 0
     };
     this.sharedFiles.set(id, sharedFile);
     return sharedFile;
@@ -213,6 +781,11 @@ export class MemStorage implements IStorage {
       .find(sf => sf.shareLink === shareLink);
   }
 
+  async getFolderSharedFiles(folderId: number): Promise<SharedFile[]> {
+    return Array.from(this.sharedFiles.values())
+      .filter(sf => sf.folderId === folderId);
+  }
+
   async deleteSharedFile(id: number): Promise<boolean> {
     return this.sharedFiles.delete(id);
   }
@@ -230,6 +803,744 @@ export class MemStorage implements IStorage {
     this.sharedFiles.set(id, updatedSharedFile);
     return updatedSharedFile;
   }
+
+  async updateSharedFilePassword(id: number, passwordHash: string | null): Promise<SharedFile | undefined> {
+    const sharedFile = await this.getSharedFile(id);
+    if (!sharedFile) {
+      return undefined;
+    }
+
+    const updatedSharedFile = { ...sharedFile, passwordHash };
+    this.sharedFiles.set(id, updatedSharedFile);
+    return updatedSharedFile;
+  }
+
+  async claimSharedDownload(id: number): Promise<SharedFile | undefined> {
+    const sharedFile = this.sharedFiles.get(id);
+    if (!sharedFile || (sharedFile.maxDownloads !== null && sharedFile.downloadCount >= sharedFile.maxDownloads)) {
+      return undefined;
+    }
+
+    const updatedSharedFile = { ...sharedFile, downloadCount: sharedFile.downloadCount + 1 };
+    this.sharedFiles.set(id, updatedSharedFile);
+    return updatedSharedFile;
+  }
+
+  // File permission operations
+  async createFilePermission(permissionData: InsertFilePermission): Promise<FilePermission> {
+    const id = this.filePermissionIdCounter++;
+    const permission: FilePermission = {
+      ...permissionData,
+      id,
+      role: permissionData.role ?? 'viewer',
+      createdAt: new Date()
+    };
+    this.filePermissions.set(id, permission);
+    return permission;
+  }
+
+  async getFilePermission(id: number): Promise<FilePermission | undefined> {
+    return this.filePermissions.get(id);
+  }
+
+  async getFilePermissionForUser(fileId: number, userId: number): Promise<FilePermission | undefined> {
+    return Array.from(this.filePermissions.values())
+      .find(permission => permission.fileId === fileId && permission.userId === userId);
+  }
+
+  async updateFilePermissionRole(id: number, role: FilePermissionRole): Promise<FilePermission | undefined> {
+    const permission = await this.getFilePermission(id);
+    if (!permission) {
+      return undefined;
+    }
+
+    const updatedPermission = { ...permission, role };
+    this.filePermissions.set(id, updatedPermission);
+    return updatedPermission;
+  }
+
+  async deleteFilePermission(id: number): Promise<boolean> {
+    return this.filePermissions.delete(id);
+  }
+
+  async getIncomingSharedFiles(userId: number): Promise<IncomingSharedFile[]> {
+    const incoming: IncomingSharedFile[] = [];
+    for (const permission of Array.from(this.filePermissions.values())) {
+      const file = this.files.get(permission.fileId);
+      const sharedBy = this.users.get(permission.grantedBy);
+      if (permission.userId === userId && file && !file.isDeleted && sharedBy) {
+        incoming.push(toIncomingSharedFile(permission, file, sharedBy));
+      }
+    }
+    // Most recently shared first
+    return incoming.sort((a, b) => (b.sharedAt?.getTime() ?? 0) - (a.sharedAt?.getTime() ?? 0));
+  }
+
+  async getOutgoingShares(userId: number): Promise<OutgoingShares> {
+    const links: { link: SharedFile; file: File | null; folder: Folder | null }[] = [];
+    for (const link of Array.from(this.sharedFiles.values())) {
+      const file = link.fileId !== null ? this.files.get(link.fileId) : undefined;
+      const folder = link.folderId !== null ? this.folders.get(link.folderId) : undefined;
+      if (file && file.uploaderId === userId && !file.isDeleted) {
+        links.push({ link, file, folder: null });
+      } else if (folder && folder.ownerId === userId) {
+        links.push({ link, file: null, folder });
+      }
+    }
+
+    const grants: { permission: FilePermission; file: File; user: User }[] = [];
+    for (const permission of Array.from(this.filePermissions.values())) {
+      const file = this.files.get(permission.fileId);
+      const user = this.users.get(permission.userId);
+      if (permission.grantedBy === userId && file && !file.isDeleted && user) {
+        grants.push({ permission, file, user });
+      }
+    }
+
+    return groupOutgoingShares(links, grants);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByUid(uid: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.uid, uid));
+    return user;
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(userData).returning();
+    return user;
+  }
+
+  async updateUserStorage(userId: number, bytesAdded: number): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ usedStorage: sql`GREATEST(0, COALESCE(${users.usedStorage}, 0) + ${bytesAdded})` })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!user) {
+      throw new Error("User not found");
+    }
+    return user;
+  }
+
+  async getUserWithStorageInfo(userId: number): Promise<UserWithStorage | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      return undefined;
+    }
+
+    return {
+      user,
+      storageInfo: {
+        used: user.usedStorage ?? 0,
+        total: user.quota ?? 0,
+        percentage: ((user.usedStorage ?? 0) / (user.quota ?? 1)) * 100
+      }
+    };
+  }
+
+  async updateUserSettings(userId: number, settings: UserSettings): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(settings)
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // File operations
+  async createFile(fileData: InsertFile): Promise<File> {
+    const [file] = await db.insert(files).values(fileData).returning();
+    return file;
+  }
+
+  async getFile(id: number): Promise<File | undefined> {
+    const [file] = await db.select().from(files).where(eq(files.id, id));
+    return file;
+  }
+
+  async getUserFiles(userId: number, folderId?: number | null): Promise<File[]> {
+    return db
+      .select()
+      .from(files)
+      .where(and(
+        eq(files.uploaderId, userId),
+        eq(files.isDeleted, false),
+        folderId === undefined
+          ? undefined
+          : folderId === null ? isNull(files.folderId) : eq(files.folderId, folderId)
+      ))
+      .orderBy(desc(files.uploadTimestamp));
+  }
+
+  async getRecentUserFiles(userId: number, limit: number): Promise<File[]> {
+    return db
+      .select()
+      .from(files)
+      .where(and(eq(files.uploaderId, userId), eq(files.isDeleted, false)))
+      .orderBy(desc(files.uploadTimestamp))
+      .limit(limit);
+  }
+
+  async getFilesByType(userId: number, fileType: string): Promise<File[]> {
+    return db
+      .select()
+      .from(files)
+      .where(and(
+        eq(files.uploaderId, userId),
+        eq(files.isDeleted, false),
+        like(files.fileType, `%${fileType}%`)
+      ))
+      .orderBy(desc(files.uploadTimestamp));
+  }
+
+  async deleteFile(id: number): Promise<boolean> {
+    // Mark as deleted instead of removing
+    const updated = await db
+      .update(files)
+      .set({ isDeleted: true, deletedAt: new Date() })
+      .where(eq(files.id, id))
+      .returning({ id: files.id });
+    return updated.length > 0;
+  }
+
+  async starFile(id: number, starred: boolean): Promise<File | undefined> {
+    const [file] = await db
+      .update(files)
+      .set({ isStarred: starred, starredAt: starred ? new Date() : null })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async starFiles(ids: number[], starred: boolean): Promise<File[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return db
+      .update(files)
+      .set({ isStarred: starred, starredAt: starred ? new Date() : null })
+      .where(inArray(files.id, ids))
+      .returning();
+  }
+
+  async getStarredFiles(userId: number): Promise<File[]> {
+    // Most recently starred first
+    return db
+      .select()
+      .from(files)
+      .where(and(
+        eq(files.uploaderId, userId),
+        eq(files.isDeleted, false),
+        eq(files.isStarred, true)
+      ))
+      .orderBy(desc(files.starredAt));
+  }
+
+  async getFileWithShareInfo(id: number): Promise<FileWithShareInfo | undefined> {
+    const file = await this.getFile(id);
+    if (!file) {
+      return undefined;
+    }
+
+    // Find share info if exists
+    const [shareInfo] = await db
+      .select()
+      .from(sharedFiles)
+      .where(eq(sharedFiles.fileId, id))
+      .limit(1);
+
+    if (!shareInfo) {
+      return file;
+    }
+
+    return {
+      ...file,
+      shareInfo: {
+        id: shareInfo.id,
+        shareLink: shareInfo.shareLink,
+        expiryDate: shareInfo.expiryDate ?? undefined,
+        hasPassword: shareInfo.passwordHash !== null,
+        maxDownloads: shareInfo.maxDownloads,
+        downloadCount: shareInfo.downloadCount
+      }
+    };
+  }
+
+  async moveFile(id: number, folderId: number | null): Promise<File | undefined> {
+    const [file] = await db
+      .update(files)
+      .set({ folderId })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async createFileChunks(chunks: InsertFileChunk[]): Promise<FileChunk[]> {
+    if (chunks.length === 0) {
+      return [];
+    }
+    return db.insert(fileChunks).values(chunks).returning();
+  }
+
+  async getFileChunks(fileId: number): Promise<FileChunk[]> {
+    return db
+      .select()
+      .from(fileChunks)
+      .where(eq(fileChunks.fileId, fileId))
+      .orderBy(asc(fileChunks.chunkIndex));
+  }
+
+  async getFilesNotWrappedWith(masterKeyId: string): Promise<File[]> {
+    return db
+      .select()
+      .from(files)
+      .where(and(isNotNull(files.masterKeyId), ne(files.masterKeyId, masterKeyId)));
+  }
+
+  async updateFileDataKey(id: number, wrappedDataKey: string, masterKeyId: string): Promise<File | undefined> {
+    const [file] = await db
+      .update(files)
+      .set({ wrappedDataKey, masterKeyId })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async getFileByContentHash(contentHash: string, channelId: string): Promise<File | undefined> {
+    const [file] = await db
+      .select()
+      .from(files)
+      .where(and(eq(files.contentHash, contentHash), eq(files.channelId, channelId)))
+      .limit(1);
+    return file;
+  }
+
+  async hasOtherLiveCopy(file: File): Promise<boolean> {
+    if (!file.contentHash) {
+      return false;
+    }
+    const [copy] = await db
+      .select({ id: files.id })
+      .from(files)
+      .where(and(
+        ne(files.id, file.id),
+        eq(files.uploaderId, file.uploaderId),
+        eq(files.contentHash, file.contentHash),
+        eq(files.isDeleted, false)
+      ))
+      .limit(1);
+    return !!copy;
+  }
+
+  // Content index operations
+  async getContentBlobs(contentHash: string): Promise<ContentBlob[]> {
+    return db
+      .select()
+      .from(contentBlobs)
+      .where(eq(contentBlobs.contentHash, contentHash))
+      .orderBy(asc(contentBlobs.id));
+  }
+
+  async createContentBlob(blobData: InsertContentBlob): Promise<ContentBlob> {
+    const [blob] = await db.insert(contentBlobs).values(blobData).returning();
+    return blob;
+  }
+
+  async retainContentBlob(contentHash: string, channelId: string): Promise<ContentBlob | undefined> {
+    const [blob] = await db
+      .update(contentBlobs)
+      .set({ refCount: sql`${contentBlobs.refCount} + 1` })
+      .where(and(eq(contentBlobs.contentHash, contentHash), eq(contentBlobs.channelId, channelId)))
+      .returning();
+    return blob;
+  }
+
+  async releaseContentBlob(contentHash: string, channelId: string): Promise<number> {
+    const [blob] = await db
+      .update(contentBlobs)
+      .set({ refCount: sql`${contentBlobs.refCount} - 1` })
+      .where(and(eq(contentBlobs.contentHash, contentHash), eq(contentBlobs.channelId, channelId)))
+      .returning();
+    if (!blob) {
+      return 0;
+    }
+
+    // The last reference takes the index entry with it
+    if (blob.refCount <= 0) {
+      await this.deleteContentBlob(contentHash, channelId);
+      return 0;
+    }
+    return blob.refCount;
+  }
+
+  async deleteContentBlob(contentHash: string, channelId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(contentBlobs)
+      .where(and(eq(contentBlobs.contentHash, contentHash), eq(contentBlobs.channelId, channelId)))
+      .returning({ id: contentBlobs.id });
+    return deleted.length > 0;
+  }
+  async getChannelUsage(): Promise<Map<string, number>> {
+    const rows = await db
+      .select({ channelId: contentBlobs.channelId, size: sql<number>`SUM(${contentBlobs.size})` })
+      .from(contentBlobs)
+      .groupBy(contentBlobs.channelId);
+    return new Map(rows.map(row => [row.channelId, Number(row.size)]));
+  }
+
+
+  // Trash operations
+  async getTrashedFiles(userId: number): Promise<File[]> {
+    return db
+      .select()
+      .from(files)
+      .where(and(eq(files.uploaderId, userId), eq(files.isDeleted, true)))
+      .orderBy(desc(files.deletedAt));
+  }
+
+  async restoreFile(id: number): Promise<File | undefined> {
+    const [file] = await db
+      .update(files)
+      .set({ isDeleted: false, deletedAt: null })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async purgeFile(id: number): Promise<number | null> {
+    // The file and its content reference go together, so a purge retried after a failure can't
+    // release the content twice
+    return db.transaction(async (tx) => {
+      // Share links of a purged file are useless, so drop them too
+      await tx.delete(sharedFiles).where(eq(sharedFiles.fileId, id));
+      await tx.delete(filePermissions).where(eq(filePermissions.fileId, id));
+      await tx.delete(fileChunks).where(eq(fileChunks.fileId, id));
+      const [file] = await tx
+        .delete(files)
+        .where(eq(files.id, id))
+        .returning();
+      if (!file) {
+        return null;
+      }
+      if (!file.contentHash) {
+        return 0;
+      }
+
+      const blobMatch = and(eq(contentBlobs.contentHash, file.contentHash), eq(contentBlobs.channelId, file.channelId));
+      const [blob] = await tx
+        .update(contentBlobs)
+        .set({ refCount: sql`${contentBlobs.refCount} - 1` })
+        .where(blobMatch)
+        .returning();
+      if (!blob) {
+        return 0;
+      }
+
+      // The last reference takes the index entry with it
+      if (blob.refCount <= 0) {
+        await tx.delete(contentBlobs).where(blobMatch);
+        return 0;
+      }
+      return blob.refCount;
+    });
+  }
+
+  async getExpiredTrashedFiles(now: Date): Promise<File[]> {
+    const rows = await db
+      .select({ file: files })
+      .from(files)
+      .innerJoin(users, eq(files.uploaderId, users.id))
+      .where(and(
+        eq(files.isDeleted, true),
+        sql`${files.deletedAt} + make_interval(days => COALESCE(${users.trashRetentionDays}, 30)) <= ${now}`
+      ));
+    return rows.map(row => row.file);
+  }
+
+  // Folder operations
+  async createFolder(folderData: InsertFolder): Promise<Folder> {
+    const [folder] = await db.insert(folders).values(folderData).returning();
+    return folder;
+  }
+
+  async getFolder(id: number): Promise<Folder | undefined> {
+    const [folder] = await db.select().from(folders).where(eq(folders.id, id));
+    return folder;
+  }
+
+  async getUserFolders(userId: number, parentId: number | null): Promise<Folder[]> {
+    return db
+      .select()
+      .from(folders)
+      .where(and(
+        eq(folders.ownerId, userId),
+        parentId === null ? isNull(folders.parentId) : eq(folders.parentId, parentId)
+      ))
+      .orderBy(asc(folders.name));
+  }
+
+  async renameFolder(id: number, name: string): Promise<Folder | undefined> {
+    const [folder] = await db
+      .update(folders)
+      .set({ name })
+      .where(eq(folders.id, id))
+      .returning();
+    return folder;
+  }
+
+  async moveFolder(id: number, parentId: number | null): Promise<Folder | undefined> {
+    const [folder] = await db
+      .update(folders)
+      .set({ parentId })
+      .where(eq(folders.id, id))
+      .returning();
+    return folder;
+  }
+
+  async getFolderPath(id: number): Promise<Folder[]> {
+    const path: Folder[] = [];
+    let folder = await this.getFolder(id);
+    while (folder) {
+      path.unshift(folder);
+      folder = folder.parentId !== null ? await this.getFolder(folder.parentId) : undefined;
+    }
+    return path;
+  }
+
+  // Resumable upload operations
+  async createUploadSession(sessionData: InsertUploadSession): Promise<UploadSession> {
+    const [session] = await db.insert(uploadSessions).values(sessionData).returning();
+    return session;
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [session] = await db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return session;
+  }
+
+  async getUserUploadSessions(userId: number): Promise<UploadSession[]> {
+    return db
+      .select()
+      .from(uploadSessions)
+      .where(eq(uploadSessions.userId, userId))
+      .orderBy(desc(uploadSessions.createdAt));
+  }
+
+  async updateUploadOffset(id: string, uploadOffset: number): Promise<UploadSession | undefined> {
+    const [session] = await db
+      .update(uploadSessions)
+      .set({ uploadOffset })
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async deleteUploadSession(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(uploadSessions)
+      .where(eq(uploadSessions.id, id))
+      .returning({ id: uploadSessions.id });
+    return deleted.length > 0;
+  }
+
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return db.select().from(uploadSessions).where(lte(uploadSessions.expiresAt, now));
+  }
+
+  // Upload job operations
+  async createUploadJob(jobData: InsertUploadJob): Promise<UploadJob> {
+    const [job] = await db.insert(uploadJobs).values(jobData).returning();
+    return job;
+  }
+
+  async getUploadJob(id: string): Promise<UploadJob | undefined> {
+    const [job] = await db.select().from(uploadJobs).where(eq(uploadJobs.id, id));
+    return job;
+  }
+
+  async getUserUploadJobs(userId: number): Promise<UploadJob[]> {
+    return db
+      .select()
+      .from(uploadJobs)
+      .where(eq(uploadJobs.userId, userId))
+      .orderBy(desc(uploadJobs.createdAt));
+  }
+
+  async getUploadJobsByStatus(statuses: UploadJobStatus[]): Promise<UploadJob[]> {
+    return db
+      .select()
+      .from(uploadJobs)
+      .where(inArray(uploadJobs.status, statuses))
+      .orderBy(asc(uploadJobs.createdAt));
+  }
+
+  async updateUploadJob(id: string, changes: UploadJobChanges): Promise<UploadJob | undefined> {
+    const [job] = await db
+      .update(uploadJobs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(uploadJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async deleteFinishedUploadJobs(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(uploadJobs)
+      .where(and(
+        inArray(uploadJobs.status, FINISHED_UPLOAD_JOB_STATUSES),
+        lte(uploadJobs.updatedAt, before)
+      ))
+      .returning({ id: uploadJobs.id });
+    return deleted.length;
+  }
+
+  // Shared file operations
+  async createSharedFile(sharedFileData: InsertSharedFile): Promise<SharedFile> {
+    const [sharedFile] = await db.insert(sharedFiles).values(sharedFileData).returning();
+    return sharedFile;
+  }
+
+  async getSharedFile(id: number): Promise<SharedFile | undefined> {
+    const [sharedFile] = await db.select().from(sharedFiles).where(eq(sharedFiles.id, id));
+    return sharedFile;
+  }
+
+  async getSharedFileByLink(shareLink: string): Promise<SharedFile | undefined> {
+    const [sharedFile] = await db.select().from(sharedFiles).where(eq(sharedFiles.shareLink, shareLink));
+    return sharedFile;
+  }
+
+  async getFolderSharedFiles(folderId: number): Promise<SharedFile[]> {
+    return db
+      .select()
+      .from(sharedFiles)
+      .where(eq(sharedFiles.folderId, folderId))
+      .orderBy(asc(sharedFiles.createdAt));
+  }
+
+  async deleteSharedFile(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(sharedFiles)
+      .where(eq(sharedFiles.id, id))
+      .returning({ id: sharedFiles.id });
+    return deleted.length > 0;
+  }
+
+  async incrementAccessCount(id: number): Promise<SharedFile | undefined> {
+    const [sharedFile] = await db
+      .update(sharedFiles)
+      .set({ accessCount: sql`COALESCE(${sharedFiles.accessCount}, 0) + 1` })
+      .where(eq(sharedFiles.id, id))
+      .returning();
+    return sharedFile;
+  }
+
+  async updateSharedFilePassword(id: number, passwordHash: string | null): Promise<SharedFile | undefined> {
+    const [sharedFile] = await db
+      .update(sharedFiles)
+      .set({ passwordHash })
+      .where(eq(sharedFiles.id, id))
+      .returning();
+    return sharedFile;
+  }
+
+  async claimSharedDownload(id: number): Promise<SharedFile | undefined> {
+    // Check and count in one statement, so racing downloads can't go over the limit
+    const [sharedFile] = await db
+      .update(sharedFiles)
+      .set({ downloadCount: sql`${sharedFiles.downloadCount} + 1` })
+      .where(and(
+        eq(sharedFiles.id, id),
+        or(isNull(sharedFiles.maxDownloads), lt(sharedFiles.downloadCount, sharedFiles.maxDownloads))
+      ))
+      .returning();
+    return sharedFile;
+  }
+
+  // File permission operations
+  async createFilePermission(permissionData: InsertFilePermission): Promise<FilePermission> {
+    const [permission] = await db.insert(filePermissions).values(permissionData).returning();
+    return permission;
+  }
+
+  async getFilePermission(id: number): Promise<FilePermission | undefined> {
+    const [permission] = await db.select().from(filePermissions).where(eq(filePermissions.id, id));
+    return permission;
+  }
+
+  async getFilePermissionForUser(fileId: number, userId: number): Promise<FilePermission | undefined> {
+    const [permission] = await db
+      .select()
+      .from(filePermissions)
+      .where(and(eq(filePermissions.fileId, fileId), eq(filePermissions.userId, userId)));
+    return permission;
+  }
+
+  async updateFilePermissionRole(id: number, role: FilePermissionRole): Promise<FilePermission | undefined> {
+    const [permission] = await db
+      .update(filePermissions)
+      .set({ role })
+      .where(eq(filePermissions.id, id))
+      .returning();
+    return permission;
+  }
+
+  async deleteFilePermission(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(filePermissions)
+      .where(eq(filePermissions.id, id))
+      .returning({ id: filePermissions.id });
+    return deleted.length > 0;
+  }
+
+  async getIncomingSharedFiles(userId: number): Promise<IncomingSharedFile[]> {
+    const rows = await db
+      .select({ permission: filePermissions, file: files, sharedBy: users })
+      .from(filePermissions)
+      .innerJoin(files, eq(filePermissions.fileId, files.id))
+      .innerJoin(users, eq(filePermissions.grantedBy, users.id))
+      .where(and(eq(filePermissions.userId, userId), eq(files.isDeleted, false)))
+      .orderBy(desc(filePermissions.createdAt));
+    return rows.map(row => toIncomingSharedFile(row.permission, row.file, row.sharedBy));
+  }
+
+  async getOutgoingShares(userId: number): Promise<OutgoingShares> {
+    // Links point at a file or at a folder, so both are left-joined
+    const links = await db
+      .select({ link: sharedFiles, file: files, folder: folders })
+      .from(sharedFiles)
+      .leftJoin(files, eq(sharedFiles.fileId, files.id))
+      .leftJoin(folders, eq(sharedFiles.folderId, folders.id))
+      .where(or(
+        and(eq(files.uploaderId, userId), eq(files.isDeleted, false)),
+        eq(folders.ownerId, userId)
+      ));
+
+    const grants = await db
+      .select({ permission: filePermissions, file: files, user: users })
+      .from(filePermissions)
+      .innerJoin(files, eq(filePermissions.fileId, files.id))
+      .innerJoin(users, eq(filePermissions.userId, users.id))
+      .where(and(eq(filePermissions.grantedBy, userId), eq(files.isDeleted, false)));
+
+    return groupOutgoingShares(links, grants);
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage()
+  : new MemStorage();
@@ -0,0 +1,560 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { EventEmitter } from 'events';
+import { TDLibError, type TDLibClient } from './index';
+
+// How many bytes each simulated updateFile event moves a transfer forward
+const PROGRESS_STEP_SIZE = 64 * 1024;
+
+// The Telegram user the fake is signed in as
+const FAKE_USER_ID = 777000;
+
+// What the signed-in account may do in a chat
+export type FakeChatRole = 'administrator' | 'member';
+
+// A file known to the fake, shaped like TDLib's `file` object
+interface FakeFile {
+  id: number;
+  size: number;
+  remotePath: string; // The "server" copy
+  localPath: string; // Where the file was uploaded from, or downloaded to
+  isUploadingCompleted: boolean;
+  isDownloadingCompleted: boolean;
+  cancelled: boolean; // The transfer in progress was cancelled, so its progress stops
+}
+
+/**
+ * In-process stand-in for TDLibClientImpl, for integration tests
+ *
+ * Channels, messages and documents live in memory and under a temp directory. Uploads and
+ * downloads report progress through `updateFile` events the way TDLib does, and `send` answers
+ * the queries the app relies on: preliminaryUploadFile, cancelPreliminaryUploadFile, sendMessage,
+ * getMessages, searchChatMessages, deleteMessages, getFile, downloadFile, cancelDownloadFile,
+ * readFilePart, getChat, getChats, getMe and getChatMember.
+ * A chat exists once something was sent to it or it was added with addChat.
+ */
+export class FakeTDLibClient implements TDLibClient {
+  readonly rootDir: string;
+  private authenticated: boolean = false;
+  private events: EventEmitter = new EventEmitter();
+  private files: Map<number, FakeFile> = new Map();
+  private chats: Map<number, Map<number, any>> = new Map();
+  private chatRoles: Map<number, FakeChatRole> = new Map();
+  private failures: Map<string, { times: number; error?: Error }> = new Map();
+  private nextFileId: number = 1;
+  private nextMessageId: number = 1;
+
+  constructor(rootDir: string = fs.mkdtempSync(path.join(os.tmpdir(), 'tdlib-fake-'))) {
+    this.rootDir = rootDir;
+    fs.mkdirSync(path.join(this.rootDir, 'remote'), { recursive: true });
+    fs.mkdirSync(path.join(this.rootDir, 'downloads'), { recursive: true });
+  }
+
+  async initialize(): Promise<void> {
+    this.authenticated = true;
+  }
+
+  async send(query: any): Promise<any> {
+    const method = query?._;
+    this.failIfScheduled(method);
+
+    switch (method) {
+      case 'preliminaryUploadFile':
+        return this.preliminaryUploadFile(query);
+      case 'cancelPreliminaryUploadFile':
+        return this.cancelTransfer(query, 'upload');
+      case 'sendMessage':
+        return this.sendMessage(query);
+      case 'getMessages':
+        return this.getMessages(query);
+      case 'searchChatMessages':
+        return this.searchChatMessages(query);
+      case 'deleteMessages':
+        return this.deleteMessages(query);
+      case 'getFile':
+        return this.toTdFile(this.getFakeFile(Number(query.file_id)));
+      case 'downloadFile':
+        return this.startDownload(query);
+      case 'cancelDownloadFile':
+        return this.cancelTransfer(query, 'download');
+      case 'readFilePart':
+        return this.readFilePartQuery(query);
+      case 'getChat':
+        return this.getChat(query);
+      case 'getChats':
+        return { _: 'chats', total_count: this.chats.size, chat_ids: Array.from(this.chats.keys()) };
+      case 'getMe':
+        return { _: 'user', id: FAKE_USER_ID };
+      case 'getChatMember':
+        return this.getChatMember(query);
+      default:
+        throw new TDLibError(`Method not supported by the fake client: ${method}`, 400);
+    }
+  }
+
+  async receive(): Promise<any> {
+    throw new Error('Receive method is not supported with this TDLib client implementation');
+  }
+
+  async destroy(): Promise<void> {
+    this.authenticated = false;
+    this.events.removeAllListeners();
+  }
+
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  async downloadFile(fileId: number, priority: number = 1): Promise<string> {
+    this.ensureAuthenticated();
+
+    await this.send({ _: 'downloadFile', file_id: fileId, priority, offset: 0, limit: 0, synchronous: false });
+    const file = await this.waitForFile(fileId, file => file.local.is_downloading_completed, 'Download');
+    return file.local.path;
+  }
+
+  async uploadFile(filePath: string, fileType: any = { _: 'fileTypeDocument' }): Promise<any> {
+    this.ensureAuthenticated();
+    return this.send({ _: 'preliminaryUploadFile', file: { _: 'inputFileLocal', path: filePath }, file_type: fileType, priority: 32 });
+  }
+
+  async sendMessageWithFile(
+    channelId: string,
+    filePath: string,
+    caption: string,
+    onProgress?: (uploadedBytes: number) => void,
+    signal?: AbortSignal
+  ): Promise<any> {
+    this.ensureAuthenticated();
+    signal?.throwIfAborted();
+
+    const uploaded = await this.uploadFile(filePath);
+    // Progress events are emitted on later ticks, so nothing is missed by listening now
+    const stopListening = this.onUpdate((update) => {
+      if (onProgress && update.file.id === uploaded.id && update.file.remote.uploaded_size) {
+        onProgress(update.file.remote.uploaded_size);
+      }
+    });
+
+    let messageId: number | null = null;
+    try {
+      const message = await this.send({
+        _: 'sendMessage',
+        chat_id: Number(channelId),
+        input_message_content: {
+          _: 'inputMessageDocument',
+          document: { _: 'inputFileId', id: uploaded.id },
+          caption: { _: 'formattedText', text: caption }
+        }
+      });
+      messageId = message.id;
+      const file = await this.waitForFile(uploaded.id, file => file.remote.is_uploading_completed, 'Upload', signal);
+
+      // Same shape as TDLibClientImpl.uploadFile's result
+      return {
+        messageId: message.id,
+        fileName: message.content.document.file_name,
+        mimeType: message.content.document.mime_type,
+        fileId: file.id,
+        remoteFileId: file.id,
+        localFileId: file.id,
+        filePath: file.local.path,
+        fileSize: file.size,
+      };
+    } catch (error) {
+      // Take back what was handed over, as TDLibClientImpl does
+      if (signal?.aborted) {
+        await this.send({ _: 'cancelPreliminaryUploadFile', file_id: uploaded.id });
+        if (messageId !== null) {
+          await this.send({ _: 'deleteMessages', chat_id: Number(channelId), message_ids: [messageId], revoke: true });
+        }
+        throw new TDLibError(`Upload of ${filePath} was cancelled`, 499);
+      }
+      throw error;
+    } finally {
+      stopListening();
+    }
+  }
+
+  async getFile(fileId: number): Promise<any> {
+    this.ensureAuthenticated();
+    return this.send({ _: 'getFile', file_id: fileId });
+  }
+
+  async readFilePart(fileId: number, offset: number, count: number): Promise<Buffer> {
+    this.ensureAuthenticated();
+    const part = await this.send({ _: 'readFilePart', file_id: fileId, offset, count });
+    return Buffer.from(part.data, 'base64');
+  }
+
+  /**
+   * Listen to the updates TDLib would push, e.g. `updateFile` progress
+   */
+  onUpdate(listener: (update: any) => void): () => void {
+    this.events.on('update', listener);
+    return () => this.events.off('update', listener);
+  }
+
+  /**
+   * Make the next `times` calls of a method fail, e.g. to exercise retries
+   * @param method TDLib method name, e.g. 'sendMessage'
+   * @param times How many calls should fail
+   * @param error What to throw, e.g. a FLOOD_WAIT; a generic failure if not given
+   */
+  failNext(method: string, times: number = 1, error?: Error): void {
+    this.failures.set(method, {
+      times: (this.failures.get(method)?.times ?? 0) + times,
+      error: error ?? this.failures.get(method)?.error
+    });
+  }
+
+  /**
+   * Make a chat known without sending anything to it, e.g. a user's own channel
+   * @param chatId Chat (channel) ID
+   * @param role What the signed-in account may do there; administrators can post
+   */
+  addChat(chatId: string | number, role: FakeChatRole = 'administrator'): void {
+    if (!this.chats.has(Number(chatId))) {
+      this.chats.set(Number(chatId), new Map());
+      this.chatRoles.set(Number(chatId), role);
+    }
+  }
+
+  /**
+   * Post a text message to a chat, as someone else running it would
+   * @param chatId Chat (channel) ID
+   * @param text Text of the message
+   */
+  postText(chatId: string | number, text: string): void {
+    this.addChat(chatId);
+    const message = {
+      _: 'message',
+      id: this.nextMessageId++,
+      chat_id: Number(chatId),
+      date: Math.floor(Date.now() / 1000),
+      content: { _: 'messageText', text: { _: 'formattedText', text } }
+    };
+    this.chats.get(Number(chatId))!.set(message.id, message);
+  }
+
+  /**
+   * Messages currently in a chat, oldest first
+   * @param chatId Chat (channel) ID
+   */
+  getChatMessages(chatId: string | number): any[] {
+    return Array.from(this.chats.get(Number(chatId))?.values() ?? []);
+  }
+
+  /**
+   * Forget every chat, message and file
+   */
+  reset(): void {
+    this.chats.clear();
+    this.chatRoles.clear();
+    this.files.clear();
+    this.failures.clear();
+    fs.rmSync(path.join(this.rootDir, 'remote'), { recursive: true, force: true });
+    fs.rmSync(path.join(this.rootDir, 'downloads'), { recursive: true, force: true });
+    fs.mkdirSync(path.join(this.rootDir, 'remote'), { recursive: true });
+    fs.mkdirSync(path.join(this.rootDir, 'downloads'), { recursive: true });
+  }
+
+  private preliminaryUploadFile(query: any): any {
+    const localPath = query.file?.path;
+    if (!localPath || !fs.existsSync(localPath)) {
+      throw new TDLibError(`File not found: ${localPath}`, 400);
+    }
+
+    // Take the snapshot now; the caller may remove its file as soon as the upload is done
+    const id = this.nextFileId++;
+    const remotePath = path.join(this.rootDir, 'remote', String(id));
+    fs.copyFileSync(localPath, remotePath);
+
+    const file: FakeFile = {
+      id,
+      size: fs.statSync(remotePath).size,
+      remotePath,
+      localPath,
+      isUploadingCompleted: false,
+      isDownloadingCompleted: true,
+      cancelled: false,
+    };
+    this.files.set(id, file);
+    this.emitProgress(file, 'upload');
+
+    return this.toTdFile(file);
+  }
+
+  private sendMessage(query: any): any {
+    const chatId = Number(query.chat_id);
+    const content = query.input_message_content;
+    if (content?._ !== 'inputMessageDocument') {
+      throw new TDLibError(`Message content not supported by the fake client: ${content?._}`, 400);
+    }
+
+    const document = content.document;
+    let file: FakeFile;
+    if (document._ === 'inputFileId') {
+      file = this.getFakeFile(Number(document.id));
+    } else if (document._ === 'inputFileLocal') {
+      file = this.getFakeFile(this.preliminaryUploadFile({ file: document }).id);
+    } else {
+      throw new TDLibError(`Input file not supported by the fake client: ${document._}`, 400);
+    }
+
+    const message = {
+      _: 'message',
+      id: this.nextMessageId++,
+      chat_id: chatId,
+      date: Math.floor(Date.now() / 1000),
+      content: {
+        _: 'messageDocument',
+        document: {
+          _: 'document',
+          file_name: path.basename(file.localPath),
+          mime_type: 'application/octet-stream',
+          document: file.id
+        },
+        caption: { _: 'formattedText', text: content.caption?.text ?? '' }
+      }
+    };
+
+    this.addChat(chatId);
+    this.chats.get(chatId)!.set(message.id, message);
+
+    return this.withFiles(message);
+  }
+
+  private getChat(query: any): any {
+    const chatId = Number(query.chat_id);
+    if (!this.chats.has(chatId)) {
+      throw new TDLibError('Chat not found', 400);
+    }
+    return { _: 'chat', id: chatId, title: `Fake chat ${chatId}` };
+  }
+
+  private getChatMember(query: any): any {
+    const chatId = Number(query.chat_id);
+    if (!this.chats.has(chatId)) {
+      throw new TDLibError('Chat not found', 400);
+    }
+    if (query.member_id?.user_id !== FAKE_USER_ID) {
+      throw new TDLibError('Member not supported by the fake client', 400);
+    }
+
+    const status = this.chatRoles.get(chatId) === 'administrator'
+      ? { _: 'chatMemberStatusAdministrator', rights: { _: 'chatAdministratorRights', can_post_messages: true } }
+      : { _: 'chatMemberStatusMember' };
+    return { _: 'chatMember', member_id: query.member_id, status };
+  }
+
+  private getMessages(query: any): any {
+    const chat = this.chats.get(Number(query.chat_id));
+    // TDLib answers with null for messages that don't exist
+    const messages = (query.message_ids as any[]).map(id => {
+      const message = chat?.get(Number(id));
+      return message ? this.withFiles(message) : null;
+    });
+    return { _: 'messages', total_count: messages.length, messages };
+  }
+
+  private searchChatMessages(query: any): any {
+    const text = String(query.query ?? '');
+    const found = this.getChatMessages(query.chat_id)
+      .filter(message => (message.content.caption ?? message.content.text).text.includes(text))
+      .reverse() // Newest first, like TDLib
+      .slice(0, query.limit || 100)
+      .map(message => this.withFiles(message));
+    return { _: 'foundChatMessages', total_count: found.length, messages: found, next_from_message_id: 0 };
+  }
+
+  private deleteMessages(query: any): any {
+    const chat = this.chats.get(Number(query.chat_id));
+    for (const id of query.message_ids as any[]) {
+      chat?.delete(Number(id));
+    }
+    return { _: 'ok' };
+  }
+
+  private startDownload(query: any): any {
+    const file = this.getFakeFile(Number(query.file_id));
+
+    if (!file.isDownloadingCompleted || !fs.existsSync(file.localPath)) {
+      file.localPath = path.join(this.rootDir, 'downloads', String(file.id));
+      fs.copyFileSync(file.remotePath, file.localPath);
+      file.isDownloadingCompleted = !!query.synchronous;
+    }
+
+    if (!file.isDownloadingCompleted) {
+      file.cancelled = false;
+      this.emitProgress(file, 'download');
+    }
+    return this.toTdFile(file);
+  }
+
+  private cancelTransfer(query: any, direction: 'upload' | 'download'): any {
+    const file = this.getFakeFile(Number(query.file_id));
+    const completed = direction === 'upload' ? file.isUploadingCompleted : file.isDownloadingCompleted;
+    if (!completed) {
+      file.cancelled = true;
+    }
+    return { _: 'ok' };
+  }
+
+  private readFilePartQuery(query: any): any {
+    const file = this.getFakeFile(Number(query.file_id));
+    const offset = Number(query.offset ?? 0);
+    const count = Number(query.count ?? 0) || file.size - offset;
+
+    const data = Buffer.alloc(Math.max(0, Math.min(count, file.size - offset)));
+    const fd = fs.openSync(file.remotePath, 'r');
+    try {
+      fs.readSync(fd, data, 0, data.length, offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return { _: 'filePart', data: data.toString('base64') };
+  }
+
+  // Report a transfer in steps, as TDLib does, finishing on a later tick
+  private emitProgress(file: FakeFile, direction: 'upload' | 'download'): void {
+    let transferred = 0;
+
+    const step = () => {
+      if (file.cancelled) {
+        return;
+      }
+      transferred = Math.min(transferred + PROGRESS_STEP_SIZE, file.size);
+      const done = transferred >= file.size;
+      if (done) {
+        if (direction === 'upload') {
+          file.isUploadingCompleted = true;
+        } else {
+          file.isDownloadingCompleted = true;
+        }
+      }
+
+      const update = this.toTdFile(file);
+      if (direction === 'upload') {
+        update.remote.uploaded_size = transferred;
+        update.remote.is_uploading_active = !done;
+      } else {
+        update.local.downloaded_size = transferred;
+        update.local.downloaded_prefix_size = transferred;
+        update.local.is_downloading_active = !done;
+      }
+      this.events.emit('update', { _: 'updateFile', file: update });
+
+      if (!done) {
+        setImmediate(step);
+      }
+    };
+
+    setImmediate(step);
+  }
+
+  // Resolve once the file satisfies the condition, now or in a later updateFile event
+  // Rejects with the signal's reason when it is aborted first
+  private waitForFile(fileId: number, isDone: (file: any) => boolean, action: string, signal?: AbortSignal): Promise<any> {
+    const current = this.toTdFile(this.getFakeFile(fileId));
+    if (isDone(current)) {
+      return Promise.resolve(current);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+      const stop = () => {
+        clearTimeout(timeout);
+        this.events.off('update', onUpdate);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const timeout = setTimeout(() => {
+        stop();
+        reject(new TDLibError(`${action} timeout for file ID ${fileId}`, 408));
+      }, 30000);
+      timeout.unref();
+
+      const onUpdate = (update: any) => {
+        if (update._ === 'updateFile' && update.file.id === fileId && isDone(update.file)) {
+          stop();
+          resolve(update.file);
+        }
+      };
+      const onAbort = () => {
+        stop();
+        reject(signal?.reason);
+      };
+      this.events.on('update', onUpdate);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private failIfScheduled(method: string): void {
+    const failure = this.failures.get(method);
+    if (failure && failure.times > 0) {
+      failure.times--;
+      throw failure.error ?? new TDLibError(`Simulated failure of ${method}`, 500);
+    }
+  }
+
+  private ensureAuthenticated(): void {
+    if (!this.authenticated) {
+      throw new TDLibError('Not authenticated', 401);
+    }
+  }
+
+  private getFakeFile(fileId: number): FakeFile {
+    const file = this.files.get(fileId);
+    if (!file) {
+      throw new TDLibError(`File ${fileId} not found`, 404);
+    }
+    return file;
+  }
+
+  // Messages keep only file IDs; expand them into current file objects on the way out
+  private withFiles(message: any): any {
+    const document = message.content.document;
+    if (!document) {
+      return message;
+    }
+    return {
+      ...message,
+      content: {
+        ...message.content,
+        document: { ...document, document: this.toTdFile(this.getFakeFile(document.document)) }
+      }
+    };
+  }
+
+  private toTdFile(file: FakeFile): any {
+    return {
+      _: 'file',
+      id: file.id,
+      size: file.size,
+      expected_size: file.size,
+      local: {
+        _: 'localFile',
+        path: file.isDownloadingCompleted ? file.localPath : '',
+        can_be_downloaded: true,
+        can_be_deleted: true,
+        is_downloading_active: false,
+        is_downloading_completed: file.isDownloadingCompleted,
+        download_offset: 0,
+        downloaded_prefix_size: file.isDownloadingCompleted ? file.size : 0,
+        downloaded_size: file.isDownloadingCompleted ? file.size : 0
+      },
+      remote: {
+        _: 'remoteFile',
+        id: `fake-${file.id}`,
+        unique_id: `fake-unique-${file.id}`,
+        is_uploading_active: !file.isUploadingCompleted,
+        is_uploading_completed: file.isUploadingCompleted,
+        uploaded_size: file.isUploadingCompleted ? file.size : 0
+      }
+    };
+  }
+}
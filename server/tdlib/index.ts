@@ -2,13 +2,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { spawn, ChildProcess } from 'child_process';
+import { createHash } from 'crypto';
 import { EventEmitter } from 'events';
 import { getTdjson } from 'prebuilt-tdlib';
 import { log } from 'console';
-import { loginWithGoogle } from '@/lib/firebase';
 
 import pino from 'pino';
 import tdl, { Client } from 'tdl';
+import { getRetryOptions, withRetry, type RetryOptions } from './retry';
 import { check } from 'drizzle-orm/mysql-core';
 import { is } from 'drizzle-orm';
 
@@ -21,6 +22,10 @@ const logger = pino({
 // Configure tdl to use prebuilt-tdlib
 tdl.configure({ tdjson: getTdjson() });
 
+// TDLib's file cache; with several accounts each one gets a directory of its own inside
+export const TDLIB_FILES_DIR = path.join(os.tmpdir(), 'tdlib_files');
+export const TDLIB_DOWNLOADS_DIR = path.join(os.tmpdir(), 'tdlib_downloads');
+
 // TDLib interface
 export interface TDLibClient {
   initialize(): Promise<void>;
@@ -33,9 +38,12 @@ export interface TDLibClient {
   sendMessageWithFile(
     channelId: string,
     filePath: string,
-    caption: string
+    caption: string,
+    onProgress?: (uploadedBytes: number) => void, // Called as TDLib reports updateFile progress
+    signal?: AbortSignal // Cancels the upload in TDLib and removes the message if it was sent
   ): Promise<any>; // Return type is message object
   getFile(fileId: number): Promise<any>; // fileId is number in TDLib
+  readFilePart(fileId: number, offset: number, count: number): Promise<Buffer>; // May return fewer bytes than requested
 }
 
 // Configuration for TDLib
@@ -79,12 +87,15 @@ export class TDLibClientImpl implements TDLibClient {
   private authenticated: boolean = false;
   private events: EventEmitter = new EventEmitter();
   private channelId: string;
+  private retryOptions: RetryOptions;
 
   constructor(
     config: Partial<TDLibConfig> = {},
-    channelId = ''
+    channelId = '',
+    retryOptions: RetryOptions = getRetryOptions()
   ) {
     this.channelId = channelId || process.env.TELEGRAM_CHANNEL_ID || '';
+    this.retryOptions = retryOptions;
 
     // Default configuration
     this.config = {
@@ -92,7 +103,7 @@ export class TDLibClientImpl implements TDLibClient {
       apiHash: process.env.TELEGRAM_APP_API_HASH || '',
       phoneNumber: process.env.TELEGRAM_PHONE || '',
       databaseDirectory: path.join(os.tmpdir(), 'tdlib'),
-      filesDirectory: path.join(os.tmpdir(), 'tdlib_files'),
+      filesDirectory: TDLIB_FILES_DIR,
       useTestDc: false,
       useChatInfoDatabase: true,
       useMessageDatabase: true,
@@ -200,13 +211,23 @@ export class TDLibClientImpl implements TDLibClient {
       throw new TDLibError('TDLib client not initialized', 500);
     }
     try {
-      return await this.client.invoke(query);
+      return await this.invoke(query);
     } catch (error: any) {
       logger.error(`TDLib send error for query ${query._}:`, error);
       throw new TDLibError(`TDLib method ${query._} failed: ${error.message}`, error.code);
     }
   }
 
+  // Invoke a TDLib method, retrying it through FLOOD_WAITs and dropped connections
+  private async invoke(query: any): Promise<any> {
+    return withRetry(query._, async () => {
+      if (!this.client) {
+        throw new TDLibError('TDLib client not initialized', 500);
+      }
+      return this.client.invoke(query);
+    }, this.retryOptions);
+  }
+
   async receive(timeout: number = 10): Promise<any> {
     // This method is not typically used directly with tdl's event-based approach
     // Updates are received via client.on('update', ...) or client.iterUpdates()
@@ -262,13 +283,13 @@ export class TDLibClientImpl implements TDLibClient {
       logger.info(`Downloading file with ID: ${fileId}, priority: ${priority}`);
       
       // Prepare download directory
-      const downloadDir = path.join(os.tmpdir(), 'tdlib_downloads');
+      const downloadDir = TDLIB_DOWNLOADS_DIR;
       if (!fs.existsSync(downloadDir)) {
         fs.mkdirSync(downloadDir, { recursive: true });
       }
 
       // Start file download with specific destination path
-      const downloadResult = await this.client.invoke({
+      const downloadResult = await this.invoke({
         _: 'downloadFile',
         file_id: fileId,
         priority: priority,
@@ -339,6 +360,58 @@ export class TDLibClientImpl implements TDLibClient {
     }
   }
 
+  async readFilePart(fileId: number, offset: number, count: number): Promise<Buffer> {
+    if (!this.client) {
+      throw new TDLibError('TDLib client not initialized', 500);
+    }
+    if (!this.authenticated) {
+      throw new TDLibError('Not authenticated', 401);
+    }
+
+    try {
+      // Download just the requested range; synchronous returns once it is on disk
+      const file = await this.invoke({
+        _: 'downloadFile',
+        file_id: fileId,
+        priority: 32,
+        offset: offset,
+        limit: count,
+        synchronous: true
+      });
+
+      if (!file || file._ !== 'file') {
+        throw new TDLibError(`Failed to download range of file ID ${fileId}`, 500);
+      }
+
+      // Another request for the same file may have moved the download elsewhere,
+      // in which case only what is already on disk can be read
+      const fileSize = file.size || file.expected_size || 0;
+      const available = file.local.is_downloading_completed
+        ? Math.min(count, fileSize - offset)
+        : file.local.download_offset === offset
+          ? Math.min(count, file.local.downloaded_prefix_size)
+          : 0;
+
+      if (available <= 0) {
+        throw new TDLibError(`Range starting at ${offset} of file ID ${fileId} is not available`, 500);
+      }
+
+      const part = await this.invoke({
+        _: 'readFilePart',
+        file_id: fileId,
+        offset: offset,
+        count: available
+      });
+
+      return Buffer.from(part.data, 'base64');
+    } catch (error: any) {
+      logger.error({ err: error }, `TDLib readFilePart error for file ID ${fileId}`);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorCode = error.code || 500;
+      throw new TDLibError(`TDLib readFilePart failed for file ID ${fileId}: ${errorMessage}`, errorCode);
+    }
+  }
+
   async checkChatIdExistance(checkerchatId: number): Promise<boolean> {
     //bflix_files_storage_channel
     const channelUsername = '@bflix_files_storage_channel';
@@ -347,7 +420,7 @@ export class TDLibClientImpl implements TDLibClient {
       //   '@type': 'searchPublicChat',
       //   username: channelUsername.replace('@', ''),
       // });
-      const chats = await this.client?.invoke({
+      const chats = await this.invoke({
         _: 'getChats',
         chat_list: { _: 'chatListMain' },
         limit: 4000
@@ -379,7 +452,13 @@ export class TDLibClientImpl implements TDLibClient {
     }
   }
 
-  async uploadFile(filePath: string, fileType: any = { _: 'fileTypeDocument' }): Promise<any> {
+  async uploadFile(
+    filePath: string,
+    fileType: any = { _: 'fileTypeDocument' },
+    channelId: string = this.channelId,
+    onProgress?: (uploadedBytes: number) => void,
+    signal?: AbortSignal
+  ): Promise<any> {
     if (!this.client) {
       throw new TDLibError('TDLib client not initialized', 500);
     }
@@ -392,18 +471,23 @@ export class TDLibClientImpl implements TDLibClient {
       throw new TDLibError(`File not found: ${filePath}`, 404);
     }
 
+    // What has been handed to Telegram so far, to take back if the upload is cancelled
+    let preliminaryFileId: number | null = null;
+    let sentMessageId: number | null = null;
+
     try {
+      signal?.throwIfAborted();
       logger.info(`Uploading file: ${filePath}, type: ${fileType._}`);
-      let channelID: number = typeof this.channelId === 'number'
-        ? this.channelId
-        : parseInt(this.channelId);
+      let channelID: number = typeof channelId === 'number'
+        ? channelId
+        : parseInt(channelId);
 
       return await this.checkChatIdExistance(channelID).then(
         async (chatId) => {
           if (chatId) {
             logger.info(`Chat ID ${channelID} exists.`);
 
-            const fileId = await this.client?.invoke({
+            const fileId = await this.invoke({
               _: 'preliminaryUploadFile',
               file: {
                 _: 'inputFileLocal',
@@ -414,9 +498,11 @@ export class TDLibClientImpl implements TDLibClient {
               },
               priority: 32
             });
+            preliminaryFileId = fileId.id;
+            signal?.throwIfAborted();
             logger.info(`file id is ${fileId}`);
             // file sending with message result
-            const uploadedFile = await this.client?.invoke({
+            const uploadedFile = await this.invoke({
               _: 'sendMessage',
               chat_id: channelID,
               input_message_content: {
@@ -443,6 +529,7 @@ export class TDLibClientImpl implements TDLibClient {
             // });
             let completedMessage: any = null;
             const messageId = uploadedFile.id;
+            sentMessageId = messageId;
             const fileMiMEType = uploadedFile?.content?.document?.mime_type || 'application/octet-stream';
             const uploadfileName = uploadedFile?.content?.document?.file_name || 'unknown';
 
@@ -454,15 +541,18 @@ export class TDLibClientImpl implements TDLibClient {
 
               // Wait for the file upload to complete
               await new Promise<void>((resolve, reject) => {
-                
                 // let is_done:boolean = false;
                 const onUpdateFile = (update: any) => {
                   if (update._ === 'updateFile' && update.file.id === fileId) {
                     logger.info(`Update for file ${fileId}: ${JSON.stringify(update)}`);
+                    if (onProgress && update.file.remote?.uploaded_size) {
+                      onProgress(update.file.remote.uploaded_size);
+                    }
                     if (update.file.local.is_downloading_completed === true && update.file.local.is_downloading_active === false) {
                       logger.info(`File ${fileId} upload completed.`);
                       completedMessage = update;
                       this.client?.off('update', onUpdateFile); // Stop listening
+                      signal?.removeEventListener('abort', onAbort);
                       resolve();
                     } else if (update.file.local.is_downloading_completed === false && update.file.local.is_downloading_active === true) {
                       logger.info(`File ${fileId} is still uploading...`);
@@ -470,12 +560,23 @@ export class TDLibClientImpl implements TDLibClient {
                     } else if (update.file.local.is_downloading_completed === false && update.file.local.is_downloading_active === false) {
                       logger.error(`File ${fileId} upload failed.`);
                       this.client?.off('update', onUpdateFile); // Stop listening
+                      signal?.removeEventListener('abort', onAbort);
                       reject(new TDLibError(`File upload failed for file ID ${fileId}`, 500));
                     }
                   }
                 };
                 this.client?.on('update', onUpdateFile);
 
+                // Stop waiting as soon as the upload is cancelled; the catch below tells TDLib
+                const onAbort = () => {
+                  this.client?.off('update', onUpdateFile);
+                  reject(signal?.reason);
+                };
+                if (signal?.aborted) {
+                  onAbort();
+                } else {
+                  signal?.addEventListener('abort', onAbort, { once: true });
+                }
               });
 
               // Get the updated message after upload completion
@@ -515,15 +616,35 @@ export class TDLibClientImpl implements TDLibClient {
           }
       });
     } catch (error: any) {
+      if (signal?.aborted) {
+        await this.cancelUpload(channelId, preliminaryFileId, sentMessageId);
+        throw new TDLibError(`Upload of ${filePath} was cancelled`, 499);
+      }
       logger.error(`TDLib uploadFile error for file ${filePath}:`, error);
       throw new TDLibError(`TDLib uploadFile failed for file ${filePath}: ${error.message}`, error.code);
     }
   }
 
+  // Stop an upload TDLib is still working on and drop its message; best effort, since the
+  // upload may be over already
+  private async cancelUpload(channelId: string, fileId: number | null, messageId: number | null): Promise<void> {
+    logger.info(`Cancelling upload of file ID ${fileId}`);
+    if (fileId !== null) {
+      await this.invoke({ _: 'cancelPreliminaryUploadFile', file_id: fileId })
+        .catch((error) => logger.warn({ err: error }, `Failed to cancel upload of file ID ${fileId}`));
+    }
+    if (messageId !== null) {
+      await this.invoke({ _: 'deleteMessages', chat_id: parseInt(channelId), message_ids: [messageId], revoke: true })
+        .catch((error) => logger.warn({ err: error }, `Failed to delete message ${messageId} of a cancelled upload`));
+    }
+  }
+
   async sendMessageWithFile(
     channelId: string,
     filePath: string,
-    caption: string
+    caption: string,
+    onProgress?: (uploadedBytes: number) => void,
+    signal?: AbortSignal
   ): Promise<any> {
     if (!this.client) {
       throw new TDLibError('TDLib client not initialized', 500);
@@ -535,7 +656,7 @@ export class TDLibClientImpl implements TDLibClient {
     try {
       // First, upload the file
       // The uploadFile method now waits for the upload to complete and returns the message object
-      const message = await this.uploadFile(filePath);
+      const message = await this.uploadFile(filePath, undefined, channelId, onProgress, signal);
 
       logger.info(`File uploaded successfully: ${JSON.stringify(message)}`);
 
@@ -569,7 +690,7 @@ export class TDLibClientImpl implements TDLibClient {
     try {
       logger.info(`Getting file info for file ID: ${fileId}`);
       // Use client.invoke with the getFile method
-      const fileInfo = await this.client.invoke({
+      const fileInfo = await this.invoke({
         _: 'getFile',
         file_id: fileId,
       });
@@ -589,19 +710,112 @@ export class TDLibClientImpl implements TDLibClient {
   }
 }
 
-// Singleton instance
-let tdLibInstance: TDLibClient | null = null;
+// A Telegram account the server works through, with its own TDLib session
+export interface TDLibAccount {
+  name: string;
+  client: TDLibClient;
+}
+
+// Accounts in use, created on first access
+let tdLibAccounts: TDLibAccount[] | null = null;
+
+// Build the accounts from TELEGRAM_ACCOUNTS, a comma-separated list of name:phone pairs
+// (e.g. "main:+15550001,backup:+15550002"). Each account keeps its own database and files
+// directory, since TDLib sessions can't share them. Without TELEGRAM_ACCOUNTS the single
+// TELEGRAM_PHONE account is used with the original directories.
+function createTDLibAccounts(): TDLibAccount[] {
+  const configured = (process.env.TELEGRAM_ACCOUNTS || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  if (configured.length === 0) {
+    return [{ name: 'default', client: new TDLibClientImpl() }];
+  }
+
+  const names = new Set<string>();
+  return configured.map((entry) => {
+    const match = entry.match(/^([\w-]+):(\+?\d+)$/);
+    if (!match) {
+      throw new Error(`Invalid TELEGRAM_ACCOUNTS entry "${entry}"; expected name:phone`);
+    }
+
+    const [, name, phoneNumber] = match;
+    if (names.has(name)) {
+      throw new Error(`Duplicate TELEGRAM_ACCOUNTS name "${name}"`);
+    }
+    names.add(name);
+
+    return {
+      name,
+      client: new TDLibClientImpl({
+        phoneNumber,
+        databaseDirectory: path.join(os.tmpdir(), 'tdlib', name),
+        filesDirectory: path.join(TDLIB_FILES_DIR, name),
+      })
+    };
+  });
+}
+
+// Get the Telegram accounts to spread work over
+export function getTDLibAccounts(): TDLibAccount[] {
+  if (!tdLibAccounts) {
+    tdLibAccounts = createTDLibAccounts();
+  }
+  return tdLibAccounts;
+}
+
+// Replace the Telegram accounts, e.g. with several FakeTDLibClients in tests
+// Must happen before TelegramService initializes, since it keeps the accounts it gets
+export function setTDLibAccounts(accounts: TDLibAccount[] | null): void {
+  tdLibAccounts = accounts;
+}
 
-// Create or get the TDLib client instance
+// Get the client of the first account
 export function getTDLibClient(): TDLibClient {
-  if (!tdLibInstance) {
-    tdLibInstance = new TDLibClientImpl();
+  return getTDLibAccounts()[0].client;
+}
+
+// Replace the accounts with a single client, e.g. FakeTDLibClient in tests
+export function setTDLibClient(client: TDLibClient | null): void {
+  setTDLibAccounts(client ? [{ name: 'default', client }] : null);
+}
+
+// Largest document Telegram accepts, and the default chunk size that stays under it
+export const TELEGRAM_MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
+export const DEFAULT_CHUNK_SIZE = 1.9 * 1024 * 1024 * 1024;
+
+// Write a single chunk of a file to disk, next to the file
+export async function writeChunk(filePath: string, index: number, chunkSize: number = DEFAULT_CHUNK_SIZE): Promise<string> {
+  // Check if the file exists
+  if (!fs.existsSync(filePath)) {
+    throw new TDLibError(`File not found: ${filePath}`, 404);
+  }
+
+  const stats = fs.statSync(filePath);
+  const start = index * chunkSize;
+  if (start >= stats.size) {
+    throw new TDLibError(`Chunk ${index + 1} is past the end of ${filePath}`, 400);
   }
-  return tdLibInstance;
+
+  const chunkPath = `${filePath}.part${index + 1}`;
+  const end = Math.min(start + chunkSize, stats.size) - 1;
+
+  // Stream the range so a chunk never has to fit in memory
+  await new Promise<void>((resolve, reject) => {
+    const readStream = fs.createReadStream(filePath, { start, end });
+    const writeStream = fs.createWriteStream(chunkPath);
+    readStream.on('error', reject);
+    writeStream.on('error', reject);
+    writeStream.on('finish', resolve);
+    readStream.pipe(writeStream);
+  });
+
+  return chunkPath;
 }
 
-// Split a file into chunks (for large files > 2GB)
-export async function splitFile(filePath: string, chunkSize: number = 1.9 * 1024 * 1024 * 1024): Promise<string[]> {
+// Split a file into chunks (for files larger than the chunk size)
+export async function splitFile(filePath: string, chunkSize: number = DEFAULT_CHUNK_SIZE): Promise<string[]> {
   // Check if the file exists
   if (!fs.existsSync(filePath)) {
     throw new TDLibError(`File not found: ${filePath}`, 404);
@@ -619,35 +833,47 @@ export async function splitFile(filePath: string, chunkSize: number = 1.9 * 1024
   const numChunks = Math.ceil(stats.size / chunkSize);
   const chunkPaths: string[] = [];
 
-  const fd = fs.openSync(filePath, 'r');
-  try {
-    for (let i = 0; i < numChunks; i++) {
-      const chunkPath = `${filePath}.part${i + 1}`;
-      chunkPaths.push(chunkPath);
-
-      const start = i * chunkSize;
-      const end = Math.min(start + chunkSize, stats.size);
-      const buffer = Buffer.alloc(end - start);
-
-      fs.readSync(fd, buffer, 0, end - start, start);
-      fs.writeFileSync(chunkPath, buffer);
-    }
-  } finally {
-    fs.closeSync(fd);
+  for (let i = 0; i < numChunks; i++) {
+    chunkPaths.push(await writeChunk(filePath, i, chunkSize));
   }
 
   return chunkPaths;
 }
 
+// Compute the SHA-256 of a file, hex encoded
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const data of fs.createReadStream(filePath)) {
+    hash.update(data);
+  }
+  return hash.digest('hex');
+}
+
 // Join chunks back into a single file
-export async function joinChunks(chunkPaths: string[], outputPath: string): Promise<string> {
+// If checksums are given (one per chunk, in order), each chunk is verified before it is appended
+export async function joinChunks(chunkPaths: string[], outputPath: string, checksums?: string[]): Promise<string> {
+  if (checksums && checksums.length !== chunkPaths.length) {
+    throw new TDLibError(`Expected ${checksums.length} chunks, got ${chunkPaths.length}`, 500);
+  }
+
   // Create the write stream for the output file
   const writeStream = fs.createWriteStream(outputPath);
 
-  for (const chunkPath of chunkPaths) {
+  for (let i = 0; i < chunkPaths.length; i++) {
+    const chunkPath = chunkPaths[i];
+
     // Read the chunk
     const chunkData = fs.readFileSync(chunkPath);
 
+    if (checksums) {
+      const checksum = createHash('sha256').update(chunkData).digest('hex');
+      if (checksum !== checksums[i]) {
+        writeStream.destroy();
+        fs.rmSync(outputPath, { force: true });
+        throw new TDLibError(`Checksum mismatch for chunk ${i + 1} of ${chunkPaths.length}`, 500);
+      }
+    }
+
     // Write the chunk to the output file
     writeStream.write(chunkData);
 
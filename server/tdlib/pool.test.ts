@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import { TDLibError, type TDLibClient } from './index';
+import { FakeTDLibClient } from './fake';
+import { TDLibClientPool } from './pool';
+import { getFloodWaitSeconds } from './retry';
+
+const CHANNEL_ID = '-1001000000001';
+
+let first: FakeTDLibClient;
+let second: FakeTDLibClient;
+
+const createPool = async (maxFloodWaitMs?: number): Promise<TDLibClientPool> => {
+  const pool = new TDLibClientPool([
+    { name: 'first', client: first },
+    { name: 'second', client: second },
+  ], maxFloodWaitMs);
+  await pool.initialize();
+  return pool;
+};
+
+// Which account a task ran on
+const getChat = (pool: TDLibClientPool): Promise<TDLibClient> =>
+  pool.run('manage', async (client) => {
+    await client.send({ _: 'getChat', chat_id: parseInt(CHANNEL_ID) });
+    return client;
+  });
+
+describe('TDLibClientPool', () => {
+  beforeEach(() => {
+    first = new FakeTDLibClient();
+    second = new FakeTDLibClient();
+    first.addChat(CHANNEL_ID);
+    second.addChat(CHANNEL_ID);
+  });
+
+  afterEach(async () => {
+    for (const fake of [first, second]) {
+      await fake.destroy();
+      fs.rmSync(fake.rootDir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads the wait out of FLOOD_WAIT errors', () => {
+    expect(getFloodWaitSeconds(new TDLibError('Too Many Requests: retry after 42', 429))).toBe(42);
+    expect(getFloodWaitSeconds(new Error('FLOOD_WAIT_7'))).toBe(7);
+    expect(getFloodWaitSeconds(new TDLibError('Too Many Requests', 429))).toBe(1);
+    expect(getFloodWaitSeconds(new TDLibError('Chat not found', 400))).toBeNull();
+  });
+
+  it('gives concurrent tasks to the least busy account', async () => {
+    const pool = await createPool();
+    const used: TDLibClient[] = [];
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+
+    const tasks = [0, 1].map(() => pool.run('upload', async (client) => {
+      used.push(client);
+      await held;
+    }));
+    release();
+    await Promise.all(tasks);
+
+    expect(used).toEqual([first, second]);
+  });
+
+  it('moves a task to another account on FLOOD_WAIT and rests the limited one', async () => {
+    const pool = await createPool();
+    first.failNext('getChat', 1, new TDLibError('Too Many Requests: retry after 30', 429));
+
+    expect(await getChat(pool)).toBe(second);
+    expect(pool.getStatus()[0].floodWaitUntil).toBeInstanceOf(Date);
+
+    // Still resting, so the next task skips it even though it is idle
+    expect(await getChat(pool)).toBe(second);
+  });
+
+  it('waits out a short FLOOD_WAIT when every account is limited', async () => {
+    const pool = await createPool();
+    first.failNext('getChat', 1, new TDLibError('Too Many Requests: retry after 1', 429));
+    second.failNext('getChat', 1, new TDLibError('Too Many Requests: retry after 1', 429));
+
+    const startedAt = Date.now();
+    await getChat(pool);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+  });
+
+  it('gives up when every account is limited for longer than it will wait', async () => {
+    const pool = await createPool(0);
+    first.failNext('getChat', 1, new TDLibError('Too Many Requests: retry after 60', 429));
+    second.failNext('getChat', 1, new TDLibError('Too Many Requests: retry after 60', 429));
+
+    await expect(getChat(pool)).rejects.toThrow('rate limited');
+  });
+
+  it('takes a logged-out account out of rotation and fails over', async () => {
+    const pool = await createPool();
+    first.failNext('getChat', 1, new TDLibError('AUTH_KEY_UNREGISTERED', 401));
+
+    expect(await getChat(pool)).toBe(second);
+    expect(pool.getStatus()[0]).toMatchObject({ name: 'first', loggedOut: true, authenticated: false });
+    expect(await getChat(pool)).toBe(second);
+
+    await second.destroy();
+
+    expect(pool.isAuthenticated()).toBe(false);
+    await expect(getChat(pool)).rejects.toThrow('No Telegram account is logged in');
+  });
+
+  it('passes other errors through without failing over', async () => {
+    const pool = await createPool();
+
+    await expect(pool.run('manage', client => client.send({ _: 'getChat', chat_id: -1009999999999 })))
+      .rejects.toThrow('Chat not found');
+  });
+
+  it('runs a task on every account, failing when any of them fails', async () => {
+    const pool = await createPool();
+    const otherChannelId = '-1002000000002';
+
+    expect(await pool.runOnEach('manage', async client => client)).toEqual([first, second]);
+
+    first.addChat(otherChannelId);
+    await expect(pool.runOnEach('manage', client => client.send({ _: 'getChat', chat_id: parseInt(otherChannelId) })))
+      .rejects.toThrow('Chat not found');
+    expect(pool.getStatus().map(account => account.activeTasks)).toEqual([0, 0]);
+  });
+
+  it('holds a leased account until the lease is released, failing over like a task', async () => {
+    const pool = await createPool();
+    const lease = await pool.lease('download');
+    expect(lease.client).toBe(first);
+    expect(pool.getStatus().map(account => account.activeTasks)).toEqual([1, 0]);
+
+    expect(await lease.failover(new TDLibError('Chat not found', 400))).toBe(false);
+    expect(lease.client).toBe(first);
+
+    expect(await lease.failover(new TDLibError('Too Many Requests: retry after 30', 429))).toBe(true);
+    expect(lease.client).toBe(second);
+    expect(pool.getStatus().map(account => account.activeTasks)).toEqual([0, 1]);
+
+    lease.release();
+    lease.release();
+    expect(pool.getStatus().map(account => account.activeTasks)).toEqual([0, 0]);
+  });
+
+  it('starts as long as one account comes up', async () => {
+    first.initialize = async () => {
+      throw new TDLibError('Missing required configuration (API ID or API Hash)', 400);
+    };
+    const pool = await createPool();
+
+    expect(pool.getStatus().map(account => account.authenticated)).toEqual([false, true]);
+    expect(await getChat(pool)).toBe(second);
+  });
+});
@@ -0,0 +1,274 @@
+import { TDLibError, type TDLibAccount, type TDLibClient } from './index';
+import { getFloodWaitSeconds } from './retry';
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// Longest FLOOD_WAIT the pool sits out when every account is limited; beyond that it gives up
+const DEFAULT_MAX_FLOOD_WAIT_MS = 5 * 60 * 1000;
+
+// How work is attributed in logs; the scheduling is the same for every kind
+export type TDLibTaskKind = 'upload' | 'download' | 'manage';
+
+// Where an account stands, for logs and the status endpoint
+export interface TDLibAccountStatus {
+  name: string;
+  authenticated: boolean;
+  loggedOut: boolean;
+  activeTasks: number;
+  floodWaitUntil: Date | null;
+}
+
+// An account held for work that spans many calls, e.g. a stream read as the reader asks for it
+export interface TDLibLease {
+  readonly client: TDLibClient; // Changes when the lease fails over
+  /**
+   * Move the lease to another account if the error was a FLOOD_WAIT or a logout
+   * @param error Error thrown by a call on the lease's client
+   * @returns Whether the lease moved, so the work should go on with the new client
+   */
+  failover(error: unknown): Promise<boolean>;
+  release(): void; // Safe to call more than once
+}
+
+interface PooledAccount {
+  name: string;
+  client: TDLibClient;
+  initialized: boolean;
+  loggedOut: boolean;
+  activeTasks: number;
+  floodWaitUntil: number; // ms timestamp, 0 when not limited
+}
+
+/**
+ * Whether an error means the account's session is gone
+ * @param error Error thrown by a TDLib call
+ */
+export function isLoggedOutError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return (error instanceof TDLibError && error.code === 401) ||
+    /AUTH_KEY_UNREGISTERED|SESSION_REVOKED|USER_DEACTIVATED/.test(message);
+}
+
+/**
+ * Spreads TDLib work over several Telegram accounts
+ *
+ * Each task runs on the authenticated account with the fewest tasks in flight. When Telegram
+ * answers with a FLOOD_WAIT longer than the client sits out by itself (see withRetry), the account
+ * sits out for the time asked and the task moves to another account; a logged-out account is
+ * dropped from the rotation and its task moves on the same way.
+ * File IDs are local to a TDLib session, so work that resolves a file and then reads it must
+ * happen inside a single task, or a lease that resolves the file again after failing over.
+ */
+export class TDLibClientPool {
+  private accounts: PooledAccount[];
+  private maxFloodWaitMs: number;
+
+  constructor(accounts: TDLibAccount[], maxFloodWaitMs: number = DEFAULT_MAX_FLOOD_WAIT_MS) {
+    if (accounts.length === 0) {
+      throw new Error('At least one Telegram account is required');
+    }
+
+    this.accounts = accounts.map(account => ({
+      ...account,
+      initialized: false,
+      loggedOut: false,
+      activeTasks: 0,
+      floodWaitUntil: 0,
+    }));
+    this.maxFloodWaitMs = maxFloodWaitMs;
+  }
+
+  /**
+   * Initialize every account; the pool works as long as one of them comes up
+   */
+  async initialize(): Promise<void> {
+    const results = await Promise.allSettled(this.accounts.map(async (account) => {
+      await account.client.initialize();
+      if (!account.client.isAuthenticated()) {
+        throw new Error('TDLib authentication failed');
+      }
+      account.initialized = true;
+      logger.info(`Telegram account "${account.name}" is ready`);
+    }));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error({ err: result.reason }, `Telegram account "${this.accounts[index].name}" failed to initialize`);
+      }
+    });
+
+    if (!this.accounts.some(account => account.initialized)) {
+      throw new Error('No Telegram account could be initialized');
+    }
+  }
+
+  /**
+   * Run a task on the least busy available account, moving it to another account on
+   * FLOOD_WAIT or logout
+   * @param kind What the task does, for logs
+   * @param task The work, given the client to use
+   */
+  async run<T>(kind: TDLibTaskKind, task: (client: TDLibClient) => Promise<T>): Promise<T> {
+    // Enough to try every account a few times, without spinning forever on a task Telegram keeps refusing
+    const maxAttempts = this.accounts.length * 3;
+
+    for (let attempt = 1; ; attempt++) {
+      const account = await this.acquire();
+
+      try {
+        return await task(account.client);
+      } catch (error) {
+        if (attempt >= maxAttempts || !this.sideline(account, kind, error)) {
+          throw error;
+        }
+      } finally {
+        account.activeTasks--;
+      }
+    }
+  }
+
+  /**
+   * Hold the least busy available account until released, counting it as one task throughout
+   * Failing over works like run(), except that the work itself picks up where it left off.
+   * @param kind What the work does, for logs
+   */
+  async lease(kind: TDLibTaskKind): Promise<TDLibLease> {
+    const maxAttempts = this.accounts.length * 3;
+    let account: PooledAccount | null = await this.acquire();
+    let attempts = 1;
+
+    return {
+      get client(): TDLibClient {
+        if (!account) {
+          throw new Error('The Telegram account lease was released');
+        }
+        return account.client;
+      },
+      failover: async (error: unknown): Promise<boolean> => {
+        if (!account || attempts >= maxAttempts || !this.sideline(account, kind, error)) {
+          return false;
+        }
+        account.activeTasks--;
+        account = null;
+        account = await this.acquire();
+        attempts++;
+        return true;
+      },
+      release: () => {
+        if (account) {
+          account.activeTasks--;
+          account = null;
+        }
+      },
+    };
+  }
+
+  /**
+   * Run a task on every available account in turn, e.g. to check that each of them can use a chat
+   * There is no failover: the task failing on any account fails the whole run.
+   * @param kind What the task does, for logs
+   * @param task The work, given the client to use
+   * @returns What the task returned on each account
+   */
+  async runOnEach<T>(kind: TDLibTaskKind, task: (client: TDLibClient) => Promise<T>): Promise<T[]> {
+    const usable = this.accounts.filter(account => this.isUsable(account));
+    if (usable.length === 0) {
+      throw new TDLibError('No Telegram account is logged in', 401);
+    }
+
+    const results: T[] = [];
+    for (const account of usable) {
+      account.activeTasks++;
+      try {
+        results.push(await task(account.client));
+      } catch (error) {
+        if (isLoggedOutError(error) || !account.client.isAuthenticated()) {
+          account.loggedOut = true;
+          logger.error(`Telegram account "${account.name}" is logged out, taking it out of rotation`);
+        } else {
+          logger.warn(`Telegram account "${account.name}" failed during ${kind}`);
+        }
+        throw error;
+      } finally {
+        account.activeTasks--;
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Whether any account can take work
+   */
+  isAuthenticated(): boolean {
+    return this.accounts.some(account => this.isUsable(account));
+  }
+
+  /**
+   * Where each account stands
+   */
+  getStatus(): TDLibAccountStatus[] {
+    return this.accounts.map(account => ({
+      name: account.name,
+      authenticated: this.isUsable(account),
+      loggedOut: account.loggedOut,
+      activeTasks: account.activeTasks,
+      floodWaitUntil: account.floodWaitUntil > Date.now() ? new Date(account.floodWaitUntil) : null,
+    }));
+  }
+
+  // Pick the account for the next task and count the task against it, waiting out FLOOD_WAIT
+  // if every account is limited
+  private async acquire(): Promise<PooledAccount> {
+    for (;;) {
+      const usable = this.accounts.filter(account => this.isUsable(account));
+      if (usable.length === 0) {
+        throw new TDLibError('No Telegram account is logged in', 401);
+      }
+
+      const now = Date.now();
+      const ready = usable.filter(account => account.floodWaitUntil <= now);
+      if (ready.length > 0) {
+        // Fewest tasks in flight wins; ties go to the earliest account. The count goes up before
+        // returning so tasks started together don't all pick the same account
+        const account = ready.reduce((best, candidate) => candidate.activeTasks < best.activeTasks ? candidate : best);
+        account.activeTasks++;
+        return account;
+      }
+
+      const waitMs = Math.min(...usable.map(account => account.floodWaitUntil)) - now;
+      if (waitMs > this.maxFloodWaitMs) {
+        throw new TDLibError(`All Telegram accounts are rate limited for at least ${Math.ceil(waitMs / 1000)}s`, 429);
+      }
+
+      logger.warn(`All Telegram accounts are rate limited, waiting ${Math.ceil(waitMs / 1000)}s`);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  // Take an account out of rotation for a FLOOD_WAIT or a logout; false for any other error
+  private sideline(account: PooledAccount, kind: TDLibTaskKind, error: unknown): boolean {
+    const floodWaitSeconds = getFloodWaitSeconds(error);
+    if (floodWaitSeconds !== null) {
+      account.floodWaitUntil = Date.now() + floodWaitSeconds * 1000;
+      logger.warn(`Telegram account "${account.name}" hit FLOOD_WAIT of ${floodWaitSeconds}s during ${kind}, moving on`);
+      return true;
+    }
+
+    if (isLoggedOutError(error) || !account.client.isAuthenticated()) {
+      account.loggedOut = true;
+      logger.error(`Telegram account "${account.name}" is logged out, taking it out of rotation`);
+      return true;
+    }
+
+    return false;
+  }
+
+  private isUsable(account: PooledAccount): boolean {
+    return account.initialized && !account.loggedOut && account.client.isAuthenticated();
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { TDLibError } from './index';
+import { getRetryOptions, isNetworkError, withRetry, type RetryOptions } from './retry';
+
+const options: RetryOptions = { retries: 2, maxFloodWaitMs: 2000, baseDelayMs: 1 };
+
+// A call that fails with the given errors in turn, then answers 'ok'
+const failingWith = (...errors: Error[]) => {
+  const calls = { count: 0 };
+  const call = async () => {
+    const error = errors[calls.count++];
+    if (error) {
+      throw error;
+    }
+    return 'ok';
+  };
+  return { calls, call };
+};
+
+describe('withRetry', () => {
+  it('recognizes dropped connections', () => {
+    expect(isNetworkError(new TDLibError('Request aborted', 500))).toBe(true);
+    expect(isNetworkError(new Error('NETWORK_MIGRATE_2: Connection closed'))).toBe(true);
+    expect(isNetworkError(new TDLibError('Chat not found', 400))).toBe(false);
+  });
+
+  it('waits out a short FLOOD_WAIT, even for methods that are not idempotent', async () => {
+    const { calls, call } = failingWith(new TDLibError('Too Many Requests: retry after 1', 429));
+
+    const startedAt = Date.now();
+    await expect(withRetry('sendMessage', call, options)).resolves.toBe('ok');
+
+    expect(calls.count).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+  });
+
+  it('leaves FLOOD_WAITs longer than it waits to the caller', async () => {
+    const { calls, call } = failingWith(new TDLibError('Too Many Requests: retry after 60', 429));
+
+    await expect(withRetry('getChat', call, options)).rejects.toThrow('retry after 60');
+    expect(calls.count).toBe(1);
+  });
+
+  it('retries idempotent methods after a network error', async () => {
+    const { calls, call } = failingWith(new Error('Request aborted'), new Error('Connection closed'));
+
+    await expect(withRetry('readFilePart', call, options)).resolves.toBe('ok');
+    expect(calls.count).toBe(3);
+  });
+
+  it('does not resend other methods after a network error, since they may have gone through', async () => {
+    const { calls, call } = failingWith(new Error('Request aborted'));
+
+    await expect(withRetry('sendMessage', call, options)).rejects.toThrow('Request aborted');
+    expect(calls.count).toBe(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const { calls, call } = failingWith(...Array.from({ length: 5 }, () => new Error('Request aborted')));
+
+    await expect(withRetry('getMessages', call, options)).rejects.toThrow('Request aborted');
+    expect(calls.count).toBe(options.retries + 1);
+  });
+
+  it('passes other errors straight through', async () => {
+    const { calls, call } = failingWith(new TDLibError('Chat not found', 400));
+
+    await expect(withRetry('getChat', call, options)).rejects.toThrow('Chat not found');
+    expect(calls.count).toBe(1);
+  });
+});
+
+describe('getRetryOptions', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('falls back to the defaults when nothing is set', () => {
+    vi.stubEnv('TELEGRAM_RETRY_LIMIT', '');
+    vi.stubEnv('TELEGRAM_RETRY_MAX_WAIT', 'soon');
+
+    expect(getRetryOptions()).toMatchObject({ retries: 3, maxFloodWaitMs: 10_000 });
+  });
+
+  it('keeps an explicit 0, which turns retries and FLOOD_WAIT waits off', () => {
+    vi.stubEnv('TELEGRAM_RETRY_LIMIT', '0');
+    vi.stubEnv('TELEGRAM_RETRY_MAX_WAIT', '0');
+
+    expect(getRetryOptions()).toMatchObject({ retries: 0, maxFloodWaitMs: 0 });
+  });
+});
@@ -0,0 +1,133 @@
+import pino from 'pino';
+
+const logger = pino({
+  transport: {
+    target: 'pino-pretty'
+  }
+});
+
+// TDLib methods that can safely run twice, so a request lost to a network error can be sent again
+const IDEMPOTENT_METHODS = new Set([
+  'getChat',
+  'getChats',
+  'getMessages',
+  'searchChatMessages',
+  'deleteMessages',
+  'getFile',
+  'downloadFile',
+  'readFilePart',
+  'cancelDownloadFile',
+  'cancelPreliminaryUploadFile',
+]);
+
+// How a TDLib call is retried
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  maxFloodWaitMs: number; // Longer FLOOD_WAITs are left to the caller, e.g. to move to another account
+  baseDelayMs: number; // First back-off after a network error; doubles with every attempt
+}
+
+// The message of whatever a TDLib call threw; TDLib errors can also arrive as plain { code, message } objects
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String(error.message);
+  }
+  return String(error);
+}
+
+// A whole number setting from the environment; only a missing or unreadable value falls back, so 0 stays 0
+function getIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '');
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Seconds Telegram asked us to wait, if the error is a FLOOD_WAIT
+ * TDLib reports these as code 429 with "retry after N"; the raw API error reads FLOOD_WAIT_N.
+ * @param error Error thrown by a TDLib call
+ */
+export function getFloodWaitSeconds(error: unknown): number | null {
+  const message = getErrorMessage(error);
+  const match = message.match(/retry after (\d+)/i) || message.match(/FLOOD_WAIT_(\d+)/);
+  if (match) {
+    return parseInt(match[1]);
+  }
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 429 ? 1 : null;
+}
+
+/**
+ * Whether an error looks like the connection to Telegram dropped, rather than Telegram refusing
+ * @param error Error thrown by a TDLib call
+ */
+export function isNetworkError(error: unknown): boolean {
+  const message = getErrorMessage(error);
+  return /NETWORK|TIMEOUT|timed out|Connection (closed|lost|reset)|ECONNRESET|ETIMEDOUT|Request aborted/i.test(message);
+}
+
+/**
+ * Read the retry settings from the environment
+ * TELEGRAM_RETRY_LIMIT caps the retries of a call (default 3); TELEGRAM_RETRY_MAX_WAIT is the
+ * longest FLOOD_WAIT, in seconds, a call sits out by itself (default 10). Either can be 0.
+ */
+export function getRetryOptions(): RetryOptions {
+  return {
+    retries: Math.max(0, getIntEnv('TELEGRAM_RETRY_LIMIT', 3)),
+    maxFloodWaitMs: Math.max(0, getIntEnv('TELEGRAM_RETRY_MAX_WAIT', 10)) * 1000,
+    baseDelayMs: 1000,
+  };
+}
+
+/**
+ * Run a TDLib call, retrying it through transient failures
+ *
+ * A FLOOD_WAIT means Telegram didn't run the request, so any method is retried after the advised
+ * wait. After a network error it is unknown whether the request ran, so only idempotent methods
+ * are retried, with exponential back-off. Waits get up to 20% jitter so calls that failed together
+ * don't all come back at once. Every retry is logged as a `tdlib_retry` event.
+ * @param method TDLib method name, e.g. 'sendMessage'
+ * @param call The call to make
+ * @param options Retry limits
+ */
+export async function withRetry<T>(method: string, call: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const delayMs = getRetryDelay(method, error, attempt, options);
+      const errorMessage = getErrorMessage(error);
+
+      if (delayMs === null) {
+        throw error;
+      }
+      if (attempt > options.retries) {
+        logger.warn({ event: 'tdlib_retry_exhausted', method, attempts: attempt, error: errorMessage }, `TDLib ${method} failed after ${attempt} attempts`);
+        throw error;
+      }
+
+      logger.warn({ event: 'tdlib_retry', method, attempt, retries: options.retries, delayMs, error: errorMessage }, `Retrying TDLib ${method} in ${delayMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+// How long to wait before trying again, or null when the error isn't worth retrying
+function getRetryDelay(method: string, error: unknown, attempt: number, options: RetryOptions): number | null {
+  const floodWaitSeconds = getFloodWaitSeconds(error);
+  if (floodWaitSeconds !== null) {
+    const waitMs = floodWaitSeconds * 1000;
+    return waitMs <= options.maxFloodWaitMs ? withJitter(waitMs) : null;
+  }
+
+  if (isNetworkError(error) && IDEMPOTENT_METHODS.has(method)) {
+    return withJitter(options.baseDelayMs * 2 ** (attempt - 1));
+  }
+
+  return null;
+}
+
+function withJitter(delayMs: number): number {
+  return Math.round(delayMs * (1 + Math.random() * 0.2));
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,31 +9,133 @@ export const users = pgTable("users", {
   displayName: text("display_name"),
   photoURL: text("photo_url"),
   createdAt: timestamp("created_at").defaultNow(),
-  quota: integer("quota").default(5368709120), // 5GB in bytes
-  usedStorage: integer("used_storage").default(0),
+  quota: bigint("quota", { mode: "number" }).default(5368709120), // 5GB in bytes
+  usedStorage: bigint("used_storage", { mode: "number" }).default(0),
+  trashRetentionDays: integer("trash_retention_days").default(30),
+  telegramChannelId: text("telegram_channel_id"), // The user's own channel, used instead of the shared pool
 });
 
 export const files = pgTable("files", {
   id: serial("id").primaryKey(),
   fileName: text("file_name").notNull(),
   fileType: text("file_type").notNull(),
-  fileSize: integer("file_size").notNull(),
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
   fileLink: text("file_link"),
   uploaderId: integer("uploader_id").notNull(),
   uploadTimestamp: timestamp("upload_timestamp").defaultNow(),
   telegramMessageId: text("telegram_message_id").notNull(),
   channelId: text("channel_id").notNull(),
   isDeleted: boolean("is_deleted").default(false),
+  deletedAt: timestamp("deleted_at"),
   isStarred: boolean("is_starred").default(false),
+  starredAt: timestamp("starred_at"),
+  folderId: integer("folder_id"), // null means the root folder
+  // Set when the browser encrypted the file; the server only ever sees ciphertext
+  isEncrypted: boolean("is_encrypted").default(false),
+  wrappedKey: text("wrapped_key"), // AES-GCM file key wrapped with the passphrase-derived key, base64
+  encryptionIv: text("encryption_iv"), // base64
+  encryptionSalt: text("encryption_salt"), // PBKDF2 salt for the passphrase, base64
+  // Set when the server encrypted the Telegram payload at rest
+  wrappedDataKey: text("wrapped_data_key"), // per-file data key wrapped by the master key, base64
+  masterKeyId: text("master_key_id"), // which master key wrapped it
+  dataNonce: text("data_nonce"), // base64
+  contentHash: text("content_hash"), // SHA-256 of the uploaded bytes, hex encoded
 });
 
-export const sharedFiles = pgTable("shared_files", {
+// Content-addressed index of Telegram payloads; files with the same hash share one message.
+// Content is indexed per channel, so files never point into a channel their owner's uploads don't go to.
+export const contentBlobs = pgTable("content_blobs", {
+  id: serial("id").primaryKey(),
+  contentHash: text("content_hash").notNull(),
+  telegramMessageId: text("telegram_message_id").notNull(),
+  channelId: text("channel_id").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  refCount: integer("ref_count").notNull().default(1), // files (trashed ones included) pointing at the message
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  contentHashChannelId: unique("content_blobs_content_hash_channel_id_unique").on(table.contentHash, table.channelId),
+}));
+
+// Ordered manifest of the Telegram messages holding a file that was split into chunks
+export const fileChunks = pgTable("file_chunks", {
   id: serial("id").primaryKey(),
   fileId: integer("file_id").notNull(),
+  chunkIndex: integer("chunk_index").notNull(), // 0-based position in the file
+  telegramMessageId: text("telegram_message_id").notNull(),
+  channelId: text("channel_id").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  checksum: text("checksum").notNull(), // SHA-256 of the chunk, hex encoded
+});
+
+export const folders = pgTable("folders", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  ownerId: integer("owner_id").notNull(),
+  parentId: integer("parent_id"), // null means the root folder
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A resumable upload in progress; the bytes received so far live in a temp file named after the ID
+export const uploadSessions = pgTable("upload_sessions", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type"),
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
+  uploadOffset: bigint("upload_offset", { mode: "number" }).notNull().default(0),
+  folderId: integer("folder_id"), // null means the root folder
+  // Encryption parameters of client-side encrypted uploads, copied to the file when it completes
+  wrappedKey: text("wrapped_key"),
+  encryptionIv: text("encryption_iv"),
+  encryptionSalt: text("encryption_salt"),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Received files waiting for, or going through, the transfer to the storage backend
+// Kept in the database so queued transfers survive a restart
+export const uploadJobs = pgTable("upload_jobs", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  status: text("status").notNull().default("queued"), // queued, uploading, done, failed or cancelled
+  filePath: text("file_path").notNull(), // The received bytes, removed once the job is over
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type"),
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
+  folderId: integer("folder_id"), // null means the root folder
+  // Encryption parameters of client-side encrypted uploads, copied to the file when it is stored
+  wrappedKey: text("wrapped_key"),
+  encryptionIv: text("encryption_iv"),
+  encryptionSalt: text("encryption_salt"),
+  bytesStored: bigint("bytes_stored", { mode: "number" }).notNull().default(0),
+  storedFileId: integer("stored_file_id"), // The file created once the job is done
+  error: text("error"), // Why the job failed
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Share links; each points at either a file or a folder
+export const sharedFiles = pgTable("shared_files", {
+  id: serial("id").primaryKey(),
+  fileId: integer("file_id"), // Set for links to a file
+  folderId: integer("folder_id"), // Set for links to a folder, which share everything in it
   shareLink: text("share_link").notNull().unique(),
   expiryDate: timestamp("expiry_date"),
+  passwordHash: text("password_hash"), // Salted scrypt hash; null when the link needs no password
+  maxDownloads: integer("max_downloads"), // null means unlimited; 1 makes a one-time link
+  downloadCount: integer("download_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  accessCount: integer("access_count").default(0), // Times the link was opened
+});
+
+// Files shared with other registered users; one row per file and user
+export const filePermissions = pgTable("file_permissions", {
+  id: serial("id").primaryKey(),
+  fileId: integer("file_id").notNull(),
+  userId: integer("user_id").notNull(), // Who the file is shared with
+  grantedBy: integer("granted_by").notNull(), // The owner, or an editor who passed it on
+  role: text("role").notNull().default("viewer"), // viewer or editor
   createdAt: timestamp("created_at").defaultNow(),
-  accessCount: integer("access_count").default(0),
 });
 
 // Insert schemas
@@ -42,19 +144,58 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
   quota: true,
   usedStorage: true,
+  trashRetentionDays: true,
+  telegramChannelId: true,
 });
 
 export const insertFileSchema = createInsertSchema(files).omit({
   id: true,
   uploadTimestamp: true,
   isDeleted: true,
+  deletedAt: true,
   isStarred: true,
+  starredAt: true,
+});
+
+export const insertFileChunkSchema = createInsertSchema(fileChunks).omit({
+  id: true,
+});
+
+export const insertContentBlobSchema = createInsertSchema(contentBlobs).omit({
+  id: true,
+  refCount: true,
+  createdAt: true,
+});
+
+export const insertFolderSchema = createInsertSchema(folders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).omit({
+  createdAt: true,
+  uploadOffset: true,
+});
+
+export const insertUploadJobSchema = createInsertSchema(uploadJobs).omit({
+  status: true,
+  bytesStored: true,
+  storedFileId: true,
+  error: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export const insertSharedFileSchema = createInsertSchema(sharedFiles).omit({
   id: true,
   createdAt: true,
   accessCount: true,
+  downloadCount: true,
+});
+
+export const insertFilePermissionSchema = createInsertSchema(filePermissions).omit({
+  id: true,
+  createdAt: true,
 });
 
 // Types
@@ -64,9 +205,30 @@ export type User = typeof users.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
 
+export type InsertFileChunk = z.infer<typeof insertFileChunkSchema>;
+export type FileChunk = typeof fileChunks.$inferSelect;
+
+export type InsertContentBlob = z.infer<typeof insertContentBlobSchema>;
+export type ContentBlob = typeof contentBlobs.$inferSelect;
+
+export type InsertFolder = z.infer<typeof insertFolderSchema>;
+export type Folder = typeof folders.$inferSelect;
+
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+
+export type InsertUploadJob = z.infer<typeof insertUploadJobSchema>;
+export type UploadJob = typeof uploadJobs.$inferSelect;
+export type UploadJobStatus = 'queued' | 'uploading' | 'done' | 'failed' | 'cancelled';
+
 export type InsertSharedFile = z.infer<typeof insertSharedFileSchema>;
 export type SharedFile = typeof sharedFiles.$inferSelect;
 
+export type InsertFilePermission = z.infer<typeof insertFilePermissionSchema>;
+export type FilePermission = typeof filePermissions.$inferSelect;
+// Viewers can open and download a file; editors can also share it with more people
+export type FilePermissionRole = 'viewer' | 'editor';
+
 // Response types for API
 export interface UserWithStorage {
   user: User;
@@ -79,7 +241,95 @@ export interface UserWithStorage {
 
 export interface FileWithShareInfo extends File {
   shareInfo?: {
+    id: number;
     shareLink: string;
     expiryDate?: Date;
+    hasPassword: boolean;
+    maxDownloads: number | null;
+    downloadCount: number;
   };
 }
+
+// A file as anyone with a share link sees it; nothing about where or how it is stored
+export type SharedFileEntry = Pick<File, 'id' | 'fileName' | 'fileType' | 'fileSize' | 'uploadTimestamp' | 'isEncrypted'>;
+
+export type SharedFolderEntry = Pick<Folder, 'id' | 'name'>;
+
+// One folder of a shared folder's tree
+export interface SharedFolderListing {
+  folder: SharedFolderEntry;
+  path: SharedFolderEntry[]; // from the shared folder down to (and including) this one
+  folders: SharedFolderEntry[];
+  files: SharedFileEntry[];
+}
+
+// What anyone with a share link gets to see
+export interface SharedFileInfo {
+  file: SharedFileEntry | null; // Set for links to a file
+  folder: SharedFolderListing | null; // Set for links to a folder
+  expiryDate: Date | null;
+  downloadsLeft: number | null; // null when downloads are unlimited
+}
+
+// A share link as its owner sees it
+export interface ShareLinkInfo {
+  id: number;
+  shareLink: string;
+  expiryDate: Date | null;
+  hasPassword: boolean;
+  maxDownloads: number | null;
+  downloadCount: number;
+  accessCount: number;
+  createdAt: Date | null;
+}
+
+// What other users get to know about a user
+export type UserSummary = Pick<User, 'id' | 'email' | 'displayName' | 'photoURL'>;
+
+// Someone a file is shared with
+export interface FileGrant {
+  id: number;
+  role: FilePermissionRole;
+  user: UserSummary;
+  grantedBy: number;
+  createdAt: Date | null;
+}
+
+// A file someone else shared with the user
+export interface IncomingSharedFile extends File {
+  permissionId: number;
+  role: FilePermissionRole;
+  sharedBy: UserSummary;
+  sharedAt: Date | null;
+}
+
+// A file the user shared, with the links to it and the people it was shared with
+export interface OutgoingSharedFile extends File {
+  links: ShareLinkInfo[];
+  grants: FileGrant[];
+}
+
+// A folder the user shared, with the links to it
+export interface OutgoingSharedFolder extends Folder {
+  links: ShareLinkInfo[];
+}
+
+// Everything the user shared, most recently shared first
+export interface OutgoingSharedItems {
+  files: OutgoingSharedFile[];
+  folders: OutgoingSharedFolder[];
+}
+
+// Parameters needed to decrypt a client-side encrypted file (all base64)
+export interface FileEncryption {
+  wrappedKey: string;
+  iv: string;
+  salt: string;
+}
+
+export interface FolderContents {
+  folder: Folder | null; // null for the root folder
+  path: Folder[]; // ancestors from the root down to (and including) the folder
+  folders: Folder[];
+  files: File[];
+}
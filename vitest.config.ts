@@ -0,0 +1,27 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    testTimeout: 30000,
+    // Integration tests run against MemStorage and the fake TDLib client, never real services
+    env: {
+      NODE_ENV: "test",
+      DATABASE_URL: "",
+      STORAGE_BACKEND: "telegram",
+      STORAGE_MASTER_KEYS: "",
+      TELEGRAM_CHANNEL_ID: "-1001000000001",
+      TELEGRAM_CHUNK_SIZE: String(64 * 1024),
+      TELEGRAM_UPLOAD_CONCURRENCY: "1",
+      TELEGRAM_CHUNK_RETRIES: "2",
+    },
+  },
+});